@@ -0,0 +1,284 @@
+// The review page of the moderation queue: generated reels wait here until a reviewer approves them for the feed.
+// The reviewer enters the `ADMIN_TOKEN` once; it is kept in session storage and sent with every request.
+// Reels are listed by review status ("/api/admin/reviews", pending by default) through the typed API client ("src/lib/api.ts").
+// Each reel shows its video, title, script and hashtags, and the flags of the automated pre-checks
+// (banned terms in the text, images that duplicate another reel's, see "src/lib/moderation.ts").
+// The actions of a reel are:
+// - "Approve": publishes the reel to the feed.
+// - "Reject": keeps it out of the feed, with the reason typed in the reason box (required).
+// - "Request regeneration": starts a new generation from the reel's inputs with "forceRegenerate" and rejects this reel
+//   in its favour; the new reel enters the queue when it is ready.
+// Tailwind CSS is used for styling, matching the "Create" and history pages.
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { Reel, ReviewStatus } from '@/lib/reels';
+import {
+  api,
+  ApiError,
+  ERROR_MESSAGES,
+  ReviewRequest,
+  toGenerateVideoRequest,
+} from '@/lib/api';
+
+const TOKEN_STORAGE_KEY = 'adminToken';
+
+const STATUS_LABELS: Record<ReviewStatus, string> = {
+  pending: 'Pending',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+export default function Review() {
+  const [token, setToken] = useState<string>('');
+  const [tokenInput, setTokenInput] = useState<string>('');
+  const [status, setStatus] = useState<ReviewStatus>('pending');
+  const [reels, setReels] = useState<Reel[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  // The reason typed for each reel, by reel id.
+  const [reasons, setReasons] = useState<Record<string, string>>({});
+  // The id of the reel a decision is being sent for, to disable its buttons.
+  const [busyReelId, setBusyReelId] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    setToken(sessionStorage.getItem(TOKEN_STORAGE_KEY) || '');
+  }, []);
+
+  /**
+   * Shows the message for a failed request. A rejected token is forgotten, so the reviewer is asked again.
+   */
+  const handleError = useCallback((error: unknown) => {
+    console.error('Review request failed:', error);
+    if (error instanceof ApiError && error.code === 'UNAUTHORIZED') {
+      sessionStorage.removeItem(TOKEN_STORAGE_KEY);
+      setToken('');
+    }
+    setErrorMessage(
+      error instanceof ApiError
+        ? `${error.userMessage} ${error.message}`
+        : ERROR_MESSAGES.INTERNAL_ERROR
+    );
+  }, []);
+
+  useEffect(() => {
+    if (!token) return;
+    setLoading(true);
+    setErrorMessage(null);
+    api
+      .listReviewQueue(status, token)
+      .then(({ reels }) => setReels(reels))
+      .catch(handleError)
+      .finally(() => setLoading(false));
+  }, [token, status, handleError]);
+
+  function saveToken() {
+    sessionStorage.setItem(TOKEN_STORAGE_KEY, tokenInput);
+    setToken(tokenInput);
+    setTokenInput('');
+  }
+
+  /**
+   * Sends a decision and takes the reel off the list, since it no longer has the listed status.
+   */
+  async function decide(reel: Reel, review: Omit<ReviewRequest, 'reason'>) {
+    try {
+      setBusyReelId(reel.id);
+      setErrorMessage(null);
+      let regenerationJobId: string | undefined;
+      if (review.decision === 'regenerate') {
+        const { job } = await api.getJob(reel.id);
+        ({ jobId: regenerationJobId } = await api.generateVideo(
+          toGenerateVideoRequest(job.input, true),
+          crypto.randomUUID()
+        ));
+      }
+      await api.reviewReel(
+        reel.id,
+        {
+          ...review,
+          reason: reasons[reel.id]?.trim() || undefined,
+          regenerationJobId,
+        },
+        token
+      );
+      setReels((listed) => listed.filter((other) => other.id !== reel.id));
+    } catch (error) {
+      handleError(error);
+    } finally {
+      setBusyReelId(null);
+    }
+  }
+
+  //------------------------------------VIEW------------------------------------------//
+
+  if (!token) {
+    return (
+      <div className="max-w-screen-sm mx-auto p-4">
+        <h2 className="text-xl font-bold text-gray-800">Review Queue</h2>
+        <label
+          htmlFor="admin-token"
+          className="mt-4 block text-sm font-medium text-gray-700 mb-1"
+        >
+          Admin token
+        </label>
+        <div className="flex gap-2">
+          <input
+            id="admin-token"
+            type="password"
+            value={tokenInput}
+            onChange={(e) => setTokenInput(e.target.value)}
+            className="block w-full rounded-md border border-gray-300 bg-white py-2 px-3 shadow-sm sm:text-sm"
+          />
+          <button
+            type="button"
+            disabled={!tokenInput}
+            onClick={saveToken}
+            className="bg-indigo-600 text-white font-medium py-2 px-4 rounded-md shadow-sm hover:bg-indigo-700 disabled:opacity-70 sm:text-sm"
+          >
+            Continue
+          </button>
+        </div>
+        {errorMessage && (
+          <p
+            role="alert"
+            className="mt-4 rounded-md border border-red-300 bg-red-50 p-3 text-sm text-red-700"
+          >
+            {errorMessage}
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-screen-md mx-auto p-4">
+      <h2 className="text-xl font-bold text-gray-800">Review Queue</h2>
+      <div className="mt-4 flex gap-4 text-sm">
+        {(Object.keys(STATUS_LABELS) as ReviewStatus[]).map((option) => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => setStatus(option)}
+            className={`font-medium ${
+              option === status
+                ? 'text-indigo-600 underline'
+                : 'text-gray-600 hover:underline'
+            }`}
+          >
+            {STATUS_LABELS[option]}
+          </button>
+        ))}
+      </div>
+      {errorMessage && (
+        <p
+          role="alert"
+          className="mt-4 rounded-md border border-red-300 bg-red-50 p-3 text-sm text-red-700"
+        >
+          {errorMessage}
+        </p>
+      )}
+      {loading && <p className="mt-6 text-sm text-gray-600">Loading...</p>}
+      {!loading && reels.length === 0 && (
+        <p className="mt-6 text-sm text-gray-600">
+          No {STATUS_LABELS[status].toLowerCase()} reels.
+        </p>
+      )}
+      <ul className="mt-6 space-y-4">
+        {reels.map((reel) => {
+          const busy = busyReelId === reel.id;
+          const moderation = reel.moderation;
+          return (
+            <li
+              key={reel.id}
+              className="flex gap-4 border border-gray-300 rounded-lg p-4 shadow-sm"
+            >
+              <video
+                controls
+                preload="metadata"
+                poster={reel.posterURL || undefined}
+                className="w-40 self-start rounded bg-black"
+              >
+                <source src={reel.reelURL} type="video/mp4" />
+              </video>
+              <div className="flex-1 text-sm">
+                <h3 className="font-semibold text-gray-800">{reel.title}</h3>
+                <p className="text-xs text-gray-500 capitalize">
+                  {reel.sport} · {new Date(reel.createdAt).toLocaleString()}
+                </p>
+                {moderation?.flags.length ? (
+                  <ul className="mt-2 space-y-1">
+                    {moderation.flags.map((flag, index) => (
+                      <li
+                        key={index}
+                        className="rounded border border-yellow-300 bg-yellow-50 px-2 py-1 text-xs text-yellow-800"
+                      >
+                        {flag.message}
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="mt-2 text-xs text-green-700">
+                    The pre-checks found nothing.
+                  </p>
+                )}
+                {moderation?.reason && (
+                  <p className="mt-2 text-xs text-red-600">
+                    Rejected: {moderation.reason}
+                  </p>
+                )}
+                <p className="mt-2 whitespace-pre-line text-gray-700">
+                  {reel.script}
+                </p>
+                <p className="mt-1 text-xs text-indigo-600">
+                  {reel.hashtags.join(' ')}
+                </p>
+
+                <textarea
+                  value={reasons[reel.id] || ''}
+                  placeholder="Reason (required to reject)"
+                  maxLength={500}
+                  onChange={(e) =>
+                    setReasons({ ...reasons, [reel.id]: e.target.value })
+                  }
+                  className="mt-3 block w-full rounded-md border border-gray-300 bg-white py-1 px-2 text-sm"
+                />
+                <div className="mt-2 flex flex-wrap gap-4">
+                  {status !== 'approved' && (
+                    <button
+                      type="button"
+                      disabled={busy}
+                      onClick={() => decide(reel, { decision: 'approve' })}
+                      className="font-medium text-green-700 hover:underline disabled:text-gray-400"
+                    >
+                      Approve
+                    </button>
+                  )}
+                  {status !== 'rejected' && (
+                    <button
+                      type="button"
+                      disabled={busy || !reasons[reel.id]?.trim()}
+                      onClick={() => decide(reel, { decision: 'reject' })}
+                      className="font-medium text-red-600 hover:underline disabled:text-gray-400"
+                    >
+                      Reject
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    disabled={busy}
+                    onClick={() => decide(reel, { decision: 'regenerate' })}
+                    className="font-medium text-indigo-600 hover:underline disabled:text-gray-400"
+                  >
+                    Request regeneration
+                  </button>
+                </div>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,365 @@
+// The viewer analytics dashboard: how the reels in the feed are watched.
+// The viewer enters the `ADMIN_TOKEN` once; it is kept in session storage (shared with "/admin/review") and sent with every request.
+// The report of the chosen period (7, 30 or 90 days) is fetched from "/api/analytics" through the typed API client ("src/lib/api.ts")
+// and shown as:
+// - the totals: impressions, plays, watch time, completion rate and engagement rate,
+// - a daily chart of impressions and watch time, with the completion rate of each day,
+// - a table per sport and a table per reel (most watched first), with likes, comments and shares.
+// Each table, and the daily series, can be downloaded as CSV ("/api/analytics/export").
+// Tailwind CSS is used for styling, matching the review and history pages.
+
+'use client';
+
+import { ReactNode, useCallback, useEffect, useState } from 'react';
+import type {
+  AnalyticsGroup,
+  AnalyticsReport,
+  EngagementTotals,
+  ViewMetrics,
+} from '@/lib/analytics';
+import { api, ApiError, ERROR_MESSAGES } from '@/lib/api';
+
+const TOKEN_STORAGE_KEY = 'adminToken';
+
+const PERIODS = [7, 30, 90];
+
+const GROUP_LABELS: Record<AnalyticsGroup, string> = {
+  reel: 'Per reel',
+  sport: 'Per sport',
+  day: 'Per day',
+};
+
+function formatPercent(rate: number): string {
+  return `${Math.round(rate * 1000) / 10}%`;
+}
+
+/**
+ * Formats seconds of watch time, e.g. `42s`, `5m 12s` or `3h 20m`.
+ */
+function formatWatchTime(seconds: number): string {
+  const total = Math.round(seconds);
+  if (total < 60) return `${total}s`;
+  if (total < 3600) return `${Math.floor(total / 60)}m ${total % 60}s`;
+  return `${Math.floor(total / 3600)}h ${Math.floor((total % 3600) / 60)}m`;
+}
+
+export default function Analytics() {
+  const [token, setToken] = useState<string>('');
+  const [tokenInput, setTokenInput] = useState<string>('');
+  const [days, setDays] = useState<number>(30);
+  const [report, setReport] = useState<AnalyticsReport | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    setToken(sessionStorage.getItem(TOKEN_STORAGE_KEY) || '');
+  }, []);
+
+  /**
+   * Shows the message for a failed request. A rejected token is forgotten, so the viewer is asked again.
+   */
+  const handleError = useCallback((error: unknown) => {
+    console.error('Analytics request failed:', error);
+    if (error instanceof ApiError && error.code === 'UNAUTHORIZED') {
+      sessionStorage.removeItem(TOKEN_STORAGE_KEY);
+      setToken('');
+    }
+    setErrorMessage(
+      error instanceof ApiError
+        ? `${error.userMessage} ${error.message}`
+        : ERROR_MESSAGES.INTERNAL_ERROR
+    );
+  }, []);
+
+  useEffect(() => {
+    if (!token) return;
+    setLoading(true);
+    setErrorMessage(null);
+    api
+      .getAnalytics(days, token)
+      .then(({ report }) => setReport(report))
+      .catch(handleError)
+      .finally(() => setLoading(false));
+  }, [token, days, handleError]);
+
+  function saveToken() {
+    sessionStorage.setItem(TOKEN_STORAGE_KEY, tokenInput);
+    setToken(tokenInput);
+    setTokenInput('');
+  }
+
+  /**
+   * Downloads one group of the report as a CSV file.
+   */
+  async function downloadCsv(group: AnalyticsGroup) {
+    try {
+      const blob = await api.exportAnalytics(group, days, token);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `analytics-${group}-${days}d.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      handleError(error);
+    }
+  }
+
+  //------------------------------------VIEW------------------------------------------//
+
+  if (!token) {
+    return (
+      <div className="max-w-screen-sm mx-auto p-4">
+        <h2 className="text-xl font-bold text-gray-800">Analytics</h2>
+        <label
+          htmlFor="admin-token"
+          className="mt-4 block text-sm font-medium text-gray-700 mb-1"
+        >
+          Admin token
+        </label>
+        <div className="flex gap-2">
+          <input
+            id="admin-token"
+            type="password"
+            value={tokenInput}
+            onChange={(e) => setTokenInput(e.target.value)}
+            className="block w-full rounded-md border border-gray-300 bg-white py-2 px-3 shadow-sm sm:text-sm"
+          />
+          <button
+            type="button"
+            disabled={!tokenInput}
+            onClick={saveToken}
+            className="bg-indigo-600 text-white font-medium py-2 px-4 rounded-md shadow-sm hover:bg-indigo-700 disabled:opacity-70 sm:text-sm"
+          >
+            Continue
+          </button>
+        </div>
+        {errorMessage && (
+          <p
+            role="alert"
+            className="mt-4 rounded-md border border-red-300 bg-red-50 p-3 text-sm text-red-700"
+          >
+            {errorMessage}
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  const maxImpressions = Math.max(
+    1,
+    ...(report?.daily.map((day) => day.impressions) || [])
+  );
+  const maxWatchSeconds = Math.max(
+    1,
+    ...(report?.daily.map((day) => day.watchSeconds) || [])
+  );
+
+  return (
+    <div className="max-w-screen-lg mx-auto p-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h2 className="text-xl font-bold text-gray-800">Analytics</h2>
+        <div className="flex gap-4 text-sm">
+          {PERIODS.map((period) => (
+            <button
+              key={period}
+              type="button"
+              onClick={() => setDays(period)}
+              className={`font-medium ${
+                period === days
+                  ? 'text-indigo-600 underline'
+                  : 'text-gray-600 hover:underline'
+              }`}
+            >
+              Last {period} days
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="mt-2 flex flex-wrap gap-4 text-sm">
+        {(Object.keys(GROUP_LABELS) as AnalyticsGroup[]).map((group) => (
+          <button
+            key={group}
+            type="button"
+            onClick={() => downloadCsv(group)}
+            className="font-medium text-indigo-600 hover:underline"
+          >
+            Download CSV ({GROUP_LABELS[group].toLowerCase()})
+          </button>
+        ))}
+      </div>
+      {errorMessage && (
+        <p
+          role="alert"
+          className="mt-4 rounded-md border border-red-300 bg-red-50 p-3 text-sm text-red-700"
+        >
+          {errorMessage}
+        </p>
+      )}
+      {loading && <p className="mt-6 text-sm text-gray-600">Loading...</p>}
+
+      {report && (
+        <>
+          <p className="mt-4 text-xs text-gray-500">
+            {report.from} to {report.to} (UTC). Likes, comments and shares are
+            all-time totals.
+          </p>
+
+          {/* Totals */}
+          <dl className="mt-4 grid grid-cols-2 gap-4 sm:grid-cols-5">
+            {[
+              ['Impressions', report.totals.impressions.toLocaleString()],
+              ['Plays', report.totals.plays.toLocaleString()],
+              ['Watch time', formatWatchTime(report.totals.watchSeconds)],
+              ['Completion rate', formatPercent(report.totals.completionRate)],
+              ['Engagement rate', formatPercent(report.totals.engagementRate)],
+            ].map(([label, value]) => (
+              <div
+                key={label}
+                className="border border-gray-300 rounded-lg p-3 shadow-sm"
+              >
+                <dt className="text-xs text-gray-500">{label}</dt>
+                <dd className="text-lg font-semibold text-gray-800">{value}</dd>
+              </div>
+            ))}
+          </dl>
+
+          {/* Daily chart */}
+          <h3 className="mt-8 font-semibold text-gray-800">Over time</h3>
+          <p className="text-xs text-gray-500">
+            <span className="inline-block w-2 h-2 bg-indigo-500" /> Impressions{' '}
+            <span className="ml-2 inline-block w-2 h-2 bg-emerald-500" /> Watch
+            time
+          </p>
+          <div className="mt-2 flex h-40 items-end gap-px border-b border-gray-300">
+            {report.daily.map((day) => (
+              <div
+                key={day.date}
+                title={`${day.date}: ${day.impressions} impressions, ${formatWatchTime(
+                  day.watchSeconds
+                )} watched, ${formatPercent(day.completionRate)} completed`}
+                className="flex h-full flex-1 items-end gap-px"
+              >
+                <div
+                  className="flex-1 bg-indigo-500"
+                  style={{
+                    height: `${(day.impressions / maxImpressions) * 100}%`,
+                  }}
+                />
+                <div
+                  className="flex-1 bg-emerald-500"
+                  style={{
+                    height: `${(day.watchSeconds / maxWatchSeconds) * 100}%`,
+                  }}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-between text-xs text-gray-500">
+            <span>{report.from}</span>
+            <span>{report.to}</span>
+          </div>
+
+          {/* Per sport */}
+          <h3 className="mt-8 font-semibold text-gray-800">Per sport</h3>
+          <MetricsTable
+            rows={report.sports.map((sport) => ({
+              key: sport.sport,
+              label: (
+                <span className="capitalize">
+                  {sport.sport} ({sport.reels})
+                </span>
+              ),
+              metrics: sport,
+            }))}
+          />
+
+          {/* Per reel */}
+          <h3 className="mt-8 font-semibold text-gray-800">Per reel</h3>
+          <MetricsTable
+            rows={report.reels.map((reel) => ({
+              key: reel.reelId,
+              label: (
+                <a
+                  href={`/reel/${reel.reelId}`}
+                  className="text-indigo-600 hover:underline"
+                >
+                  {reel.title || reel.reelId}
+                  <span className="block text-xs text-gray-500 capitalize">
+                    {reel.sport}
+                  </span>
+                </a>
+              ),
+              metrics: reel,
+            }))}
+          />
+        </>
+      )}
+    </div>
+  );
+}
+
+interface MetricsRow {
+  key: string;
+  label: ReactNode;
+  metrics: ViewMetrics & EngagementTotals;
+}
+
+/**
+ * A table of the view and engagement metrics of reels or sports.
+ */
+function MetricsTable({ rows }: { rows: MetricsRow[] }) {
+  if (rows.length === 0) {
+    return <p className="mt-2 text-sm text-gray-600">No reels yet.</p>;
+  }
+  return (
+    <div className="mt-2 overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-gray-300 text-left text-xs text-gray-500">
+            <th className="py-2 pr-4 font-medium"></th>
+            <th className="py-2 pr-4 font-medium">Impressions</th>
+            <th className="py-2 pr-4 font-medium">Plays</th>
+            <th className="py-2 pr-4 font-medium">Watch time</th>
+            <th className="py-2 pr-4 font-medium">Avg. per play</th>
+            <th className="py-2 pr-4 font-medium">Reached 50%</th>
+            <th className="py-2 pr-4 font-medium">Completion</th>
+            <th className="py-2 pr-4 font-medium">Unmutes</th>
+            <th className="py-2 pr-4 font-medium">Likes</th>
+            <th className="py-2 pr-4 font-medium">Comments</th>
+            <th className="py-2 pr-4 font-medium">Shares</th>
+            <th className="py-2 font-medium">Engagement</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ key, label, metrics }) => (
+            <tr key={key} className="border-b border-gray-200 text-gray-700">
+              <td className="py-2 pr-4">{label}</td>
+              <td className="py-2 pr-4">{metrics.impressions}</td>
+              <td className="py-2 pr-4">{metrics.plays}</td>
+              <td className="py-2 pr-4">
+                {formatWatchTime(metrics.watchSeconds)}
+              </td>
+              <td className="py-2 pr-4">
+                {formatWatchTime(metrics.averageWatchSeconds)}
+              </td>
+              <td className="py-2 pr-4">
+                {formatPercent(
+                  metrics.plays > 0 ? metrics.reached50 / metrics.plays : 0
+                )}
+              </td>
+              <td className="py-2 pr-4">
+                {formatPercent(metrics.completionRate)}
+              </td>
+              <td className="py-2 pr-4">{metrics.unmutes}</td>
+              <td className="py-2 pr-4">{metrics.likes}</td>
+              <td className="py-2 pr-4">{metrics.comments}</td>
+              <td className="py-2 pr-4">{metrics.shares}</td>
+              <td className="py-2">{formatPercent(metrics.engagementRate)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+// This is a Next.js API route that records a reviewer's decision on a reel of the moderation queue.
+// The body is `{ decision, reason?, regenerationJobId? }`:
+// - `approve` publishes the reel: it is served by `GET /api/get-reels` and its page from then on.
+// - `reject` keeps it out of the feed; `reason` (required, up to 500 characters) records why.
+// - `regenerate` rejects it in favour of a new generation from the same inputs: the reviewer page starts the job
+//   through `POST /api/generate-video` first and passes its id as `regenerationJobId`. The new reel enters the queue itself.
+// A reviewed reel can be reviewed again, e.g. to approve a reel rejected by mistake.
+// It requires an `Authorization: Bearer <ADMIN_TOKEN>` header; without `ADMIN_TOKEN` the route is disabled (503 status).
+// On success it returns the updated reel. A missing or wrong token returns a 401 status, an invalid body a 400 status,
+// and an unknown reel (or regeneration job) a 404 status.
+
+import { getConfig } from '@/lib/config';
+import { getJob } from '@/lib/jobs';
+import { getReelForReview, reviewReel, withFreshUrls } from '@/lib/reels';
+import type { ReviewResponse } from '@/lib/api';
+import {
+  checkBearerToken,
+  jsonError,
+  jsonSuccess,
+  jsonUnexpectedError,
+} from '@/lib/apiResponse';
+
+const MAX_REASON_LENGTH = 500;
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const unauthorized = checkBearerToken(
+      request,
+      getConfig().adminToken,
+      'ADMIN_TOKEN'
+    );
+    if (unauthorized) {
+      return unauthorized;
+    }
+
+    const { id } = await params;
+    const body: unknown = await request.json().catch(() => null);
+    const fields: Record<string, unknown> =
+      body && typeof body === 'object' ? { ...body } : {};
+    const { decision, regenerationJobId } = fields;
+    const reason =
+      typeof fields.reason === 'string' ? fields.reason.trim() : undefined;
+
+    if (
+      decision !== 'approve' &&
+      decision !== 'reject' &&
+      decision !== 'regenerate'
+    ) {
+      return badRequest('decision must be approve, reject or regenerate');
+    }
+    if (reason && reason.length > MAX_REASON_LENGTH) {
+      return badRequest(
+        `reason must be at most ${MAX_REASON_LENGTH} characters`
+      );
+    }
+    if (decision === 'reject' && !reason) {
+      return badRequest('reason is required to reject a reel');
+    }
+
+    if (!(await getReelForReview(id))) {
+      return jsonError('NOT_FOUND', 'Reel not found', 404);
+    }
+
+    let reel;
+    if (decision === 'approve') {
+      reel = await reviewReel(id, { status: 'approved' });
+    } else if (decision === 'reject') {
+      reel = await reviewReel(id, { status: 'rejected', reason });
+    } else {
+      if (
+        typeof regenerationJobId !== 'string' ||
+        !(await getJob(regenerationJobId))
+      ) {
+        return jsonError('NOT_FOUND', 'Regeneration job not found', 404);
+      }
+      reel = await reviewReel(id, {
+        status: 'rejected',
+        reason: reason || 'Regeneration requested.',
+        regenerationJobId,
+      });
+    }
+
+    if (!reel) {
+      return jsonError('NOT_FOUND', 'Reel not found', 404);
+    }
+    return jsonSuccess<ReviewResponse>({ reel: await withFreshUrls(reel) });
+  } catch (error) {
+    return jsonUnexpectedError(error);
+  }
+}
+
+function badRequest(error: string) {
+  return jsonError('INVALID_REQUEST', error, 400);
+}
@@ -0,0 +1,51 @@
+// This is a Next.js API route that lists the moderation queue for `/admin/review`: the reels with the review status
+// given as `?status=` (`pending` by default, or `approved` or `rejected`), newest first, with the flags raised by the
+// automated pre-checks (see `src/lib/moderation.ts`).
+// It requires an `Authorization: Bearer <ADMIN_TOKEN>` header; without `ADMIN_TOKEN` the route is disabled (503 status).
+// A missing or wrong token returns a 401 status and an invalid status a 400 status.
+
+import { getConfig } from '@/lib/config';
+import {
+  listReelsForReview,
+  REVIEW_STATUSES,
+  ReviewStatus,
+  withFreshUrls,
+} from '@/lib/reels';
+import type { ReviewQueueResponse } from '@/lib/api';
+import {
+  checkBearerToken,
+  jsonError,
+  jsonSuccess,
+  jsonUnexpectedError,
+} from '@/lib/apiResponse';
+
+export async function GET(request: Request) {
+  try {
+    const unauthorized = checkBearerToken(
+      request,
+      getConfig().adminToken,
+      'ADMIN_TOKEN'
+    );
+    if (unauthorized) {
+      return unauthorized;
+    }
+
+    const status = (new URL(request.url).searchParams.get('status') ||
+      'pending') as ReviewStatus;
+    if (!REVIEW_STATUSES.includes(status)) {
+      return jsonError(
+        'INVALID_REQUEST',
+        `status must be one of ${REVIEW_STATUSES.join(', ')}`,
+        400
+      );
+    }
+
+    const reels = await Promise.all(
+      (await listReelsForReview(status)).map(withFreshUrls)
+    );
+
+    return jsonSuccess<ReviewQueueResponse>({ reels });
+  } catch (error) {
+    return jsonUnexpectedError(error);
+  }
+}
@@ -0,0 +1,28 @@
+// This is a Next.js API route that ingests the view events the feed sends in batches:
+// impressions, plays, pauses, unmutes, progress milestones (25, 50 and 75%), completions and loops,
+// each with the seconds the reel played since its previous event (see `src/lib/viewEvents.ts`).
+// The events are added to the per-reel daily counters of the local store (see `src/lib/analytics.ts`).
+// The body is `{ "events": [...] }` with at most 100 events.
+// Events of reels that are not in the catalog (or not approved) are dropped.
+// On success it returns a 202 status with the number of recorded events.
+// An invalid batch returns a 400 status.
+
+import { parseViewEvents, recordViewEvents } from '@/lib/analytics';
+import type { ViewEventsResponse } from '@/lib/api';
+import { jsonError, jsonSuccess, jsonUnexpectedError } from '@/lib/apiResponse';
+
+export async function POST(request: Request) {
+  try {
+    const body: unknown = await request.json().catch(() => null);
+    const events = parseViewEvents(body);
+    if ('error' in events) {
+      return jsonError('INVALID_REQUEST', events.error, 400);
+    }
+
+    const recorded = await recordViewEvents(events);
+
+    return jsonSuccess<ViewEventsResponse>({ recorded }, 202);
+  } catch (error) {
+    return jsonUnexpectedError(error);
+  }
+}
@@ -0,0 +1,58 @@
+// This is a Next.js API route that exports one group of the viewer analytics report as a CSV download:
+// `?group=reel` (the default), `sport` or `day`, over the last `?days=` days (30 by default, at most 365).
+// The columns are the fields of the report rows (see `src/lib/analytics.ts`), with rates as fractions between 0 and 1.
+// It requires an `Authorization: Bearer <ADMIN_TOKEN>` header; without `ADMIN_TOKEN` the route is disabled (503 status).
+// A missing or wrong token returns a 401 status and an invalid group or `days` a 400 status.
+
+import { NextResponse } from 'next/server';
+import { getConfig } from '@/lib/config';
+import {
+  ANALYTICS_GROUPS,
+  AnalyticsGroup,
+  getAnalyticsReport,
+  parseReportDays,
+  toAnalyticsCsv,
+} from '@/lib/analytics';
+import {
+  checkBearerToken,
+  jsonError,
+  jsonUnexpectedError,
+} from '@/lib/apiResponse';
+
+export async function GET(request: Request) {
+  try {
+    const unauthorized = checkBearerToken(
+      request,
+      getConfig().adminToken,
+      'ADMIN_TOKEN'
+    );
+    if (unauthorized) {
+      return unauthorized;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const group = (searchParams.get('group') || 'reel') as AnalyticsGroup;
+    if (!ANALYTICS_GROUPS.includes(group)) {
+      return jsonError(
+        'INVALID_REQUEST',
+        `group must be one of ${ANALYTICS_GROUPS.join(', ')}`,
+        400
+      );
+    }
+    const days = parseReportDays(searchParams.get('days'));
+    if (typeof days !== 'number') {
+      return jsonError('INVALID_REQUEST', days.error, 400);
+    }
+
+    const report = await getAnalyticsReport(days);
+
+    return new NextResponse(toAnalyticsCsv(report, group), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="analytics-${group}-${report.from}-${report.to}.csv"`,
+      },
+    });
+  } catch (error) {
+    return jsonUnexpectedError(error);
+  }
+}
@@ -0,0 +1,39 @@
+// This is a Next.js API route that returns the viewer analytics report shown on `/analytics`:
+// impressions, plays, watch time, completion rate and engagement of the last `?days=` days (30 by default, at most 365),
+// per reel, per sport and per day, with the totals (see `src/lib/analytics.ts`).
+// It requires an `Authorization: Bearer <ADMIN_TOKEN>` header; without `ADMIN_TOKEN` the route is disabled (503 status).
+// A missing or wrong token returns a 401 status and an invalid `days` a 400 status.
+
+import { getConfig } from '@/lib/config';
+import { getAnalyticsReport, parseReportDays } from '@/lib/analytics';
+import type { AnalyticsResponse } from '@/lib/api';
+import {
+  checkBearerToken,
+  jsonError,
+  jsonSuccess,
+  jsonUnexpectedError,
+} from '@/lib/apiResponse';
+
+export async function GET(request: Request) {
+  try {
+    const unauthorized = checkBearerToken(
+      request,
+      getConfig().adminToken,
+      'ADMIN_TOKEN'
+    );
+    if (unauthorized) {
+      return unauthorized;
+    }
+
+    const days = parseReportDays(new URL(request.url).searchParams.get('days'));
+    if (typeof days !== 'number') {
+      return jsonError('INVALID_REQUEST', days.error, 400);
+    }
+
+    const report = await getAnalyticsReport(days);
+
+    return jsonSuccess<AnalyticsResponse>({ report });
+  } catch (error) {
+    return jsonUnexpectedError(error);
+  }
+}
@@ -0,0 +1,134 @@
+// This is a Next.js API route that serves assets written by the local disk storage provider.
+// Only files inside the `temp` and `reel` directories of the local assets folder can be read.
+// When signed URLs are enabled, the `expires` and `signature` query parameters must be valid.
+// A `Range: bytes=start-end` header (a single range, as browsers send to seek in audio and video) gets a 206 status
+// with that part of the file; a range outside the file gets a 416 status. Other requests get the whole file.
+// If the file does not exist, it returns a 404 status.
+
+import { NextResponse } from 'next/server';
+import fs from 'fs/promises';
+import path from 'path';
+import { localAssetsDir } from '@/lib/providers/localDiskStorage';
+import {
+  signedUrlsEnabled,
+  verifyLocalAsset,
+} from '@/lib/providers/signedUrls';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.txt': 'text/plain; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.mp3': 'audio/mpeg',
+  '.mp4': 'video/mp4',
+  '.jpg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.m3u8': 'application/vnd.apple.mpegurl',
+  '.ts': 'video/mp2t',
+  '.vtt': 'text/vtt; charset=utf-8',
+  '.srt': 'application/x-subrip; charset=utf-8',
+};
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ path: string[] }> }
+) {
+  const segments = (await params).path;
+  const [directory] = segments;
+  const filePath = path.resolve(localAssetsDir(), ...segments);
+
+  if (
+    !['temp', 'reel'].includes(directory) ||
+    !filePath.startsWith(path.resolve(localAssetsDir()) + path.sep)
+  ) {
+    return new NextResponse('Not found', { status: 404 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  if (
+    signedUrlsEnabled() &&
+    !verifyLocalAsset(
+      segments.join('/'),
+      searchParams.get('expires'),
+      searchParams.get('signature')
+    )
+  ) {
+    return new NextResponse('Forbidden', { status: 403 });
+  }
+
+  try {
+    const { size } = await fs.stat(filePath);
+    const headers = {
+      'Content-Type':
+        CONTENT_TYPES[path.extname(filePath)] || 'application/octet-stream',
+      'Accept-Ranges': 'bytes',
+    };
+
+    const range = parseRange(request.headers.get('Range'), size);
+    if (range === 'unsatisfiable') {
+      return new NextResponse('Range not satisfiable', {
+        status: 416,
+        headers: { ...headers, 'Content-Range': `bytes */${size}` },
+      });
+    }
+    if (!range) {
+      return new NextResponse(await fs.readFile(filePath), {
+        headers: { ...headers, 'Content-Length': String(size) },
+      });
+    }
+
+    const length = range.end - range.start + 1;
+    const content = Buffer.alloc(length);
+    const file = await fs.open(filePath, 'r');
+    try {
+      await file.read(content, 0, length, range.start);
+    } finally {
+      await file.close();
+    }
+    return new NextResponse(content, {
+      status: 206,
+      headers: {
+        ...headers,
+        'Content-Length': String(length),
+        'Content-Range': `bytes ${range.start}-${range.end}/${size}`,
+      },
+    });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return new NextResponse('Not found', { status: 404 });
+    }
+    console.error('Error in API:', error);
+    return new NextResponse('Internal server error', { status: 500 });
+  }
+}
+
+/**
+ * Parses a `Range` header for a file of `size` bytes.
+ * @returns The first and last byte to send, null to send the whole file (no header, or one this route
+ * does not handle or that is invalid, such as several ranges), or `unsatisfiable` when the range starts past
+ * the end of the file.
+ */
+function parseRange(
+  header: string | null,
+  size: number
+): { start: number; end: number } | 'unsatisfiable' | null {
+  const match = header?.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) {
+    return null;
+  }
+  let start: number;
+  let end: number;
+  if (!match[1]) {
+    // The last N bytes.
+    start = Math.max(0, size - Number(match[2]));
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    if (match[2] && Number(match[2]) < start) {
+      return null;
+    }
+    end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  }
+  if (start >= size) {
+    return 'unsatisfiable';
+  }
+  return { start, end };
+}
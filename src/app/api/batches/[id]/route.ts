@@ -0,0 +1,28 @@
+// This is a Next.js API route that reports a batch created by `POST /api/batches`:
+// for every row of its manifest, the status of its job (queued, running, succeeded, failed or cancelled),
+// `invalid` for rows that were rejected or `deleted` when the job has since been deleted, with the reel URL
+// of a succeeded job and the reason and error code of a failure (see `src/lib/batches.ts`).
+// `finished` tells whether every job has finished, and `counts` how many rows have each status.
+// If the batch does not exist, it returns a 404 status.
+
+import { getBatch, getBatchReport } from '@/lib/batches';
+import type { BatchResponse } from '@/lib/api';
+import { jsonError, jsonSuccess, jsonUnexpectedError } from '@/lib/apiResponse';
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const batch = await getBatch(id);
+
+    if (!batch) {
+      return jsonError('NOT_FOUND', 'Batch not found', 404);
+    }
+
+    return jsonSuccess<BatchResponse>({ batch: await getBatchReport(batch) });
+  } catch (error) {
+    return jsonUnexpectedError(error);
+  }
+}
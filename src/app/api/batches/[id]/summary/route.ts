@@ -0,0 +1,34 @@
+// This is a Next.js API route that downloads the summary of a batch created by `POST /api/batches` as CSV:
+// one line per row of its manifest with its sport, image and prompt, its status, job id, whether an existing job
+// was reused, the URL of the finished reel, and the error code and reason of a rejected or failed row.
+// The summary reflects the batch when it is downloaded, so rows that are still running show as such.
+// If the batch does not exist, it returns a 404 status.
+
+import { NextResponse } from 'next/server';
+import { getBatch, getBatchReport, toBatchSummaryCsv } from '@/lib/batches';
+import { jsonError, jsonUnexpectedError } from '@/lib/apiResponse';
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const batch = await getBatch(id);
+
+    if (!batch) {
+      return jsonError('NOT_FOUND', 'Batch not found', 404);
+    }
+
+    const report = await getBatchReport(batch);
+
+    return new NextResponse(toBatchSummaryCsv(report), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="batch-${batch.id}.csv"`,
+      },
+    });
+  } catch (error) {
+    return jsonUnexpectedError(error);
+  }
+}
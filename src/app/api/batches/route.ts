@@ -0,0 +1,65 @@
+// This is a Next.js API route that generates a batch of reels from a manifest (see `src/lib/manifest.ts`):
+// one reel per row, each from its sport, image, prompt and voice settings.
+// The body is either JSON, `{ "rows": [...] }`, or a CSV manifest sent with a `Content-Type: text/csv` header.
+// A manifest that cannot be read, has unknown columns or more than 50 rows returns a 400 status.
+// Each row is then validated like a `POST /api/generate-video` request; a valid row becomes a generation job
+// (or reuses an identical one), an invalid row is kept in the batch with its error (see `src/lib/batches.ts`).
+// The jobs run after the response is sent, at most `?concurrency=` at a time (1 to 4, 2 by default).
+// It returns a 202 status with the batch and the status of every row, which `GET /api/batches/[id]` keeps reporting.
+// Every job of the batch runs inside this function's invocation, so on a serverless platform the whole batch has to
+// finish within `maxDuration`; jobs still waiting when it is reached are failed as orphaned (see `src/lib/jobs.ts`).
+
+import { after } from 'next/server';
+import {
+  createBatch,
+  getBatchReport,
+  parseConcurrency,
+  runBatch,
+} from '@/lib/batches';
+import { parseManifest, parseManifestRows } from '@/lib/manifest';
+import type { BatchResponse } from '@/lib/api';
+import { jsonError, jsonSuccess, jsonUnexpectedError } from '@/lib/apiResponse';
+
+// The longest a batch can run for, in seconds (the most Vercel allows with fluid compute).
+export const maxDuration = 800;
+
+export async function POST(request: Request) {
+  try {
+    const concurrency = parseConcurrency(
+      new URL(request.url).searchParams.get('concurrency')
+    );
+    if (typeof concurrency !== 'number') {
+      return badRequest(concurrency.error);
+    }
+
+    let rows;
+    if (request.headers.get('Content-Type')?.startsWith('text/csv')) {
+      rows = parseManifest(await request.text(), 'csv');
+    } else {
+      const body: unknown = await request.json().catch(() => null);
+      rows = parseManifestRows(
+        body && typeof body === 'object' && 'rows' in body
+          ? body.rows
+          : undefined
+      );
+    }
+    if ('error' in rows) {
+      return badRequest(rows.error);
+    }
+
+    const batch = await createBatch(rows, concurrency);
+    // Generate the reels after the response is sent; progress is reported through GET /api/batches/[id].
+    after(() => runBatch(batch));
+
+    return jsonSuccess<BatchResponse>(
+      { batch: await getBatchReport(batch) },
+      202
+    );
+  } catch (error) {
+    return jsonUnexpectedError(error);
+  }
+}
+
+function badRequest(error: string) {
+  return jsonError('INVALID_REQUEST', error, 400);
+}
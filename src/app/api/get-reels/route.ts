@@ -1,34 +1,63 @@
-// This is a Next.js API route that handles GET requests to fetch a hardcoded list of video URLs.
-// The videos are currently hardcoded due to the unavailability of Google Bucket Billing.
-// On a successful request, it returns a JSON response with the video URLs and a success status.
-// If an error occurs, it logs the error and returns a 500 status with the error details.
+// This is a Next.js API route that handles GET requests to fetch a page of the reel catalog.
+// Reels are added to the catalog when a generation job finishes and are returned newest first, once a reviewer has
+// approved them on `/admin/review` (pending and rejected reels are left out, see `src/lib/reels.ts`).
+// Pagination is cursor based: pass the `nextCursor` of the previous response as `?cursor=` to get the next page,
+// and optionally `?limit=` to change the page size. `nextCursor` is null on the last page.
+// `?start=<reel id>` makes the first page start at that reel instead of the newest one (used by `/reel/[id]`).
+// Besides the MP4 (`reelURL`), a reel links its poster (`posterURL`), a short animated preview (`previewURL`) and
+// the master playlist of its HLS renditions (`hlsURL`) for adaptive playback; reels that predate HLS packaging lack the last two.
+// The URLs are made when the page is served, so signed URLs are always fresh. The names of the stored files and the
+// review of a reel are left out.
+// Each reel carries its `engagement` (like, comment and share counts); pass the feed's anonymous `?viewerId=`
+// to also learn whether the viewer likes it.
+// On a successful request, it returns a JSON response with the reels, the next cursor and a success status.
+// An invalid cursor or limit returns a 400 status; any other error is logged and returns a 500 status.
 
-import { NextResponse } from 'next/server';
+import {
+  DEFAULT_PAGE_SIZE,
+  InvalidCursorError,
+  MAX_PAGE_SIZE,
+  listReels,
+  toPublicReel,
+} from '@/lib/reels';
+import { getEngagementCounts, parseViewerId } from '@/lib/engagement';
+import type { GetReelsResponse } from '@/lib/api';
+import { jsonError, jsonSuccess, jsonUnexpectedError } from '@/lib/apiResponse';
 
 export async function GET(request: Request) {
   try {
-    // Hardcoded list of videos for now because the Google Bucket Billing is not enabled
-    let videos = [
-      'https://drive.google.com/file/d/1q4QGLNS5ePGftlicFkkbh7durgu7Kkkp/view?usp=drive_link',
-      'https://drive.google.com/file/d/1xL9Ys18socJT4BnORj2e2CmB9lcFv2t1/view?usp=drive_link',
-      'https://drive.google.com/file/d/1CrfdqY9yzSpippTf99Sqzzbotbo7qJvz/view?usp=drive_link',
-      'https://drive.google.com/file/d/1q_j0zx2sR47-jph-T9gxClOBArX-aa1n/view?usp=drive_link',
-    ];
+    const { searchParams } = new URL(request.url);
+    const cursor = searchParams.get('cursor');
+    const start = searchParams.get('start');
+    const limit = Number(searchParams.get('limit') || DEFAULT_PAGE_SIZE);
 
-    return NextResponse.json({
-      status: 200,
-      data: {
-        success: true,
-        videos: videos,
-      },
-      errors: {},
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return jsonError(
+        'INVALID_REQUEST',
+        `limit must be between 1 and ${MAX_PAGE_SIZE}`,
+        400
+      );
+    }
+
+    const { reels, nextCursor } = await listReels(cursor, limit, start);
+    const engagement = await getEngagementCounts(
+      reels.map((reel) => reel.id),
+      parseViewerId(searchParams.get('viewerId'))
+    );
+
+    return jsonSuccess<GetReelsResponse>({
+      reels: await Promise.all(
+        reels.map(async (reel) => ({
+          ...(await toPublicReel(reel)),
+          engagement: engagement[reel.id],
+        }))
+      ),
+      nextCursor,
     });
   } catch (error) {
-    console.error('Error in API:', error);
-    return NextResponse.json({
-      status: 500,
-      data: {},
-      errors: { error: error },
-    });
+    if (error instanceof InvalidCursorError) {
+      return jsonError('INVALID_REQUEST', error.message, 400);
+    }
+    return jsonUnexpectedError(error);
   }
 }
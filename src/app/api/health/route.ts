@@ -0,0 +1,98 @@
+// This is a Next.js API route that reports whether the server is configured and its providers are reachable.
+// The configuration is validated first (see `src/lib/config.ts`); when it is invalid, the problems are listed
+// and no provider is checked. Otherwise each selected provider (script, voice, video, storage) runs its own
+// reachability check, which does no paid work, under a 5 second timeout. With `PROVIDERS=offline` the stubs and the
+// local disk store are checked instead, so the route works without any API keys.
+// It returns a 200 status when every provider is reachable and a 503 status otherwise.
+
+import { NextResponse } from 'next/server';
+import { CALL_POLICIES, withCallPolicy } from '@/lib/callPolicy';
+import { ConfigError, getConfig } from '@/lib/config';
+import { getProviders } from '@/lib/providers';
+import { jsonUnexpectedError } from '@/lib/apiResponse';
+
+// Health is checked live on every request, never served from a cache.
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    let config;
+    try {
+      config = getConfig();
+    } catch (error) {
+      if (!(error instanceof ConfigError)) {
+        throw error;
+      }
+      return NextResponse.json(
+        {
+          status: 503,
+          data: { healthy: false, configured: false },
+          errors: {
+            error: error.message,
+            code: 'SERVICE_UNAVAILABLE',
+            problems: error.problems,
+          },
+        },
+        { status: 503 }
+      );
+    }
+
+    const providers = getProviders();
+    const checks = await Promise.all(
+      (['script', 'voice', 'video', 'storage'] as const).map(async (stage) => {
+        const provider = providers[stage];
+        const startedAt = Date.now();
+        try {
+          await withCallPolicy(
+            (signal) => provider.checkHealth(signal),
+            CALL_POLICIES.health,
+            { label: `${provider.name} health check` }
+          );
+          return [
+            stage,
+            {
+              name: provider.name,
+              reachable: true,
+              latencyMs: Date.now() - startedAt,
+            },
+          ] as const;
+        } catch (error) {
+          console.error(`${provider.name} health check failed:`, error);
+          return [
+            stage,
+            {
+              name: provider.name,
+              reachable: false,
+              latencyMs: Date.now() - startedAt,
+              error: error instanceof Error ? error.message : String(error),
+            },
+          ] as const;
+        }
+      })
+    );
+    const healthy = checks.every(([, check]) => check.reachable);
+
+    return NextResponse.json(
+      {
+        status: healthy ? 200 : 503,
+        data: {
+          healthy,
+          configured: true,
+          offline: Object.values(config.providers).every(
+            (name) => name === 'stub' || name === 'local'
+          ),
+          providers: Object.fromEntries(checks),
+        },
+        errors: healthy
+          ? {}
+          : {
+              error: 'Some providers are unreachable',
+              code: 'SERVICE_UNAVAILABLE',
+            },
+      },
+      { status: healthy ? 200 : 503 }
+    );
+  } catch (error) {
+    return jsonUnexpectedError(error);
+  }
+}
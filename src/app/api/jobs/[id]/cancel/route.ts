@@ -0,0 +1,31 @@
+// This is a Next.js API route that cancels a generation job created by `POST /api/generate-video`.
+// The job and its pending stages are marked cancelled and the in-flight provider calls are aborted;
+// stages that already finished keep their assets, and no reel is added to the catalog.
+// On success it returns the updated job. If the job does not exist, it returns a 404 status,
+// and if it has already finished, a 409 status.
+
+import { cancelJob, getJob } from '@/lib/jobs';
+import type { JobResponse } from '@/lib/api';
+import { jsonError, jsonSuccess, jsonUnexpectedError } from '@/lib/apiResponse';
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const job = await getJob(id);
+
+    if (!job) {
+      return jsonError('NOT_FOUND', 'Job not found', 404);
+    }
+
+    if (job.status !== 'queued' && job.status !== 'running') {
+      return jsonError('CONFLICT', `The job is already ${job.status}`, 409);
+    }
+
+    return jsonSuccess<JobResponse>({ job: (await cancelJob(id))! });
+  } catch (error) {
+    return jsonUnexpectedError(error);
+  }
+}
@@ -0,0 +1,127 @@
+// This is a Next.js API route that streams the progress of a generation job as Server-Sent Events.
+// The stream starts with a `job` event carrying the whole job, then sends a `stage` event every time a stage
+// starts, reports progress (the RunwayML progress of the video clips), stores its asset (with its URL) or finishes,
+// and a `job` event every time the job status changes. It ends once the job has succeeded, failed or been cancelled.
+// See `JobEvent` in `src/lib/api.ts` for the event payloads.
+// Changes made by the pipeline in this process are pushed straight away (`watchJob`); the job store is also
+// re-read every few seconds, so a job running in another process is followed too. A copy read from the store that is
+// not newer than the last state sent (see `isNewerJob`) is dropped, and the stream ends with a `deleted` event when
+// the job is no longer in the store.
+// Once the job has produced a reel, its asset URLs are only sent when the reel has been approved.
+// If the job does not exist, it returns a 404 status.
+
+import {
+  getJob,
+  getJobEvents,
+  isJobFinished,
+  isNewerJob,
+  Job,
+  watchJob,
+} from '@/lib/jobs';
+import type { JobEvent } from '@/lib/api';
+import { withoutUnpublishedAssets } from '@/lib/reels';
+import { jsonError, jsonUnexpectedError } from '@/lib/apiResponse';
+
+export const dynamic = 'force-dynamic';
+
+const STORE_POLL_INTERVAL_MS = 3000;
+// A comment line keeps proxies from closing a stream that has been quiet for a while.
+const KEEP_ALIVE_INTERVAL_MS = 15_000;
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const job = await getJob(id);
+
+    if (!job) {
+      return jsonError('NOT_FOUND', 'Job not found', 404);
+    }
+
+    const encoder = new TextEncoder();
+    let stop = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        let lastSeen: Job | null = null;
+        let closed = false;
+
+        const send = (event: JobEvent) =>
+          controller.enqueue(
+            encoder.encode(
+              `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`
+            )
+          );
+
+        const publish = (current: Job | null) => {
+          if (closed) return;
+          if (!current) {
+            send({ type: 'deleted' });
+            stop();
+            controller.close();
+            return;
+          }
+          // The store can return a state older than a change `watchJob` already pushed.
+          if (lastSeen && !isNewerJob(current, lastSeen)) return;
+          getJobEvents(lastSeen, current).forEach(send);
+          lastSeen = current;
+          if (isJobFinished(current)) {
+            stop();
+            controller.close();
+          }
+        };
+
+        // Changes are sent in the order they arrive, once their unpublished assets are left out.
+        let sending = Promise.resolve();
+        const receive = (current: Job | null) => {
+          sending = sending
+            .then(async () => {
+              publish(
+                current && (await withoutUnpublishedAssets([current]))[0]
+              );
+            })
+            .catch((error) =>
+              console.error(`Failed to stream job ${id}:`, error)
+            );
+        };
+
+        const unwatch = watchJob(id, receive);
+        const storePoll = setInterval(() => {
+          getJob(id)
+            .then(receive)
+            .catch((error) =>
+              console.error(`Failed to read job ${id} for its stream:`, error)
+            );
+        }, STORE_POLL_INTERVAL_MS);
+        const keepAlive = setInterval(() => {
+          if (!closed) controller.enqueue(encoder.encode(': keep-alive\n\n'));
+        }, KEEP_ALIVE_INTERVAL_MS);
+
+        stop = () => {
+          closed = true;
+          unwatch();
+          clearInterval(storePoll);
+          clearInterval(keepAlive);
+        };
+        request.signal.addEventListener('abort', () => stop());
+
+        receive(job);
+      },
+      cancel() {
+        stop();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+      },
+    });
+  } catch (error) {
+    return jsonUnexpectedError(error);
+  }
+}
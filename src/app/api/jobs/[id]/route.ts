@@ -0,0 +1,99 @@
+// This is a Next.js API route for a generation job created by `POST /api/generate-video`.
+// GET reports the state of the job: the overall job status (queued, running, succeeded, failed or cancelled) and, for each stage,
+// its status, the URL of the asset it produced and, if it failed, the reason and its error code (see `src/lib/api.ts`).
+// Once the job has produced a reel, the asset URLs are only included when the reel has been approved.
+// DELETE requires an `Authorization: Bearer <ADMIN_TOKEN>` header (without `ADMIN_TOKEN` it is disabled, 503 status) and removes a finished job from the generation history together with its stored assets and, if it produced one,
+// its reel in the catalog. Cached assets (script, voiceover and clips) that another job still uses are kept.
+// Queued and running jobs must be cancelled first (409 status).
+// If the job does not exist, both return a 404 status.
+
+import { getProviders } from '@/lib/providers';
+import { deleteJob, getJob } from '@/lib/jobs';
+import { getConfig } from '@/lib/config';
+import { deleteReel, withoutUnpublishedAssets } from '@/lib/reels';
+import { deleteEngagement } from '@/lib/engagement';
+import { forgetCachedAssets } from '@/lib/assetCache';
+import type { DeleteJobResponse, JobResponse } from '@/lib/api';
+import {
+  checkBearerToken,
+  jsonError,
+  jsonSuccess,
+  jsonUnexpectedError,
+} from '@/lib/apiResponse';
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const job = await getJob(id);
+
+    if (!job) {
+      return jobNotFound();
+    }
+
+    const [visible] = await withoutUnpublishedAssets([job]);
+    return jsonSuccess<JobResponse>({ job: visible });
+  } catch (error) {
+    return jsonUnexpectedError(error);
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const unauthorized = checkBearerToken(
+      request,
+      getConfig().adminToken,
+      'ADMIN_TOKEN'
+    );
+    if (unauthorized) {
+      return unauthorized;
+    }
+
+    const { id } = await params;
+    const job = await getJob(id);
+
+    if (!job) {
+      return jobNotFound();
+    }
+
+    if (job.status === 'queued' || job.status === 'running') {
+      return jsonError(
+        'CONFLICT',
+        `The job is still ${job.status}; cancel it first`,
+        409
+      );
+    }
+
+    const deleted = await deleteJob(id);
+    if (!deleted) {
+      return jobNotFound();
+    }
+
+    // The reel is only in the catalog when the job succeeded; removing it is a no-op otherwise.
+    await deleteReel(id);
+    await deleteEngagement(id);
+
+    const { storage } = getProviders();
+    await Promise.all(
+      deleted.unusedAssets.map((asset) =>
+        storage.delete(asset.fileName, asset.directory)
+      )
+    );
+    await forgetCachedAssets(deleted.unusedAssets);
+
+    return jsonSuccess<DeleteJobResponse>({
+      deletedAssets: deleted.unusedAssets.length,
+    });
+  } catch (error) {
+    return jsonUnexpectedError(error);
+  }
+}
+
+function jobNotFound() {
+  return jsonError('NOT_FOUND', 'Job not found', 404);
+}
@@ -0,0 +1,41 @@
+// This is a Next.js API route that lists the generation history: every job created by `POST /api/generate-video`,
+// newest first, with its inputs, status, per-stage timings and the URLs of the assets it produced
+// (for a job that produced a reel, only once the reel has been approved).
+// Pagination is cursor based: pass the `nextCursor` of the previous response as `?cursor=` to get the next page,
+// and optionally `?limit=` to change the page size. `nextCursor` is null on the last page.
+// An invalid cursor or limit returns a 400 status; any other error is logged and returns a 500 status.
+
+import { InvalidJobCursorError, listJobs } from '@/lib/jobs';
+import { withoutUnpublishedAssets } from '@/lib/reels';
+import type { JobsResponse } from '@/lib/api';
+import { jsonError, jsonSuccess, jsonUnexpectedError } from '@/lib/apiResponse';
+
+const DEFAULT_PAGE_SIZE = 10;
+const MAX_PAGE_SIZE = 50;
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = Number(searchParams.get('limit') || DEFAULT_PAGE_SIZE);
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return jsonError(
+        'INVALID_REQUEST',
+        `limit must be between 1 and ${MAX_PAGE_SIZE}`,
+        400
+      );
+    }
+
+    const page = await listJobs(searchParams.get('cursor'), limit);
+
+    return jsonSuccess<JobsResponse>({
+      ...page,
+      jobs: await withoutUnpublishedAssets(page.jobs),
+    });
+  } catch (error) {
+    if (error instanceof InvalidJobCursorError) {
+      return jsonError('INVALID_REQUEST', error.message, 400);
+    }
+    return jsonUnexpectedError(error);
+  }
+}
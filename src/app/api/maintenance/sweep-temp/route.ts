@@ -0,0 +1,62 @@
+// This is a Next.js API route that sweeps `temp/` in storage: it deletes the orphaned files older than the
+// retention period (see `src/lib/tempAssets.ts` for what counts as orphaned) and returns a report of what it deleted.
+// POST runs the sweep on demand; `?dryRun=true` only reports what would be deleted, and `?olderThanHours=` overrides
+// the retention period (`TEMP_RETENTION_HOURS`, 24 hours by default). Asset cache entries unused for
+// `ASSET_CACHE_RETENTION_DAYS` are expired first, so their files are swept too.
+// GET runs the same sweep for a scheduler such as Vercel Cron (see `vercel.json`), which can only send GET requests.
+// Both require an `Authorization: Bearer <CRON_SECRET>` header; without `CRON_SECRET` the route is disabled (503 status).
+// A missing or wrong token returns a 401 status and invalid parameters a 400 status.
+
+import { getConfig } from '@/lib/config';
+import { getProviders } from '@/lib/providers';
+import { sweepTempAssets } from '@/lib/tempAssets';
+import type { SweepTempResponse } from '@/lib/api';
+import {
+  checkBearerToken,
+  jsonError,
+  jsonSuccess,
+  jsonUnexpectedError,
+} from '@/lib/apiResponse';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: Request) {
+  return sweep(request);
+}
+
+export async function GET(request: Request) {
+  return sweep(request);
+}
+
+async function sweep(request: Request) {
+  try {
+    const { cronSecret, storage } = getConfig();
+    const unauthorized = checkBearerToken(request, cronSecret, 'CRON_SECRET');
+    if (unauthorized) {
+      return unauthorized;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const dryRun = searchParams.get('dryRun') === 'true';
+    const olderThanHours = Number(
+      searchParams.get('olderThanHours') || storage.tempRetentionHours
+    );
+    if (!Number.isFinite(olderThanHours) || olderThanHours < 1) {
+      return jsonError(
+        'INVALID_REQUEST',
+        'olderThanHours must be at least 1',
+        400
+      );
+    }
+
+    const report = await sweepTempAssets(getProviders().storage, {
+      olderThanHours,
+      cacheRetentionDays: storage.assetCacheRetentionDays,
+      dryRun,
+    });
+
+    return jsonSuccess<SweepTempResponse>({ report });
+  } catch (error) {
+    return jsonUnexpectedError(error);
+  }
+}
@@ -0,0 +1,23 @@
+// This is a Next.js API route that lists the background music tracks in the local music library,
+// along with the default track of each sport, for the music picker on the `Create` page.
+
+import { listTracks, SPORT_DEFAULT_TRACKS } from '@/lib/music';
+import type { MusicResponse } from '@/lib/api';
+import { jsonSuccess, jsonUnexpectedError } from '@/lib/apiResponse';
+
+export async function GET() {
+  try {
+    const tracks = await listTracks();
+
+    return jsonSuccess<MusicResponse>({
+      tracks,
+      defaults: Object.fromEntries(
+        Object.entries(SPORT_DEFAULT_TRACKS).filter(([, track]) =>
+          tracks.includes(track)
+        )
+      ),
+    });
+  } catch (error) {
+    return jsonUnexpectedError(error);
+  }
+}
@@ -0,0 +1,58 @@
+// This is a Next.js API route for the comments on a reel in the catalog.
+// GET returns the comments, oldest first.
+// POST adds a comment from a body of `{ "text": "...", "author": "..." }`; the author is optional
+// and defaults to "Anonymous". It returns the stored comment.
+// An invalid comment returns a 400 status and an unknown reel a 404 status.
+
+import { getReel } from '@/lib/reels';
+import { addComment, listComments, parseComment } from '@/lib/engagement';
+import type { CommentResponse, CommentsResponse } from '@/lib/api';
+import { jsonError, jsonSuccess, jsonUnexpectedError } from '@/lib/apiResponse';
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    if (!(await getReel(id))) {
+      return reelNotFound();
+    }
+
+    const comments = await listComments(id);
+
+    return jsonSuccess<CommentsResponse>({ comments });
+  } catch (error) {
+    return jsonUnexpectedError(error);
+  }
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body: unknown = await request.json().catch(() => null);
+    const input = parseComment(body);
+
+    if ('error' in input) {
+      return jsonError('INVALID_REQUEST', input.error, 400);
+    }
+
+    if (!(await getReel(id))) {
+      return reelNotFound();
+    }
+
+    const comment = await addComment(id, input.author, input.text);
+
+    return jsonSuccess<CommentResponse>({ comment }, 201);
+  } catch (error) {
+    return jsonUnexpectedError(error);
+  }
+}
+
+function reelNotFound() {
+  return jsonError('NOT_FOUND', 'Reel not found', 404);
+}
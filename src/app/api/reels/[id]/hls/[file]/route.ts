@@ -0,0 +1,53 @@
+// This is a Next.js API route that serves the HLS playlists of a reel when signed URLs are enabled
+// (the catalog then gives `/api/reels/[id]/hls/master.m3u8` as the `hlsURL` of a reel).
+// The playlists are stored with relative entries; this route rewrites them on every request, the media
+// playlists to this route and the segments to freshly signed storage URLs, so streams never carry
+// an expired signature (see `src/lib/hls.ts`). Responses may only be cached briefly, well within the signature TTL.
+// Unknown or unapproved reels, reels without HLS renditions and unknown playlists return a 404 status.
+
+import { NextResponse } from 'next/server';
+import { getReel } from '@/lib/reels';
+import { getProviders } from '@/lib/providers';
+import { HLS_CONTENT_TYPES, servePlaylist } from '@/lib/hls';
+import { jsonError, jsonUnexpectedError } from '@/lib/apiResponse';
+
+const PLAYLIST_PATTERN = /^[\w-]+\.m3u8$/;
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string; file: string }> }
+) {
+  try {
+    const { id, file } = await params;
+    const reel = await getReel(id);
+    const masterFileName = reel?.files?.hlsURL;
+
+    if (!reel || !masterFileName || !PLAYLIST_PATTERN.test(file)) {
+      return playlistNotFound();
+    }
+
+    const { storage } = getProviders();
+    const playlist = await servePlaylist(
+      storage,
+      reel.id,
+      masterFileName,
+      file
+    ).catch(() => null);
+    if (playlist === null) {
+      return playlistNotFound();
+    }
+
+    return new NextResponse(playlist, {
+      headers: {
+        'Content-Type': HLS_CONTENT_TYPES.playlist,
+        'Cache-Control': 'private, max-age=60',
+      },
+    });
+  } catch (error) {
+    return jsonUnexpectedError(error);
+  }
+}
+
+function playlistNotFound() {
+  return jsonError('NOT_FOUND', 'Playlist not found', 404);
+}
@@ -0,0 +1,59 @@
+// This is a Next.js API route that likes (POST) or unlikes (DELETE) a reel in the catalog.
+// The request body is `{ "viewerId": "..." }`, the anonymous id the feed keeps for the viewer;
+// a viewer's like is counted once however many times it is sent.
+// On success it returns the updated like, comment and share counts of the reel.
+// A body that is not a JSON object or an invalid viewer id returns a 400 status and an unknown reel a 404 status.
+
+import { getReel } from '@/lib/reels';
+import { parseViewerId, setLiked } from '@/lib/engagement';
+import type { EngagementResponse } from '@/lib/api';
+import { jsonError, jsonSuccess, jsonUnexpectedError } from '@/lib/apiResponse';
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return handleLike(request, params, true);
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return handleLike(request, params, false);
+}
+
+async function handleLike(
+  request: Request,
+  params: Promise<{ id: string }>,
+  liked: boolean
+) {
+  try {
+    const { id } = await params;
+    const body: unknown = await request.json().catch(() => ({}));
+    if (!body || typeof body !== 'object') {
+      return jsonError(
+        'INVALID_REQUEST',
+        'The request body must be a JSON object',
+        400
+      );
+    }
+    const viewerId = parseViewerId(
+      'viewerId' in body ? body.viewerId : undefined
+    );
+
+    if (!viewerId) {
+      return jsonError('INVALID_REQUEST', 'A valid viewerId is required', 400);
+    }
+
+    if (!(await getReel(id))) {
+      return jsonError('NOT_FOUND', 'Reel not found', 404);
+    }
+
+    const engagement = await setLiked(id, viewerId, liked);
+
+    return jsonSuccess<EngagementResponse>({ engagement });
+  } catch (error) {
+    return jsonUnexpectedError(error);
+  }
+}
@@ -0,0 +1,40 @@
+// This is a Next.js API route that records a share of a reel in the catalog.
+// The feed calls it after the reel was shared through the Web Share API or its link was copied.
+// The optional body `{ "viewerId": "..." }` is only used to report whether the viewer likes the reel.
+// On success it returns the updated like, comment and share counts of the reel.
+// A body that is not a JSON object returns a 400 status and an unknown reel a 404 status.
+
+import { getReel } from '@/lib/reels';
+import { parseViewerId, recordShare } from '@/lib/engagement';
+import type { EngagementResponse } from '@/lib/api';
+import { jsonError, jsonSuccess, jsonUnexpectedError } from '@/lib/apiResponse';
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body: unknown = await request.json().catch(() => ({}));
+    if (!body || typeof body !== 'object') {
+      return jsonError(
+        'INVALID_REQUEST',
+        'The request body must be a JSON object',
+        400
+      );
+    }
+
+    if (!(await getReel(id))) {
+      return jsonError('NOT_FOUND', 'Reel not found', 404);
+    }
+
+    const engagement = await recordShare(
+      id,
+      parseViewerId('viewerId' in body ? body.viewerId : undefined)
+    );
+
+    return jsonSuccess<EngagementResponse>({ engagement });
+  } catch (error) {
+    return jsonUnexpectedError(error);
+  }
+}
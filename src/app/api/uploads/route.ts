@@ -0,0 +1,86 @@
+// This is a Next.js API route that accepts a scene image for `POST /api/generate-video` as a multipart upload.
+// The form has an `image` file (PNG or JPG, at most 5MB, sides between 256 and 8192 pixels) and optional fields:
+// `fit` (`crop`, the default, or `pad`) and `focalX`/`focalY` (0 to 1, the point to keep in frame when cropping).
+// The type, size and dimensions are checked on the server, and the image is re-encoded as a 768x1280 JPEG
+// without metadata (EXIF is stripped) and stored as a temporary asset.
+// Images are named by a hash of the upload and its options, so uploading the same image again
+// yields the same URL and generations from it can reuse cached video clips.
+// On success it returns the URL of the stored image, to be sent as the `photo` of a scene.
+// Generation requests only accept images stored by this route, so none skips these checks.
+// An invalid upload returns a 400 status; any other error is logged and returns a 500 status.
+
+import { createHash } from 'crypto';
+import { hashInputs } from '@/lib/assetCache';
+import { getProviders } from '@/lib/providers';
+import {
+  InvalidImageError,
+  normaliseImage,
+  parseFocalPoint,
+  REEL_IMAGE_HEIGHT,
+  REEL_IMAGE_WIDTH,
+} from '@/lib/images';
+import {
+  IMAGE_TYPES,
+  ImageFit,
+  MAX_IMAGE_BYTES,
+  uploadedImageFileName,
+} from '@/lib/scenes';
+import type { UploadResponse } from '@/lib/api';
+import { jsonError, jsonSuccess, jsonUnexpectedError } from '@/lib/apiResponse';
+
+export async function POST(request: Request) {
+  try {
+    const form = await request.formData().catch(() => null);
+    const image = form?.get('image');
+
+    if (!form || !(image instanceof File)) {
+      return badRequest('An image file is required');
+    }
+    if (!IMAGE_TYPES.includes(image.type)) {
+      return badRequest('Images must be PNG or JPG');
+    }
+    if (image.size > MAX_IMAGE_BYTES) {
+      return badRequest(
+        `Images must be at most ${MAX_IMAGE_BYTES / 1024 / 1024}MB`
+      );
+    }
+
+    const fit = (form.get('fit') || 'crop') as ImageFit;
+    if (!['crop', 'pad'].includes(fit)) {
+      return badRequest('fit must be crop or pad');
+    }
+
+    const focal = parseFocalPoint(form.get('focalX'), form.get('focalY'));
+    if ('error' in focal) {
+      return badRequest(focal.error);
+    }
+
+    const content = Buffer.from(await image.arrayBuffer());
+    const normalised = await normaliseImage(content, fit, focal.focalPoint);
+    const key = hashInputs({
+      image: createHash('sha256').update(content).digest('hex'),
+      fit,
+      focalPoint: focal.focalPoint,
+    });
+    const url = await getProviders().storage.upload(
+      uploadedImageFileName(key),
+      'image/jpeg',
+      normalised,
+      'temp'
+    );
+
+    return jsonSuccess<UploadResponse>(
+      { url, width: REEL_IMAGE_WIDTH, height: REEL_IMAGE_HEIGHT },
+      201
+    );
+  } catch (error) {
+    if (error instanceof InvalidImageError) {
+      return badRequest(error.message);
+    }
+    return jsonUnexpectedError(error);
+  }
+}
+
+function badRequest(error: string) {
+  return jsonError('INVALID_REQUEST', error, 400);
+}
@@ -0,0 +1,46 @@
+// This is a Next.js API route that returns a short MP3 preview of a voice.
+// It accepts the same voice settings as `POST /api/generate-video` as query parameters
+// (`languageCode`, `name`, `speakingRate`, `pitch`, `ssml`) and reads a sample sentence in that language,
+// so the response can be used directly as the `src` of an <audio> element.
+// Invalid settings return a 400 status and a failure of the voice provider a 502 status (`TTS_FAILED`);
+// any other error is logged and returns a 500 status.
+
+import { NextResponse } from 'next/server';
+import { getProviders } from '@/lib/providers';
+import { getLanguage, parseVoiceSettings } from '@/lib/voices';
+import { jsonError, jsonUnexpectedError } from '@/lib/apiResponse';
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const voice = parseVoiceSettings(Object.fromEntries(searchParams));
+    if ('error' in voice) {
+      return jsonError('INVALID_REQUEST', voice.error, 400);
+    }
+
+    const { previewText } = getLanguage(voice.settings.languageCode)!;
+    let audio: Buffer;
+    try {
+      ({ audio } = await getProviders().voice.synthesize(
+        previewText,
+        voice.settings
+      ));
+    } catch (error) {
+      console.error('Error synthesising the voice preview:', error);
+      return jsonError(
+        'TTS_FAILED',
+        'The voice preview could not be synthesised',
+        502
+      );
+    }
+
+    return new NextResponse(audio, {
+      headers: {
+        'Content-Type': 'audio/mpeg',
+        'Cache-Control': 'public, max-age=86400',
+      },
+    });
+  } catch (error) {
+    return jsonUnexpectedError(error);
+  }
+}
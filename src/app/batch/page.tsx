@@ -0,0 +1,448 @@
+// The batch generation page: queues many reels at once from a manifest, e.g. a morning slate of ten sports with an image each.
+// The manifest is a CSV or JSON file with one reel per row: its sport, image, prompt and voice settings (see "src/lib/manifest.ts").
+// It is parsed in the browser when picked, and its rows are previewed before anything is sent;
+// a manifest that cannot be read (unknown columns, too many rows, ...) is rejected straight away.
+// The image of a row is either the URL of an uploaded image or the name of a local file: local files are picked
+// together with the manifest, and "startBatch" uploads each of them once to "/api/uploads" and sends the returned URLs.
+// The batch is created through "/api/batches" (with the chosen concurrency, 1 to 4 reels at a time) and its id is kept in the URL
+// ("/batch?id=<batch id>"), so the page can be reloaded or shared. While any row is queued or running, the status of every row
+// is polled from "/api/batches/[id]": its job status, a link to the finished reel, or the reason it was rejected or failed.
+// "Download summary" saves the result of every row as CSV ("/api/batches/[id]/summary").
+// Requests go through the typed API client ("src/lib/api.ts"). Tailwind CSS is used for styling, matching the history page.
+
+'use client';
+
+import { ChangeEvent, useEffect, useState } from 'react';
+import type { BatchItemStatus, BatchReport } from '@/lib/batches';
+import {
+  BATCH_CONCURRENCY_RANGE,
+  DEFAULT_BATCH_CONCURRENCY,
+  MANIFEST_COLUMNS,
+  ManifestRow,
+  parseManifest,
+} from '@/lib/manifest';
+import { api, ApiError, ERROR_MESSAGES } from '@/lib/api';
+
+const POLL_INTERVAL_MS = 3000;
+
+const STATUS_CLASSES: Record<BatchItemStatus, string> = {
+  queued: 'text-gray-500',
+  running: 'text-indigo-600',
+  succeeded: 'text-green-600',
+  failed: 'text-red-600',
+  cancelled: 'text-gray-500',
+  invalid: 'text-red-600',
+  deleted: 'text-gray-500',
+};
+
+const CONCURRENCY_OPTIONS = Array.from(
+  {
+    length: BATCH_CONCURRENCY_RANGE.max - BATCH_CONCURRENCY_RANGE.min + 1,
+  },
+  (_, index) => BATCH_CONCURRENCY_RANGE.min + index
+);
+
+function isImageUrl(image: string): boolean {
+  return /^(https?:\/\/|\/)/.test(image);
+}
+
+export default function Batch() {
+  const [rows, setRows] = useState<ManifestRow[] | null>(null);
+  const [manifestError, setManifestError] = useState<string | null>(null);
+  // The local images picked with the manifest, by file name.
+  const [imageFiles, setImageFiles] = useState<Map<string, File>>(new Map());
+  const [concurrency, setConcurrency] = useState<number>(
+    DEFAULT_BATCH_CONCURRENCY
+  );
+  const [submitting, setSubmitting] = useState<boolean>(false);
+  const [batch, setBatch] = useState<BatchReport | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    const id = new URLSearchParams(window.location.search).get('id');
+    if (!id) return;
+    api
+      .getBatch(id)
+      .then(({ batch }) => setBatch(batch))
+      .catch((error) => {
+        console.error('Failed to load the batch:', error);
+        setErrorMessage(describeError(error));
+      });
+  }, []);
+
+  // Follow the batch until every row has finished.
+  const batchId = batch?.id;
+  const batchFinished = batch?.finished ?? true;
+  useEffect(() => {
+    if (!batchId || batchFinished) return;
+    const interval = setInterval(() => {
+      api
+        .getBatch(batchId)
+        .then(({ batch }) => setBatch(batch))
+        .catch((error) => console.error('Failed to refresh the batch:', error));
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [batchId, batchFinished]);
+
+  async function handleManifestChange(event: ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    setRows(null);
+    setManifestError(null);
+    if (!file) return;
+    const parsed = parseManifest(
+      await file.text(),
+      file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv'
+    );
+    if ('error' in parsed) {
+      setManifestError(parsed.error);
+    } else {
+      setRows(parsed);
+    }
+  }
+
+  function handleImagesChange(event: ChangeEvent<HTMLInputElement>) {
+    setImageFiles(
+      new Map(
+        Array.from(event.target.files || []).map((file) => [file.name, file])
+      )
+    );
+  }
+
+  const missingImages = (rows || [])
+    .map((row) => row.image)
+    .filter((image) => image && !isImageUrl(image) && !imageFiles.has(image));
+
+  /**
+   * Uploads the local images of the manifest, then creates the batch with their URLs.
+   */
+  async function startBatch() {
+    if (!rows) return;
+    try {
+      setSubmitting(true);
+      setErrorMessage(null);
+      const names = [
+        ...new Set(
+          rows.map((row) => row.image).filter((image) => imageFiles.has(image))
+        ),
+      ];
+      const urls = new Map(
+        await Promise.all(
+          names.map(
+            async (name) =>
+              [name, await uploadImage(imageFiles.get(name)!)] as const
+          )
+        )
+      );
+      const { batch } = await api.createBatch(
+        {
+          rows: rows.map((row) => ({
+            ...row,
+            image: urls.get(row.image) || row.image,
+          })),
+        },
+        concurrency
+      );
+      setBatch(batch);
+      window.history.replaceState(null, '', `/batch?id=${batch.id}`);
+    } catch (error) {
+      console.error('Failed to start the batch:', error);
+      setErrorMessage(describeError(error));
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  /**
+   * Uploads an image to "/api/uploads", which validates it and crops it to the 9:16 frame around its centre.
+   * @returns The URL of the normalised image.
+   */
+  async function uploadImage(file: File): Promise<string> {
+    const form = new FormData();
+    form.append('image', file);
+    try {
+      const { url } = await api.uploadImage(form);
+      return url;
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw new ApiError(
+          error.code,
+          `${file.name}: ${error.message}`,
+          error.status
+        );
+      }
+      throw error;
+    }
+  }
+
+  function startOver() {
+    setBatch(null);
+    setRows(null);
+    setImageFiles(new Map());
+    setErrorMessage(null);
+    window.history.replaceState(null, '', '/batch');
+  }
+
+  //------------------------------------VIEW------------------------------------------//
+
+  return (
+    <div className="max-w-screen-lg mx-auto p-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-bold text-gray-800">Batch Generation</h2>
+        <a
+          href="/history"
+          className="text-sm font-medium text-indigo-600 hover:underline"
+        >
+          Generation history
+        </a>
+      </div>
+      {errorMessage && (
+        <p
+          role="alert"
+          className="mt-4 rounded-md border border-red-300 bg-red-50 p-3 text-sm text-red-700"
+        >
+          {errorMessage}
+        </p>
+      )}
+
+      {!batch && (
+        <>
+          <p className="mt-4 text-sm text-gray-600">
+            One reel per row. Columns: {MANIFEST_COLUMNS.join(', ')} (only sport
+            and image are required). An image is the URL of an uploaded image or
+            the name of one of the image files picked below.
+          </p>
+          <div className="mt-4 grid gap-4 sm:grid-cols-3">
+            <div>
+              <label
+                htmlFor="manifest"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                Manifest (CSV or JSON)
+              </label>
+              <input
+                id="manifest"
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                onChange={handleManifestChange}
+                className="block w-full text-sm"
+              />
+            </div>
+            <div>
+              <label
+                htmlFor="images"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                Images
+              </label>
+              <input
+                id="images"
+                type="file"
+                multiple
+                accept="image/png, image/jpeg"
+                onChange={handleImagesChange}
+                className="block w-full text-sm"
+              />
+            </div>
+            <div>
+              <label
+                htmlFor="concurrency"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                Reels at a time
+              </label>
+              <select
+                id="concurrency"
+                value={concurrency}
+                onChange={(e) => setConcurrency(Number(e.target.value))}
+                className="block w-full rounded-md border border-gray-300 bg-white py-2 px-3 shadow-sm sm:text-sm"
+              >
+                {CONCURRENCY_OPTIONS.map((option) => (
+                  <option key={option} value={option}>
+                    {option}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          {manifestError && (
+            <p role="alert" className="mt-4 text-sm text-red-600">
+              {manifestError}
+            </p>
+          )}
+
+          {rows && (
+            <>
+              <h3 className="mt-6 font-semibold text-gray-800">
+                {rows.length} {rows.length === 1 ? 'reel' : 'reels'}
+              </h3>
+              <div className="mt-2 overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-300 text-left text-xs text-gray-500">
+                      <th className="py-2 pr-4 font-medium">Row</th>
+                      <th className="py-2 pr-4 font-medium">Sport</th>
+                      <th className="py-2 pr-4 font-medium">Image</th>
+                      <th className="py-2 pr-4 font-medium">Prompt</th>
+                      <th className="py-2 font-medium">Voice</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map((row, index) => (
+                      <tr
+                        key={index}
+                        className="border-b border-gray-200 text-gray-700"
+                      >
+                        <td className="py-2 pr-4">{index + 1}</td>
+                        <td className="py-2 pr-4 capitalize">{row.sport}</td>
+                        <td
+                          className={`py-2 pr-4 break-all ${
+                            missingImages.includes(row.image)
+                              ? 'text-red-600'
+                              : ''
+                          }`}
+                        >
+                          {row.image}
+                        </td>
+                        <td className="py-2 pr-4">{row.prompt || '-'}</td>
+                        <td className="py-2">
+                          {row.voice || 'Default'}
+                          {row.language && ` (${row.language})`}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {missingImages.length > 0 && (
+                <p className="mt-2 text-sm text-red-600">
+                  Pick the image files {[...new Set(missingImages)].join(', ')},
+                  or use their URLs.
+                </p>
+              )}
+              <button
+                type="button"
+                disabled={submitting || missingImages.length > 0}
+                onClick={startBatch}
+                className="mt-4 bg-indigo-600 text-white font-medium py-2 px-4 rounded-md shadow-sm hover:bg-indigo-700 disabled:opacity-70 sm:text-sm"
+              >
+                {submitting ? 'Starting...' : `Generate ${rows.length} reels`}
+              </button>
+            </>
+          )}
+        </>
+      )}
+
+      {batch && (
+        <>
+          <div className="mt-4 flex flex-wrap items-baseline justify-between gap-2">
+            <p className="text-sm text-gray-600">
+              Started {new Date(batch.createdAt).toLocaleString()} ·{' '}
+              {batch.concurrency} at a time ·{' '}
+              {batch.finished ? 'finished' : 'in progress'}
+            </p>
+            <div className="flex gap-4 text-sm">
+              <a
+                href={`/api/batches/${batch.id}/summary`}
+                download
+                className="font-medium text-indigo-600 hover:underline"
+              >
+                Download summary
+              </a>
+              <button
+                type="button"
+                onClick={startOver}
+                className="font-medium text-indigo-600 hover:underline"
+              >
+                New batch
+              </button>
+            </div>
+          </div>
+          <ul className="mt-2 flex flex-wrap gap-x-4 text-xs">
+            {(Object.keys(STATUS_CLASSES) as BatchItemStatus[])
+              .filter((status) => batch.counts[status])
+              .map((status) => (
+                <li key={status} className={STATUS_CLASSES[status]}>
+                  {status}: {batch.counts[status]}
+                </li>
+              ))}
+          </ul>
+          <div className="mt-4 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-300 text-left text-xs text-gray-500">
+                  <th className="py-2 pr-4 font-medium">Row</th>
+                  <th className="py-2 pr-4 font-medium">Sport</th>
+                  <th className="py-2 pr-4 font-medium">Image</th>
+                  <th className="py-2 pr-4 font-medium">Status</th>
+                  <th className="py-2 font-medium">Result</th>
+                </tr>
+              </thead>
+              <tbody>
+                {batch.items.map((item) => (
+                  <tr
+                    key={item.row}
+                    className="border-b border-gray-200 text-gray-700"
+                  >
+                    <td className="py-2 pr-4">{item.row}</td>
+                    <td className="py-2 pr-4 capitalize">{item.sport}</td>
+                    <td className="py-2 pr-4">
+                      {isImageUrl(item.image) ? (
+                        <img
+                          src={item.image}
+                          alt={`Row ${item.row}`}
+                          title={item.prompt}
+                          className="w-8 h-14 rounded object-cover bg-black"
+                        />
+                      ) : (
+                        <span className="break-all">{item.image}</span>
+                      )}
+                    </td>
+                    <td
+                      className={`py-2 pr-4 font-medium ${STATUS_CLASSES[item.status]}`}
+                    >
+                      {item.status}
+                      {item.reused && (
+                        <span className="block text-xs font-normal text-gray-500">
+                          existing job
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-2">
+                      {item.reelURL && (
+                        <a
+                          href={item.reelURL}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="text-indigo-600 hover:underline"
+                        >
+                          Reel
+                        </a>
+                      )}
+                      {item.status === 'invalid' && (
+                        <span className="text-red-600">{item.error}</span>
+                      )}
+                      {item.status !== 'invalid' && item.errorCode && (
+                        <span className="text-red-600" title={item.error}>
+                          {ERROR_MESSAGES[item.errorCode]}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Returns the message to show for a failed request.
+ */
+function describeError(error: unknown): string {
+  return error instanceof ApiError
+    ? `${error.userMessage} ${error.message}`
+    : ERROR_MESSAGES.INTERNAL_ERROR;
+}
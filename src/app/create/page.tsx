@@ -1,55 +1,223 @@
 // This file defines the "Create" component for generating assets for sports reels using AI.
 // It uses React's useState hook to manage the state of selected sport, loading status, and generated data (script, voiceover, image, and video URLs).
-// The "onhandleGenerate" function is triggered when the "Generate" button is clicked. It sends a POST request to the "/api/generate-video" endpoint with the selected sport.
-// If the API call is successful, the response data (URLs for script, voiceover, image, and video) is stored in the "data" state.
+// The "onhandleGenerate" function is triggered when the "Generate" button is clicked. It sends a POST request to the "/api/generate-video" endpoint with the selected sport,
+// which creates a generation job and returns its id straight away (or the id of an existing job with the same input).
+// Every click sends a fresh "Idempotency-Key" header, so a retried request never starts a second job;
+// the "Force regenerate" option skips the cached assets and produces everything again.
+// The "followJob" function then follows the job's Server-Sent Events stream ("/api/jobs/[id]/events") and stores the per-stage status and the URLs
+// (script, voiceover, captions, video, and the merged reel) in the "job" and "data" states as each stage starts, progresses and finishes,
+// until the job succeeds, fails or is cancelled. The stage timeline shows how long each stage took and the progress of the video clips,
+// and the script and voiceover are shown as soon as they exist, while the video is still being generated.
+// While the job runs, a "Cancel" button cancels it through "/api/jobs/[id]/cancel" ("cancelGeneration").
 // The "generateVideo" function handles the API request and validates the input before sending the request.
+// Requests go through the typed API client ("src/lib/api.ts"). When a request or a stage fails, the user-readable
+// message for its error code (e.g. SCRIPT_FAILED or VIDEO_REJECTED_COPYRIGHT) is shown above the stage timeline.
 // The UI includes:
 // - A dropdown to select a sport.
+// - A file picker for an ordered set of images, one per scene (up to MAX_SCENES), each with an optional prompt.
+//   Scenes can be reordered and removed; each one becomes its own clip in the reel.
+//   PNG/JPG files over 5MB are rejected when picked. Each image is cropped to the 9:16 frame around a focal point,
+//   picked by clicking the image (with a live preview of the crop), or padded with black bars instead.
+//   When generating, the "uploadImage" function uploads every image to "/api/uploads", which validates and normalises it,
+//   and the returned URLs are sent as the scene photos.
+// - Voice controls (language, voice, speaking rate, pitch and SSML mode) with a "Preview" button that plays a short sample
+//   from "/api/voices/preview". The script is written in the selected language.
+// - A background music picker listing the tracks of the local music library ("/api/music"), defaulting to the sport's track.
+// - A checkbox to burn the captions into the reel video instead of only storing them as sidecar files.
 // - A "Generate" button that triggers the asset generation process and shows a loading spinner while the request is in progress.
-// - A section to display the generated assets (script in an iframe, voiceover as an audio player, image as an <img>, and video as a <video>).
+// - A section to display the generated assets (script in an iframe, voiceover as an audio player, video and the finished reel as a <video>,
+//   with the WebVTT captions previewed as a <track> on the reel).
+// Opened as "/create?from=<job id>" (the "Duplicate & edit" action of the history page), the form is prefilled with the inputs of that job:
+// its already uploaded images are reused as they are, so they can be reordered, removed or re-prompted but not re-cropped.
+// Finished reels are moderated, so a successful generation says the reel appears in the feed once a reviewer approves it.
+// Many reels can be queued at once from a manifest on the batch page ("/batch"), linked below the form.
 // - A "Notes" section providing additional information about the technologies used and a link to the GitHub repository.
 // Tailwind CSS is used for styling the component, including layout, typography, and hover effects.
 
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import type { Job, JobStatus, StageName } from '@/lib/jobs';
+import {
+  api,
+  ApiError,
+  ERROR_MESSAGES,
+  GenerateVideoResponse,
+} from '@/lib/api';
+import {
+  DEFAULT_VOICE_SETTINGS,
+  LANGUAGES,
+  PITCH_RANGE,
+  SPEAKING_RATE_RANGE,
+  VOICES,
+  VoiceSettings,
+} from '@/lib/voices';
+import {
+  DEFAULT_SCENE_PROMPT,
+  FOCAL_CENTRE,
+  FocalPoint,
+  IMAGE_TYPES,
+  ImageFit,
+  MAX_IMAGE_BYTES,
+  MAX_SCENES,
+} from '@/lib/scenes';
+
+const STAGE_LABELS: Record<StageName, string> = {
+  script: 'Script',
+  voiceover: 'Voice Over',
+  captions: 'Captions',
+  video: 'Video',
+  merge: 'Reel',
+};
+
+const STAGE_DOT_CLASSES: Record<JobStatus, string> = {
+  queued: 'bg-gray-300',
+  running: 'bg-indigo-600',
+  succeeded: 'bg-green-600',
+  failed: 'bg-red-600',
+  cancelled: 'bg-gray-400',
+};
+
+/**
+ * Formats how long a stage took, e.g. "12s" or "1m 05s".
+ */
+function formatStageDuration(startedAt: string, finishedAt: string): string {
+  const seconds = Math.round(
+    (new Date(finishedAt).getTime() - new Date(startedAt).getTime()) / 1000
+  );
+  return seconds < 60
+    ? `${seconds}s`
+    : `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s`;
+}
+
+/**
+ * Returns the message to show for a failed request. Invalid requests also say what was invalid.
+ */
+function describeError(error: unknown): string {
+  if (!(error instanceof ApiError)) {
+    return ERROR_MESSAGES.INTERNAL_ERROR;
+  }
+  return error.code === 'INVALID_REQUEST'
+    ? `${error.userMessage} ${error.message}`
+    : error.userMessage;
+}
+
+// An image picked for a scene, with its optional prompt and how it is fitted to the 9:16 frame.
+interface SceneDraft {
+  // The picked file, or null for an image copied from an earlier job, which is already uploaded.
+  file: File | null;
+  uploadedURL?: string;
+  // Object URL of the file (or the uploaded URL), for the previews.
+  previewURL: string;
+  prompt: string;
+  fit: ImageFit;
+  focalPoint: FocalPoint;
+}
 
 interface Data {
   scriptURL: string;
   voiceoverURL: string;
   videoURL: string;
+  reelURL: string;
+  captionsURL: string;
 }
 
 export default function Create() {
   const [selectedSport, setSelectedSport] = useState<string>('cricket');
-  const [selectedImage, setSelectedImage] = useState<File | null>(null);
+  const [scenes, setScenes] = useState<SceneDraft[]>([]);
+  const [burnCaptions, setBurnCaptions] = useState<boolean>(false);
+  const [forceRegenerate, setForceRegenerate] = useState<boolean>(false);
+  const [voice, setVoice] = useState<VoiceSettings>(DEFAULT_VOICE_SETTINGS);
+  const [voicePreviewURL, setVoicePreviewURL] = useState<string>('');
+  // '' uses the sport's default track, 'none' turns the music off.
+  const [musicTrack, setMusicTrack] = useState<string>('');
+  const [musicLibrary, setMusicLibrary] = useState<{
+    tracks: string[];
+    defaults: Record<string, string>;
+  }>({ tracks: [], defaults: {} });
+
+  useEffect(() => {
+    api
+      .listMusic()
+      .then(setMusicLibrary)
+      .catch((error) => console.error('Failed to load music library:', error));
+  }, []);
+
+  useEffect(() => {
+    const from = new URLSearchParams(window.location.search).get('from');
+    if (!from) return;
+    api
+      .getJob(from)
+      .then(({ job }) => {
+        setSelectedSport(job.input.sports);
+        setBurnCaptions(job.input.burnCaptions);
+        setVoice(job.input.voice);
+        setMusicTrack(job.input.musicTrack ?? 'none');
+        setScenes(
+          job.input.scenes.map((scene) => ({
+            file: null,
+            uploadedURL: scene.photo,
+            previewURL: scene.photo,
+            prompt: scene.prompt || '',
+            fit: 'crop',
+            focalPoint: FOCAL_CENTRE,
+          }))
+        );
+      })
+      .catch((error) => {
+        console.error('Failed to load the job to duplicate:', error);
+        setErrorMessage(describeError(error));
+      });
+  }, []);
   const [loading, setLoading] = useState<boolean>(false);
+  const [job, setJob] = useState<Job | null>(null);
+  // What went wrong with the last generation, in words the user can act on.
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
 
   const [data, setData] = useState<Data>({
     scriptURL: '',
     voiceoverURL: '',
     videoURL: '',
+    reelURL: '',
+    captionsURL: '',
   });
 
   const onhandleGenerate = async () => {
     try {
       setLoading(true);
       console.log('Selected Sport:', selectedSport);
-      console.log('Selected Image:', selectedImage);
-
-      let apiResponse: any = await generateVideo(selectedSport, selectedImage);
-      if (apiResponse.status == 200) {
-        setData({
-          scriptURL: apiResponse.data.scriptURL,
-          voiceoverURL: apiResponse.data.voiceoverURL,
-          videoURL: apiResponse.data.videoURL,
-        });
-      } else {
-        console.error('Error in generating video:');
-        alert('Error in generating video');
+      console.log('Selected Scenes:', scenes);
+
+      setJob(null);
+      setErrorMessage(null);
+      setData({
+        scriptURL: '',
+        voiceoverURL: '',
+        videoURL: '',
+        reelURL: '',
+        captionsURL: '',
+      });
+
+      let generation = await generateVideo(
+        selectedSport,
+        scenes,
+        burnCaptions,
+        voice,
+        musicTrack,
+        forceRegenerate
+      );
+      if (!generation) return;
+
+      let finishedJob = await followJob(generation.jobId);
+      if (finishedJob.status === 'failed') {
+        console.error('Error in generating video:', finishedJob.error);
+        setErrorMessage(
+          ERROR_MESSAGES[finishedJob.errorCode || 'INTERNAL_ERROR']
+        );
       }
     } catch (error) {
       console.error('Error during generation:', error);
+      setErrorMessage(describeError(error));
     } finally {
       setLoading(false);
     }
@@ -57,62 +225,178 @@ export default function Create() {
 
   async function generateVideo(
     sports: string,
-    image: File | null
-  ): Promise<void> {
-    try {
-      // Validate inputs
-      if (!sports) {
-        console.error('Sports is required.');
-        alert('Please enter a Sports name.');
-        return;
-      }
-      if (!image) {
-        console.error('Image is required.');
-        alert('Please upload an image.');
-        return;
-      }
+    scenes: SceneDraft[],
+    burnCaptions: boolean,
+    voice: VoiceSettings,
+    musicTrack: string,
+    forceRegenerate: boolean
+  ): Promise<GenerateVideoResponse | undefined> {
+    // Validate inputs
+    if (!sports) {
+      console.error('Sports is required.');
+      setErrorMessage('Please enter a Sports name.');
+      return;
+    }
+    if (scenes.length === 0) {
+      console.error('Image is required.');
+      setErrorMessage('Please upload an image.');
+      return;
+    }
 
-      let base64Image: string = await convertImageToBase64(image);
-
-      const response = await fetch('/api/generate-video', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          sports: sports,
-          photo: base64Image,
-        }),
-      });
+    let uploadedScenes = await Promise.all(
+      scenes.map(async (scene) => ({
+        photo: await uploadImage(scene),
+        prompt: scene.prompt,
+      }))
+    );
 
-      if (!response.ok) {
-        throw new Error(`API request failed: ${response.statusText}`);
-      }
+    const data = await api.generateVideo(
+      {
+        sports: sports,
+        scenes: uploadedScenes,
+        burnCaptions,
+        voice,
+        music: musicTrack || undefined,
+        forceRegenerate,
+      },
+      crypto.randomUUID()
+    );
+    console.log('API Response:', data);
+    return data;
+  }
 
-      const data = await response.json();
-      console.log('API Response:', data);
-      return data;
+  /**
+   * Appends newly picked images as scenes, up to the maximum number of scenes.
+   */
+  function addScenes(files: FileList | null) {
+    if (!files) return;
+    const accepted = Array.from(files).filter(
+      (file) => IMAGE_TYPES.includes(file.type) && file.size <= MAX_IMAGE_BYTES
+    );
+    if (accepted.length < files.length) {
+      setErrorMessage('Only PNG or JPG images of at most 5MB can be used.');
+    }
+    const added = accepted.map((file) => ({
+      file,
+      previewURL: URL.createObjectURL(file),
+      prompt: '',
+      fit: 'crop' as ImageFit,
+      focalPoint: FOCAL_CENTRE,
+    }));
+    setScenes([...scenes, ...added].slice(0, MAX_SCENES));
+  }
+
+  function removeScene(index: number) {
+    if (scenes[index].file) {
+      URL.revokeObjectURL(scenes[index].previewURL);
+    }
+    setScenes(scenes.filter((_, other) => other !== index));
+  }
+
+  /**
+   * Sets the focal point of a scene to where its image was clicked.
+   */
+  function pickFocalPoint(index: number, event: React.MouseEvent<HTMLElement>) {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const clamp = (value: number) => Math.min(1, Math.max(0, value));
+    updateScene(index, {
+      focalPoint: {
+        x: clamp((event.clientX - bounds.left) / bounds.width),
+        y: clamp((event.clientY - bounds.top) / bounds.height),
+      },
+    });
+  }
+
+  function updateScene(index: number, changes: Partial<SceneDraft>) {
+    setScenes(
+      scenes.map((scene, other) =>
+        other === index ? { ...scene, ...changes } : scene
+      )
+    );
+  }
+
+  /**
+   * Moves a scene one place up (-1) or down (1) in the reel.
+   */
+  function moveScene(index: number, direction: -1 | 1) {
+    const reordered = [...scenes];
+    const [scene] = reordered.splice(index, 1);
+    reordered.splice(index + direction, 0, scene);
+    setScenes(reordered);
+  }
+
+  /**
+   * Cancels the running job. The polling loop stops once the job reports it is cancelled.
+   */
+  async function cancelGeneration() {
+    if (!job) return;
+    try {
+      const { job: cancelledJob } = await api.cancelJob(job.id);
+      setJob(cancelledJob);
     } catch (error) {
-      console.error('Error while generating video:', error);
-      alert('An error occurred while generating the video. Please try again.');
+      console.error('Failed to cancel the job:', error);
     }
   }
 
-  function convertImageToBase64(file: File): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = () => {
-        if (reader.result) {
-          resolve(reader.result.toString());
-        } else {
-          reject('Failed to convert file to Base64.');
-        }
-      };
-      reader.onerror = () => {
-        reject('Error reading file.');
-      };
-      reader.readAsDataURL(file);
+  /**
+   * Points the preview player at a sample of the selected voice settings.
+   */
+  function previewVoice() {
+    const query = new URLSearchParams({
+      languageCode: voice.languageCode,
+      speakingRate: String(voice.speakingRate),
+      pitch: String(voice.pitch),
+      ssml: String(voice.ssml),
+      ...(voice.name && { name: voice.name }),
     });
+    setVoicePreviewURL(`/api/voices/preview?${query}`);
+  }
+
+  /**
+   * Follows the progress events of the job until it succeeds, fails or is cancelled,
+   * updating the stage timeline and the generated assets on every event.
+   */
+  function followJob(jobId: string): Promise<Job> {
+    return api.watchJob(jobId, (currentJob) => {
+      setJob(currentJob);
+      setData({
+        scriptURL: currentJob.stages.script.url || '',
+        voiceoverURL: currentJob.stages.voiceover.url || '',
+        videoURL: currentJob.stages.video.url || '',
+        reelURL: currentJob.stages.merge.url || '',
+        captionsURL: currentJob.stages.captions.url || '',
+      });
+    });
+  }
+
+  /**
+   * Uploads the image of a scene to "/api/uploads", which validates it and crops or pads it to the 9:16 frame.
+   * @returns The URL of the normalised image.
+   */
+  async function uploadImage(scene: SceneDraft): Promise<string> {
+    if (!scene.file) {
+      return scene.uploadedURL || '';
+    }
+    const fileName = scene.file.name;
+    const form = new FormData();
+    form.append('image', scene.file);
+    form.append('fit', scene.fit);
+    form.append('focalX', String(scene.focalPoint.x));
+    form.append('focalY', String(scene.focalPoint.y));
+
+    try {
+      const { url } = await api.uploadImage(form);
+      return url;
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw new ApiError(
+          error.code,
+          `${fileName}: ${error.message}`,
+          error.status
+        );
+      }
+      throw error;
+    }
   }
 
   //------------------------------------VIEW------------------------------------------//
@@ -171,7 +455,7 @@ export default function Create() {
             htmlFor="file-upload"
             className="block text-sm font-medium text-gray-700 mb-2"
           >
-            Upload Image (PNG or JPG)
+            Upload Images (PNG or JPG), one per scene, in order
           </label>
           <span className="block text-sm font-medium text-gray-700 mb-2">
             DO NOT USE COPYRIGHTED IMAGES OTHERWISE VIDEO GENERATION WILL FAIL
@@ -206,34 +490,305 @@ export default function Create() {
               <input
                 id="file-upload"
                 type="file"
-                accept=".png, .jpg"
+                accept=".png, .jpg, .jpeg"
+                multiple
                 className="hidden"
                 onChange={(e) => {
-                  const file = e.target.files?.[0];
-                  if (file) {
-                    setSelectedImage(file);
-                  }
+                  addScenes(e.target.files);
+                  e.target.value = '';
                 }}
               />
             </label>
           </div>
         </div>
-        {/* Preview Selected File */}
-        {selectedImage && (
+        {/* Voice Settings */}
+        <div className="mt-6 grid grid-cols-2 gap-4">
+          <div>
+            <label
+              htmlFor="language"
+              className="block text-sm font-medium text-gray-700 mb-1"
+            >
+              Language
+            </label>
+            <select
+              id="language"
+              value={voice.languageCode}
+              onChange={(e) =>
+                setVoice({
+                  ...voice,
+                  languageCode: e.target.value,
+                  name: undefined,
+                })
+              }
+              className="block w-full rounded-md border border-gray-300 bg-white py-2 px-3 shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500 sm:text-sm"
+            >
+              {LANGUAGES.map((language) => (
+                <option key={language.code} value={language.code}>
+                  {language.name} ({language.code})
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label
+              htmlFor="voice"
+              className="block text-sm font-medium text-gray-700 mb-1"
+            >
+              Voice
+            </label>
+            <select
+              id="voice"
+              value={voice.name || ''}
+              onChange={(e) =>
+                setVoice({ ...voice, name: e.target.value || undefined })
+              }
+              className="block w-full rounded-md border border-gray-300 bg-white py-2 px-3 shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500 sm:text-sm"
+            >
+              <option value="">Default</option>
+              {VOICES.filter(
+                (option) => option.languageCode === voice.languageCode
+              ).map((option) => (
+                <option key={option.name} value={option.name}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label
+              htmlFor="speaking-rate"
+              className="block text-sm font-medium text-gray-700 mb-1"
+            >
+              Speaking Rate ({voice.speakingRate.toFixed(2)}x)
+            </label>
+            <input
+              id="speaking-rate"
+              type="range"
+              min={SPEAKING_RATE_RANGE.min}
+              max={2}
+              step={0.05}
+              value={voice.speakingRate}
+              onChange={(e) =>
+                setVoice({ ...voice, speakingRate: Number(e.target.value) })
+              }
+              className="w-full"
+            />
+          </div>
+          <div>
+            <label
+              htmlFor="pitch"
+              className="block text-sm font-medium text-gray-700 mb-1"
+            >
+              Pitch ({voice.pitch})
+            </label>
+            <input
+              id="pitch"
+              type="range"
+              min={PITCH_RANGE.min}
+              max={PITCH_RANGE.max}
+              step={1}
+              value={voice.pitch}
+              onChange={(e) =>
+                setVoice({ ...voice, pitch: Number(e.target.value) })
+              }
+              className="w-full"
+            />
+          </div>
+        </div>
+        <div className="mt-4 flex items-center justify-between">
+          <div className="flex items-center">
+            <input
+              id="ssml"
+              type="checkbox"
+              checked={voice.ssml}
+              onChange={(e) => setVoice({ ...voice, ssml: e.target.checked })}
+              className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            <label htmlFor="ssml" className="ml-2 text-sm text-gray-700">
+              SSML mode (pauses and word-timed captions)
+            </label>
+          </div>
+          <button
+            type="button"
+            onClick={previewVoice}
+            className="text-sm font-medium text-indigo-600 hover:underline"
+          >
+            Preview
+          </button>
+        </div>
+        {voicePreviewURL && (
+          <audio
+            key={voicePreviewURL}
+            src={voicePreviewURL}
+            controls
+            autoPlay
+            className="mt-2 w-full"
+          />
+        )}
+        {/* Background Music */}
+        <div className="mt-4">
+          <label
+            htmlFor="music"
+            className="block text-sm font-medium text-gray-700 mb-1"
+          >
+            Background Music
+          </label>
+          <select
+            id="music"
+            value={musicTrack}
+            onChange={(e) => setMusicTrack(e.target.value)}
+            className="block w-full rounded-md border border-gray-300 bg-white py-2 px-3 shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-indigo-500 sm:text-sm"
+          >
+            <option value="">
+              Sport default (
+              {musicLibrary.defaults[selectedSport] || 'no default track'})
+            </option>
+            <option value="none">No music</option>
+            {musicLibrary.tracks.map((track) => (
+              <option key={track} value={track}>
+                {track}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="mt-4 flex items-center">
+          <input
+            id="burn-captions"
+            type="checkbox"
+            checked={burnCaptions}
+            onChange={(e) => setBurnCaptions(e.target.checked)}
+            className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+          />
+          <label htmlFor="burn-captions" className="ml-2 text-sm text-gray-700">
+            Burn captions into the video
+          </label>
+        </div>
+        <div className="mt-2 flex items-center">
+          <input
+            id="force-regenerate"
+            type="checkbox"
+            checked={forceRegenerate}
+            onChange={(e) => setForceRegenerate(e.target.checked)}
+            className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+          />
+          <label
+            htmlFor="force-regenerate"
+            className="ml-2 text-sm text-gray-700"
+          >
+            Force regenerate (ignore cached script, voiceover and clips)
+          </label>
+        </div>
+        {/* Preview Selected Scenes */}
+        {scenes.length > 0 && (
           <div className="mt-6">
             <h3 className="text-sm font-medium text-gray-700 mb-2">
-              Selected File
+              Scenes ({scenes.length}/{MAX_SCENES})
             </h3>
-            <div className="flex items-center justify-center border border-gray-300 rounded-lg p-4 bg-gray-50">
-              <img
-                src={URL.createObjectURL(selectedImage)}
-                alt="Selected Preview"
-                className="max-w-full max-h-48 object-contain"
-              />
-            </div>
-            <p className="mt-2 text-xs text-gray-500 text-center">
-              {selectedImage.name} ({(selectedImage.size / 1024).toFixed(2)} KB)
-            </p>
+            <ol className="space-y-3">
+              {scenes.map((scene, index) => (
+                <li
+                  key={`${scene.previewURL}-${index}`}
+                  className="flex items-start gap-3 border border-gray-300 rounded-lg p-3 bg-gray-50"
+                >
+                  {/* Focal point picker: click the image to choose what stays in frame */}
+                  <div
+                    onClick={(e) => scene.file && pickFocalPoint(index, e)}
+                    className={`relative w-28 ${
+                      scene.file && scene.fit === 'crop'
+                        ? 'cursor-crosshair'
+                        : ''
+                    }`}
+                  >
+                    <img
+                      src={scene.previewURL}
+                      alt={`Scene ${index + 1}`}
+                      className="w-full rounded"
+                    />
+                    {scene.file && scene.fit === 'crop' && (
+                      <span
+                        className="absolute w-3 h-3 -ml-1.5 -mt-1.5 rounded-full border-2 border-white bg-indigo-600 pointer-events-none"
+                        style={{
+                          left: `${scene.focalPoint.x * 100}%`,
+                          top: `${scene.focalPoint.y * 100}%`,
+                        }}
+                      />
+                    )}
+                  </div>
+                  {/* Preview of the 9:16 frame */}
+                  <img
+                    src={scene.previewURL}
+                    alt={`Scene ${index + 1} framed`}
+                    className={`w-16 h-28 rounded bg-black ${
+                      scene.fit === 'crop' ? 'object-cover' : 'object-contain'
+                    }`}
+                    style={
+                      scene.fit === 'crop'
+                        ? {
+                            objectPosition: `${scene.focalPoint.x * 100}% ${scene.focalPoint.y * 100}%`,
+                          }
+                        : undefined
+                    }
+                  />
+                  <div className="flex-1">
+                    <p className="text-xs text-gray-500">
+                      {index + 1}.{' '}
+                      {scene.file
+                        ? `${scene.file.name} (${(scene.file.size / 1024).toFixed(2)} KB)`
+                        : 'Already uploaded'}
+                    </p>
+                    <input
+                      type="text"
+                      value={scene.prompt}
+                      placeholder={DEFAULT_SCENE_PROMPT}
+                      onChange={(e) =>
+                        updateScene(index, { prompt: e.target.value })
+                      }
+                      className="mt-1 block w-full rounded-md border border-gray-300 bg-white py-1 px-2 text-sm"
+                    />
+                    <div className="mt-1 flex gap-3 text-xs">
+                      <button
+                        type="button"
+                        disabled={index === 0}
+                        onClick={() => moveScene(index, -1)}
+                        className="text-indigo-600 disabled:text-gray-400"
+                      >
+                        Up
+                      </button>
+                      <button
+                        type="button"
+                        disabled={index === scenes.length - 1}
+                        onClick={() => moveScene(index, 1)}
+                        className="text-indigo-600 disabled:text-gray-400"
+                      >
+                        Down
+                      </button>
+                      {scene.file && (
+                        <button
+                          type="button"
+                          onClick={() =>
+                            updateScene(index, {
+                              fit: scene.fit === 'crop' ? 'pad' : 'crop',
+                            })
+                          }
+                          className="text-indigo-600"
+                        >
+                          {scene.fit === 'crop'
+                            ? 'Pad instead'
+                            : 'Crop instead'}
+                        </button>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => removeScene(index)}
+                        className="text-red-600"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ol>
           </div>
         )}
         <button
@@ -272,8 +827,90 @@ export default function Create() {
             'Generate'
           )}
         </button>
+        {loading &&
+          job &&
+          (job.status === 'queued' || job.status === 'running') && (
+            <button
+              type="button"
+              onClick={cancelGeneration}
+              className="mt-2 w-full text-sm font-medium text-red-600 hover:underline"
+            >
+              Cancel
+            </button>
+          )}
+        {errorMessage && (
+          <p
+            role="alert"
+            className="mt-4 rounded-md border border-red-300 bg-red-50 p-3 text-sm text-red-700"
+          >
+            {errorMessage}
+          </p>
+        )}
+        {job?.status === 'succeeded' && (
+          <p className="mt-4 rounded-md border border-green-300 bg-green-50 p-3 text-sm text-green-700">
+            Your reel is ready. It will appear in the feed once a reviewer has
+            approved it.
+          </p>
+        )}
+        {/* Job Progress: a timeline of the stages, updated as the events arrive */}
+        {job && (
+          <ol className="mt-6 border border-gray-300 rounded-lg p-4 text-sm">
+            {(Object.keys(STAGE_LABELS) as StageName[]).map((stage) => {
+              const state = job.stages[stage];
+              return (
+                <li
+                  key={stage}
+                  className="relative flex flex-wrap justify-between border-l-2 border-gray-200 pl-4 pb-3 last:pb-0"
+                >
+                  <span
+                    className={`absolute -left-[7px] top-1 h-3 w-3 rounded-full ${
+                      STAGE_DOT_CLASSES[state.status]
+                    } ${state.status === 'running' ? 'animate-pulse' : ''}`}
+                  />
+                  <span className="font-medium text-gray-700">
+                    {STAGE_LABELS[stage]}
+                  </span>
+                  <span
+                    className={
+                      state.status === 'failed'
+                        ? 'text-red-600'
+                        : state.status === 'succeeded'
+                          ? 'text-green-600'
+                          : 'text-gray-500'
+                    }
+                  >
+                    {state.status}
+                    {state.startedAt && state.finishedAt
+                      ? ` in ${formatStageDuration(state.startedAt, state.finishedAt)}`
+                      : ''}
+                  </span>
+                  {state.status === 'running' &&
+                    state.progress !== undefined && (
+                      <div className="basis-full mt-1 h-1.5 rounded bg-gray-200">
+                        <div
+                          className="h-1.5 rounded bg-indigo-600 transition-all"
+                          style={{ width: `${state.progress * 100}%` }}
+                        />
+                      </div>
+                    )}
+                  {state.errorCode && (
+                    <span
+                      className="basis-full text-xs text-red-600"
+                      title={state.error}
+                    >
+                      {ERROR_MESSAGES[state.errorCode]}
+                    </span>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        )}
         {/* Generated Assets */}
-        {data.scriptURL || data.voiceoverURL || data.videoURL ? (
+        {data.scriptURL ||
+        data.voiceoverURL ||
+        data.videoURL ||
+        data.reelURL ? (
           <div className="mt-6 flex justify-center items-center flex-wrap">
             <div className="flex justify-center items-center flex-wrap border border-gray-300 p-4">
               <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -316,6 +953,29 @@ export default function Create() {
                 'Video'
               )}
             </div>
+
+            <div className="flex justify-center items-center flex-wrap border border-gray-300 p-4">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Reel
+              </label>
+              {data.reelURL ? (
+                <video controls className="w-full h-auto">
+                  <source src={data.reelURL} type="video/mp4" />
+                  {data.captionsURL && !job?.input.burnCaptions && (
+                    <track
+                      kind="captions"
+                      src={data.captionsURL}
+                      srcLang={job?.input.voice.languageCode}
+                      label="Captions"
+                      default
+                    />
+                  )}
+                  Your browser does not support the video tag.
+                </video>
+              ) : (
+                'Reel'
+              )}
+            </div>
           </div>
         ) : null}
 
@@ -336,8 +996,8 @@ export default function Create() {
             </li>
             <li>
               <p>
-                Next step is to merge these assets using AWS Elemental
-                MediaConvert cloud service.
+                The voiceover and the video are merged into the final reel using
+                ffmpeg.
               </p>
             </li>
             <li>
@@ -354,9 +1014,21 @@ export default function Create() {
               </p>
             </li>
           </ul>
+          <a
+            href="/history"
+            className="mt-6 w-full text-center text-sm font-medium text-indigo-600 hover:underline"
+          >
+            Generation history
+          </a>
+          <a
+            href="/batch"
+            className="mt-2 w-full text-center text-sm font-medium text-indigo-600 hover:underline"
+          >
+            Batch generation
+          </a>
           <a
             href="/"
-            className="mt-6 w-full bg-red-600 text-white font-medium py-2 px-4 rounded-md shadow-md text-center hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 sm:text-sm"
+            className="mt-2 w-full bg-red-600 text-white font-medium py-2 px-4 rounded-md shadow-md text-center hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 sm:text-sm"
           >
             Home
           </a>
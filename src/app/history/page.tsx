@@ -0,0 +1,318 @@
+// The generation history page: every job created from the "Create" page, newest first.
+// Jobs are fetched page by page from "/api/jobs" through the typed API client ("src/lib/api.ts");
+// the "Load more" button appends the next page while there is one.
+// Each job shows its sport, inputs (scene images and prompts, voice, music, captions), status,
+// when it was created and how long it took in total and per stage, and previews of the assets it produced
+// (the script, the voiceover and the finished reel, once a reviewer has approved it). Failed jobs show the user-readable message for their error code.
+// The actions of a job are:
+// - "Re-run": starts a new generation with the same inputs. A job that succeeded is re-run with "forceRegenerate",
+//   since its inputs would otherwise just return the same job.
+// - "Duplicate & edit": opens "/create?from=<job id>" with the form prefilled from the job.
+// - "Delete": removes the job, its reel and the stored assets no other job uses, after a confirmation.
+//   Queued and running jobs cannot be deleted. Deleting requires the `ADMIN_TOKEN`, asked for once and kept in
+//   session storage (shared with "/admin/review").
+// Tailwind CSS is used for styling, matching the "Create" page.
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { Job, JobStage, StageName } from '@/lib/jobs';
+import {
+  api,
+  ApiError,
+  ERROR_MESSAGES,
+  toGenerateVideoRequest,
+} from '@/lib/api';
+
+const TOKEN_STORAGE_KEY = 'adminToken';
+
+const STAGE_LABELS: Record<StageName, string> = {
+  script: 'Script',
+  voiceover: 'Voice Over',
+  captions: 'Captions',
+  video: 'Video',
+  merge: 'Reel',
+};
+
+const STATUS_CLASSES: Record<Job['status'], string> = {
+  queued: 'text-gray-500',
+  running: 'text-indigo-600',
+  succeeded: 'text-green-600',
+  failed: 'text-red-600',
+  cancelled: 'text-gray-500',
+};
+
+/**
+ * Formats the time between two ISO timestamps, e.g. "1m 05s".
+ */
+function formatDuration(start?: string, end?: string): string {
+  if (!start || !end) return '-';
+  const seconds = Math.round(
+    (new Date(end).getTime() - new Date(start).getTime()) / 1000
+  );
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s`;
+}
+
+function stageDuration(stage: JobStage): string {
+  return formatDuration(stage.startedAt, stage.finishedAt);
+}
+
+export default function History() {
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  // The id of the job an action is running for, to disable its buttons.
+  const [busyJobId, setBusyJobId] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadJobs(null);
+  }, []);
+
+  /**
+   * Loads a page of jobs. Without a cursor the list is replaced by the first page, otherwise the page is appended.
+   */
+  async function loadJobs(cursor: string | null) {
+    try {
+      setLoading(true);
+      const page = await api.listJobs(cursor);
+      setJobs((loaded) => (cursor ? [...loaded, ...page.jobs] : page.jobs));
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Failed to load the generation history:', error);
+      setErrorMessage(describeError(error));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function rerunJob(job: Job) {
+    try {
+      setBusyJobId(job.id);
+      setErrorMessage(null);
+      await api.generateVideo(
+        toGenerateVideoRequest(job.input, job.status === 'succeeded'),
+        crypto.randomUUID()
+      );
+      await loadJobs(null);
+    } catch (error) {
+      console.error('Failed to re-run the job:', error);
+      setErrorMessage(describeError(error));
+    } finally {
+      setBusyJobId(null);
+    }
+  }
+
+  async function deleteJob(job: Job) {
+    if (
+      !window.confirm(
+        'Delete this generation and its files? This cannot be undone.'
+      )
+    ) {
+      return;
+    }
+    const token =
+      sessionStorage.getItem(TOKEN_STORAGE_KEY) ||
+      window.prompt('Enter the admin token (ADMIN_TOKEN) to delete jobs');
+    if (!token) {
+      return;
+    }
+    try {
+      setBusyJobId(job.id);
+      setErrorMessage(null);
+      await api.deleteJob(job.id, token);
+      sessionStorage.setItem(TOKEN_STORAGE_KEY, token);
+      setJobs((loaded) => loaded.filter((other) => other.id !== job.id));
+    } catch (error) {
+      console.error('Failed to delete the job:', error);
+      // A rejected token is forgotten, so it is asked for again.
+      if (error instanceof ApiError && error.code === 'UNAUTHORIZED') {
+        sessionStorage.removeItem(TOKEN_STORAGE_KEY);
+      }
+      setErrorMessage(describeError(error));
+    } finally {
+      setBusyJobId(null);
+    }
+  }
+
+  //------------------------------------VIEW------------------------------------------//
+
+  return (
+    <div className="max-w-screen-md mx-auto p-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-bold text-gray-800">Generation History</h2>
+        <a
+          href="/create"
+          className="text-sm font-medium text-indigo-600 hover:underline"
+        >
+          New generation
+        </a>
+      </div>
+      {errorMessage && (
+        <p
+          role="alert"
+          className="mt-4 rounded-md border border-red-300 bg-red-50 p-3 text-sm text-red-700"
+        >
+          {errorMessage}
+        </p>
+      )}
+      {!loading && jobs.length === 0 && (
+        <p className="mt-6 text-sm text-gray-600">No generations yet.</p>
+      )}
+      <ul className="mt-6 space-y-4">
+        {jobs.map((job) => {
+          const busy = busyJobId === job.id;
+          const finished = job.status !== 'queued' && job.status !== 'running';
+          return (
+            <li
+              key={job.id}
+              className="border border-gray-300 rounded-lg p-4 shadow-sm"
+            >
+              <div className="flex flex-wrap items-baseline justify-between gap-2">
+                <h3 className="font-semibold text-gray-800 capitalize">
+                  {job.input.sports}
+                </h3>
+                <span
+                  className={`text-sm font-medium ${STATUS_CLASSES[job.status]}`}
+                >
+                  {job.status}
+                </span>
+              </div>
+              <p className="text-xs text-gray-500">
+                {new Date(job.createdAt).toLocaleString()} · took{' '}
+                {formatDuration(job.createdAt, job.finishedAt)}
+              </p>
+              {job.errorCode && (
+                <p className="mt-1 text-sm text-red-600" title={job.error}>
+                  {ERROR_MESSAGES[job.errorCode]}
+                </p>
+              )}
+
+              {/* Inputs */}
+              <div className="mt-3 flex gap-2 overflow-x-auto">
+                {job.input.scenes.map((scene, index) => (
+                  <img
+                    key={index}
+                    src={scene.photo}
+                    alt={`Scene ${index + 1}`}
+                    title={scene.prompt}
+                    className="w-12 h-20 rounded object-cover bg-black"
+                  />
+                ))}
+              </div>
+              <dl className="mt-2 grid grid-cols-2 gap-x-4 text-xs text-gray-600">
+                <dt className="font-medium">Voice</dt>
+                <dd>
+                  {job.input.voice.name || 'Default'} (
+                  {job.input.voice.languageCode}, {job.input.voice.speakingRate}
+                  x)
+                </dd>
+                <dt className="font-medium">Music</dt>
+                <dd>{job.input.musicTrack || 'None'}</dd>
+                <dt className="font-medium">Captions</dt>
+                <dd>{job.input.burnCaptions ? 'Burned in' : 'Sidecar'}</dd>
+              </dl>
+
+              {/* Stage timings */}
+              <ul className="mt-2 flex flex-wrap gap-x-4 text-xs">
+                {(Object.keys(STAGE_LABELS) as StageName[]).map((stage) => (
+                  <li
+                    key={stage}
+                    className={STATUS_CLASSES[job.stages[stage].status]}
+                  >
+                    {STAGE_LABELS[stage]}: {stageDuration(job.stages[stage])}
+                  </li>
+                ))}
+              </ul>
+
+              {/* Asset previews */}
+              <div className="mt-3 flex flex-wrap items-start gap-4">
+                {job.status === 'succeeded' && !job.stages.merge.url && (
+                  <p className="text-sm text-gray-500">
+                    The reel is shown here once a reviewer approves it.
+                  </p>
+                )}
+                {job.stages.merge.url && (
+                  <video
+                    controls
+                    preload="metadata"
+                    className="w-32 rounded bg-black"
+                  >
+                    <source src={job.stages.merge.url} type="video/mp4" />
+                  </video>
+                )}
+                <div className="flex flex-col gap-2 text-sm">
+                  {job.stages.script.url && (
+                    <a
+                      href={job.stages.script.url}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="text-indigo-600 hover:underline"
+                    >
+                      Script
+                    </a>
+                  )}
+                  {job.stages.voiceover.url && (
+                    <audio controls preload="none" className="w-56">
+                      <source
+                        src={job.stages.voiceover.url}
+                        type="audio/mpeg"
+                      />
+                    </audio>
+                  )}
+                </div>
+              </div>
+
+              {/* Actions */}
+              <div className="mt-3 flex gap-4 text-sm">
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() => rerunJob(job)}
+                  className="font-medium text-indigo-600 hover:underline disabled:text-gray-400"
+                >
+                  Re-run
+                </button>
+                <a
+                  href={`/create?from=${job.id}`}
+                  className="font-medium text-indigo-600 hover:underline"
+                >
+                  Duplicate &amp; edit
+                </a>
+                <button
+                  type="button"
+                  disabled={busy || !finished}
+                  title={finished ? undefined : 'Cancel the job first'}
+                  onClick={() => deleteJob(job)}
+                  className="font-medium text-red-600 hover:underline disabled:text-gray-400"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+      {nextCursor && (
+        <button
+          type="button"
+          disabled={loading}
+          onClick={() => loadJobs(nextCursor)}
+          className="mt-6 w-full rounded-md border border-gray-300 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-70"
+        >
+          {loading ? 'Loading...' : 'Load more'}
+        </button>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Returns the message to show for a failed request.
+ */
+function describeError(error: unknown): string {
+  return error instanceof ApiError
+    ? error.userMessage
+    : ERROR_MESSAGES.INTERNAL_ERROR;
+}
@@ -1,5 +1,6 @@
 import type { Metadata } from 'next';
 import { Geist, Geist_Mono } from 'next/font/google';
+import { siteUrl } from '@/lib/site';
 import './globals.css';
 
 const geistSans = Geist({
@@ -13,7 +14,11 @@ const geistMono = Geist_Mono({
 });
 
 export const metadata: Metadata = {
-  title: 'Essentially Sports Assignment',
+  metadataBase: siteUrl,
+  title: {
+    default: 'Essentially Sports Assignment',
+    template: '%s | Essentially Sports',
+  },
   description: 'By Sehban Alam',
 };
 
@@ -0,0 +1,96 @@
+// The page of a single reel: the reels feed, opened on that reel.
+// Its metadata describes the reel so shared links unfurl as a playable video:
+// the title and description come from the script, `og:video` points at the reel MP4 with the poster
+// frame as `og:image`, and the Twitter player card embeds `/reel/[id]/player`.
+// Unknown reels return a 404 page.
+
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import ReelsFeed from '@/components/ReelsFeed';
+import { getReel, PublicReel, toPublicReel } from '@/lib/reels';
+import { absoluteUrl } from '@/lib/site';
+
+// Reels are rendered at 768x1280.
+const REEL_WIDTH = 768;
+const REEL_HEIGHT = 1280;
+
+// Longest description used when falling back to the script.
+const MAX_DESCRIPTION_LENGTH = 200;
+
+interface ReelPageProps {
+  params: Promise<{ id: string }>;
+}
+
+export async function generateMetadata({
+  params,
+}: ReelPageProps): Promise<Metadata> {
+  const { id } = await params;
+  const stored = await getReel(id);
+  if (!stored) {
+    return {};
+  }
+  const reel = await toPublicReel(stored);
+
+  const description = getDescription(reel);
+  const videoURL = absoluteUrl(reel.reelURL);
+  const posterURL = reel.posterURL ? absoluteUrl(reel.posterURL) : undefined;
+
+  return {
+    title: reel.title,
+    description,
+    openGraph: {
+      type: 'video.other',
+      url: `/reel/${reel.id}`,
+      title: reel.title,
+      description,
+      videos: [
+        {
+          url: videoURL,
+          secureUrl: videoURL.startsWith('https:') ? videoURL : undefined,
+          type: 'video/mp4',
+          width: REEL_WIDTH,
+          height: REEL_HEIGHT,
+        },
+      ],
+      images: posterURL
+        ? [{ url: posterURL, width: REEL_WIDTH, height: REEL_HEIGHT }]
+        : undefined,
+    },
+    twitter: {
+      card: 'player',
+      title: reel.title,
+      description,
+      images: posterURL ? [posterURL] : undefined,
+      players: {
+        playerUrl: absoluteUrl(`/reel/${reel.id}/player`),
+        streamUrl: videoURL,
+        width: REEL_WIDTH,
+        height: REEL_HEIGHT,
+      },
+    },
+  };
+}
+
+export default async function ReelPage({ params }: ReelPageProps) {
+  const { id } = await params;
+  const reel = await getReel(id);
+  if (!reel) {
+    notFound();
+  }
+
+  return <ReelsFeed startReelId={reel.id} />;
+}
+
+/**
+ * Returns the description of a reel, falling back to the start of its script.
+ */
+function getDescription(reel: PublicReel): string {
+  if (reel.description) {
+    return reel.description;
+  }
+  const script = reel.script.replace(/\s+/g, ' ').trim();
+  if (script.length <= MAX_DESCRIPTION_LENGTH) {
+    return script;
+  }
+  return `${script.slice(0, MAX_DESCRIPTION_LENGTH - 1).trimEnd()}…`;
+}
@@ -0,0 +1,45 @@
+// A bare video player for a single reel, embedded by the Twitter player card of `/reel/[id]`.
+// It streams the reel's HLS renditions where it has them (see `AdaptiveVideo`). Unknown reels return a 404 page.
+
+import { notFound } from 'next/navigation';
+import { getReel, toPublicReel } from '@/lib/reels';
+import AdaptiveVideo from '@/components/AdaptiveVideo';
+
+export default async function ReelPlayer({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+  const stored = await getReel(id);
+  if (!stored) {
+    notFound();
+  }
+  const reel = await toPublicReel(stored);
+
+  return (
+    <div className="h-screen flex items-center justify-center bg-black">
+      <AdaptiveVideo
+        src={reel.reelURL}
+        hlsSrc={reel.hlsURL}
+        poster={reel.posterURL || undefined}
+        controls
+        autoPlay
+        muted
+        loop
+        playsInline
+        className="w-full h-full object-contain"
+      >
+        {reel.captionsVTTURL && !reel.captionsBurnedIn && (
+          <track
+            kind="captions"
+            src={reel.captionsVTTURL}
+            srcLang={reel.language}
+            label="Captions"
+            default
+          />
+        )}
+      </AdaptiveVideo>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+// This file defines the `AdaptiveVideo` component, a `video` element that streams a reel's HLS renditions
+// (see `src/lib/hls.ts`) and adapts the bitrate to the viewer's connection.
+// It is used by the feed (`ReelsFeed`) and by the bare player page (`/reel/[id]/player`).
+//
+// Key Features:
+// 1. **Adaptive Playback**:
+//    - Where Media Source Extensions are available, the master playlist (`hlsSrc`) is played through `hls.js`,
+//      with the rendition capped to the size of the player.
+//    - Browsers without them that play HLS natively (older iOS) are given the playlist as the video source.
+//    - Reels without renditions, browsers that support neither, and streams that fail play the MP4 (`src`) instead.
+//
+// 2. **Loading**:
+//    - With `hls.js`, segments are only fetched once the video starts playing or `preload` is (or becomes) `auto`,
+//      so the feed can preload the next reel without downloading the others.
+//    - The poster is shown until the first frame is ready.
+//
+// All other props (`loop`, `muted`, `className`, caption `track` children, ...) are passed on to the `video` element,
+// and `ref` receives it, so callers can play and pause it.
+'use client';
+
+import React, { useEffect, useImperativeHandle, useRef } from 'react';
+import Hls from 'hls.js';
+
+const HLS_MIME_TYPE = 'application/vnd.apple.mpegurl';
+
+type AdaptiveVideoProps = Omit<
+  React.VideoHTMLAttributes<HTMLVideoElement>,
+  'src'
+> & {
+  // The MP4 of the reel, played when adaptive playback is unavailable.
+  src: string;
+  // The HLS master playlist of the reel, if it has one.
+  hlsSrc?: string;
+  ref?: React.Ref<HTMLVideoElement>;
+};
+
+export default function AdaptiveVideo({
+  src,
+  hlsSrc,
+  ref,
+  preload,
+  children,
+  ...props
+}: AdaptiveVideoProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  // Starts fetching the segments through `hls.js`; a no-op when it is not in use or already loading.
+  const startLoadRef = useRef<(() => void) | null>(null);
+  const preloadRef = useRef(preload);
+  preloadRef.current = preload;
+  useImperativeHandle(ref, () => videoRef.current!, []);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    if (!hlsSrc || !Hls.isSupported()) {
+      video.src = hlsSrc && video.canPlayType(HLS_MIME_TYPE) ? hlsSrc : src;
+      return;
+    }
+
+    const hls = new Hls({ autoStartLoad: false, capLevelToPlayerSize: true });
+    let loading = false;
+    const startLoad = () => {
+      if (loading) return;
+      loading = true;
+      hls.startLoad();
+    };
+    startLoadRef.current = startLoad;
+    video.addEventListener('play', startLoad);
+    hls.on(Hls.Events.ERROR, (_event, data) => {
+      if (!data.fatal) return;
+      console.error('Adaptive playback failed, playing the MP4:', data);
+      const playing = !video.paused;
+      startLoadRef.current = null;
+      video.removeEventListener('play', startLoad);
+      hls.destroy();
+      video.src = src;
+      if (playing) {
+        video.play().catch((error) => console.error('Playback failed:', error));
+      }
+    });
+    hls.loadSource(hlsSrc);
+    hls.attachMedia(video);
+    if (preloadRef.current === 'auto') {
+      startLoad();
+    }
+
+    return () => {
+      startLoadRef.current = null;
+      video.removeEventListener('play', startLoad);
+      hls.destroy();
+    };
+  }, [src, hlsSrc]);
+
+  // Raising `preload` to `auto` (e.g. for the next reel of the feed) starts fetching without recreating the player.
+  useEffect(() => {
+    if (preload === 'auto') {
+      startLoadRef.current?.();
+    }
+  }, [preload]);
+
+  return (
+    <video ref={videoRef} preload={preload} {...props}>
+      {children}
+    </video>
+  );
+}
@@ -0,0 +1,709 @@
+// This file defines the `ReelsFeed` component, which is a React functional component
+// responsible for rendering a vertical scrolling interface of video reels.
+// It is rendered by the home page (`/`) and by the per-reel page (`/reel/[id]`), which passes `startReelId`
+// so the feed opens on that reel.
+// The component uses React hooks (`useState`, `useEffect`, `useLayoutEffect`, `useRef`, and `useCallback`)
+// to manage state, handle video playback, and implement smooth scrolling behavior.
+//
+// Key Features:
+// 1. **Video Reels**:
+//    - Reels are fetched page by page from the `/api/get-reels` catalog through the typed API client (`src/lib/api.ts`), starting at `startReelId` when it is given.
+//    - The `reels` state holds the reels loaded so far, and `nextCursor` the cursor of the next page (null on the last page).
+//    - Every reel gets a full-screen slot, but the feed is windowed: only the current reel and its neighbours
+//      (`MOUNTED_NEIGHBOURS`) mount a video, the others show their poster. The next reel is preloaded.
+//    - Each video is an `AdaptiveVideo`, which streams the reel's HLS renditions where it has them
+//      (falling back to the MP4) and shows the poster until the video is ready.
+//    - Since the feed starts muted, the reel's WebVTT captions are rendered as a `<track>` (unless they are burned into the video).
+//
+// 2. **Video Playback**:
+//    - The `videoRefs` array stores references to the mounted video elements, allowing programmatic control of playback.
+//    - An `IntersectionObserver` on the slots sets `currentIndex` to the reel that fills most of the screen.
+//      That reel plays and every other one pauses.
+//    - The playback position of every reel is kept in `playbackTimes`, so a reel scrolled back to resumes where the
+//      viewer left it.
+//    - When the feed unmounts or the page is hidden (e.g. on the way to `/create`), the loaded reels, the current
+//      reel and the playback positions are saved in session storage. Coming back within `FEED_STATE_MAX_AGE_MS`
+//      restores them, so the feed reopens where the viewer was.
+//
+// 3. **Infinite Scrolling**:
+//    - When the user nears the end of the loaded reels, the next page is fetched with `loadMoreReels` and appended.
+//    - Only once the whole catalog is loaded is a last, empty slot added after the last video. Scrolling onto it
+//      loops back to the first reel by scrolling back to the top smoothly.
+//
+// 4. **Overlay Buttons**:
+//    - Each video has a set of overlay buttons at the bottom, including:
+//      - **Like**: Likes or unlikes the reel and shows its like count.
+//      - **Comment**: Opens a slide-up drawer listing the reel's comments, with a form to post one.
+//      - **Share**: Shares the link of the reel's page (`/reel/[id]`) through the Web Share API,
+//        or copies it where that is unavailable.
+//      - **Sound**: Toggles the mute/unmute state of the video.
+//      - **Add**: A button that links to the `/create` page for adding new content.
+//    - These buttons are styled using Tailwind CSS and include hover effects.
+//    - Likes, comments and shares are applied optimistically and rolled back if the request fails.
+//      The viewer is identified by an anonymous id kept in local storage (`getViewerId`).
+//
+// 5. **View Analytics**:
+//    - A view tracker (`src/lib/viewEvents.ts`) turns the playback of each reel into view events: an impression when
+//      it becomes the current reel, its first play, pauses, unmutes, the 25/50/75% milestones, completion and loops.
+//    - The events are sent to `/api/analytics/events` in batches, and once more when the viewer leaves the feed.
+//
+// 6. **Scrolling Behavior**:
+//    - The `snap-y` and `touch-pan-y` classes enable smooth snapping behavior for vertical scrolling.
+//
+// 7. **Responsive Design**:
+//    - The layout is designed to be responsive, with videos filling the screen (`h-screen`) and maintaining aspect ratio (`object-cover`).
+//    - The overlay buttons are positioned absolutely at the bottom of each video.
+//
+// Overall, this component provides a smooth and interactive user experience for browsing video reels,
+// with features like autoplay, infinite looping, and interactive controls.
+'use client';
+
+import React, {
+  useState,
+  useEffect,
+  useLayoutEffect,
+  useRef,
+  useCallback,
+} from 'react';
+import type { Comment, EngagementCounts } from '@/lib/engagement';
+import { api, FeedReel } from '@/lib/api';
+import { createViewTracker, ViewTracker } from '@/lib/viewEvents';
+import AdaptiveVideo from '@/components/AdaptiveVideo';
+
+// Fetch the next page once the viewer is this many reels away from the end of the feed.
+const PREFETCH_THRESHOLD = 2;
+
+// Reels this many positions away from the current one keep their video mounted.
+const MOUNTED_NEIGHBOURS = 1;
+
+// How much of a slot must be on screen for its reel to become the current one.
+const ACTIVE_THRESHOLD = 0.6;
+
+const VIEWER_ID_KEY = 'viewerId';
+
+const FEED_STATE_KEY = 'feedState';
+
+// A saved feed older than this is not restored, so the viewer eventually sees new reels and fresh counts.
+const FEED_STATE_MAX_AGE_MS = 30 * 60 * 1000;
+
+// How long the "Link copied" notice stays on screen.
+const NOTICE_DURATION_MS = 2000;
+
+/**
+ * Returns the anonymous id of this viewer, creating it on the first visit.
+ */
+function getViewerId(): string {
+  let viewerId = localStorage.getItem(VIEWER_ID_KEY);
+  if (!viewerId) {
+    viewerId = crypto.randomUUID();
+    localStorage.setItem(VIEWER_ID_KEY, viewerId);
+  }
+  return viewerId;
+}
+
+// What the feed saves in session storage to reopen where the viewer left it.
+interface SavedFeedState {
+  startReelId: string | null;
+  reels: FeedReel[];
+  nextCursor: string | null;
+  currentIndex: number;
+  playbackTimes: Record<string, number>;
+  savedAt: number;
+}
+
+/**
+ * Returns the saved state of the feed opened on `startReelId`, or null when there is none or it is too old.
+ */
+function readFeedState(startReelId: string | null): SavedFeedState | null {
+  try {
+    const saved: SavedFeedState | null = JSON.parse(
+      sessionStorage.getItem(FEED_STATE_KEY) || 'null'
+    );
+    return saved &&
+      saved.startReelId === startReelId &&
+      Date.now() - saved.savedAt < FEED_STATE_MAX_AGE_MS &&
+      saved.reels.length > saved.currentIndex
+      ? saved
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Plays a video from the given position, seeking once its metadata has loaded when it has not yet.
+ */
+function playFrom(video: HTMLVideoElement, time: number) {
+  if (time > 0) {
+    if (video.readyState >= HTMLMediaElement.HAVE_METADATA) {
+      video.currentTime = time;
+    } else {
+      video.addEventListener(
+        'loadedmetadata',
+        () => {
+          video.currentTime = time;
+        },
+        { once: true }
+      );
+    }
+  }
+  video.play().catch((error) => console.error('Playback failed:', error));
+}
+
+interface ReelsFeedProps {
+  // The id of the reel the feed opens on; the newest reel when omitted.
+  startReelId?: string;
+}
+
+export default function ReelsFeed({ startReelId }: ReelsFeedProps) {
+  const [reels, setReels] = useState<FeedReel[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const videoRefs = useRef<(HTMLVideoElement | null)[]>([]);
+  const slotRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const endSlotRef = useRef<HTMLDivElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const loadingMoreRef = useRef(false);
+  // The position each reel was left at, by reel id.
+  const playbackTimes = useRef<Record<string, number>>({});
+  // The slot to scroll to once restored reels are rendered.
+  const restoreIndexRef = useRef<number | null>(null);
+  const trackerRef = useRef<ViewTracker | null>(null);
+  // The latest feed state, for saving it when the feed unmounts.
+  const feedStateRef = useRef({ reels, nextCursor, currentIndex });
+  feedStateRef.current = { reels, nextCursor, currentIndex };
+  // The reel whose comment drawer is open, and its comments once loaded.
+  const [commentReelId, setCommentReelId] = useState<string | null>(null);
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [commentText, setCommentText] = useState('');
+  const [notice, setNotice] = useState<string | null>(null);
+  const commentReel = reels.find((reel) => reel.id === commentReelId) || null;
+
+  /**
+   * Fetches a page of reels from the catalog and appends it to the feed.
+   * @param cursor - The cursor of the page to fetch, or null for the first page.
+   */
+  const loadMoreReels = useCallback(
+    async (cursor: string | null) => {
+      if (loadingMoreRef.current) return;
+      loadingMoreRef.current = true;
+      try {
+        const page = await api.getReels({
+          viewerId: getViewerId(),
+          ...(cursor ? { cursor } : { start: startReelId }),
+        });
+        setReels((current) =>
+          cursor ? [...current, ...page.reels] : page.reels
+        );
+        setNextCursor(page.nextCursor);
+      } catch (error) {
+        console.error('Failed to load reels:', error);
+      } finally {
+        loadingMoreRef.current = false;
+      }
+    },
+    [startReelId]
+  );
+
+  // Reopens the feed where the viewer left it, or loads the first page.
+  useEffect(() => {
+    const saved = readFeedState(startReelId ?? null);
+    if (!saved) {
+      loadMoreReels(null);
+      return;
+    }
+    playbackTimes.current = saved.playbackTimes;
+    restoreIndexRef.current = saved.currentIndex;
+    setReels(saved.reels);
+    setNextCursor(saved.nextCursor);
+    setCurrentIndex(saved.currentIndex);
+  }, [startReelId, loadMoreReels]);
+
+  useLayoutEffect(() => {
+    const index = restoreIndexRef.current;
+    if (index === null || !containerRef.current || index >= reels.length) {
+      return;
+    }
+    restoreIndexRef.current = null;
+    containerRef.current.scrollTop = index * containerRef.current.offsetHeight;
+  }, [reels.length]);
+
+  // Saves the feed for when the viewer comes back, both on client-side navigation and when the page is left.
+  useEffect(() => {
+    const saveFeedState = () => {
+      const { reels, nextCursor, currentIndex } = feedStateRef.current;
+      if (reels.length === 0) return;
+      const state: SavedFeedState = {
+        startReelId: startReelId ?? null,
+        reels,
+        nextCursor,
+        currentIndex,
+        playbackTimes: playbackTimes.current,
+        savedAt: Date.now(),
+      };
+      try {
+        sessionStorage.setItem(FEED_STATE_KEY, JSON.stringify(state));
+      } catch (error) {
+        console.error('Failed to save the feed position:', error);
+      }
+    };
+    window.addEventListener('pagehide', saveFeedState);
+    return () => {
+      window.removeEventListener('pagehide', saveFeedState);
+      saveFeedState();
+    };
+  }, [startReelId]);
+
+  // Makes the reel that fills most of the screen the current one, and loops back to the top from the end slot.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        for (const entry of entries) {
+          if (!entry.isIntersecting) continue;
+          if (entry.target === endSlotRef.current) {
+            container.scrollTo({ top: 0, behavior: 'smooth' });
+          } else {
+            setCurrentIndex(
+              Number((entry.target as HTMLElement).dataset.index)
+            );
+          }
+        }
+      },
+      { root: container, threshold: ACTIVE_THRESHOLD }
+    );
+    for (const slot of [...slotRefs.current, endSlotRef.current]) {
+      if (slot) observer.observe(slot);
+    }
+    return () => observer.disconnect();
+  }, [reels.length, nextCursor]);
+
+  useEffect(() => {
+    const tracker = createViewTracker();
+    trackerRef.current = tracker;
+    const leave = () => tracker.flush(true);
+    window.addEventListener('pagehide', leave);
+    return () => {
+      window.removeEventListener('pagehide', leave);
+      trackerRef.current = null;
+      tracker.stop();
+    };
+  }, []);
+
+  const currentReelId = reels[currentIndex]?.id;
+  useEffect(() => {
+    if (currentReelId) {
+      trackerRef.current?.impression(currentReelId);
+    }
+  }, [currentReelId]);
+
+  // Plays the current reel from where it was left, and pauses the others.
+  useEffect(() => {
+    videoRefs.current.forEach((video, index) => {
+      if (video && index !== currentIndex) {
+        video.pause();
+      }
+    });
+    const video = videoRefs.current[currentIndex];
+    if (video && reels[currentIndex]) {
+      playFrom(video, playbackTimes.current[reels[currentIndex].id] || 0);
+    }
+  }, [currentIndex, reels.length]);
+
+  useEffect(() => {
+    if (nextCursor && currentIndex >= reels.length - PREFETCH_THRESHOLD) {
+      loadMoreReels(nextCursor);
+    }
+  }, [currentIndex, reels.length, nextCursor, loadMoreReels]);
+
+  /**
+   * Applies a change to the engagement counts of a reel in the feed.
+   */
+  const updateEngagement = useCallback(
+    (
+      reelId: string,
+      update: (engagement: EngagementCounts) => EngagementCounts
+    ) => {
+      setReels((current) =>
+        current.map((reel) =>
+          reel.id === reelId
+            ? { ...reel, engagement: update(reel.engagement) }
+            : reel
+        )
+      );
+    },
+    []
+  );
+
+  /**
+   * Likes or unlikes a reel. The count changes straight away and is rolled back if the request fails.
+   */
+  const toggleLike = async (reel: FeedReel) => {
+    const previous = reel.engagement;
+    const liked = !previous.liked;
+    updateEngagement(reel.id, (engagement) => ({
+      ...engagement,
+      liked,
+      likes: engagement.likes + (liked ? 1 : -1),
+    }));
+    try {
+      const { engagement } = await api.setLiked(reel.id, getViewerId(), liked);
+      updateEngagement(reel.id, () => engagement);
+    } catch (error) {
+      console.error('Failed to update like:', error);
+      updateEngagement(reel.id, () => previous);
+    }
+  };
+
+  /**
+   * Opens the comment drawer of a reel and loads its comments.
+   */
+  const openComments = async (reel: FeedReel) => {
+    setCommentReelId(reel.id);
+    setComments([]);
+    try {
+      const { comments } = await api.listComments(reel.id);
+      setComments(comments);
+    } catch (error) {
+      console.error('Failed to load comments:', error);
+    }
+  };
+
+  /**
+   * Posts a comment on the reel whose drawer is open. The comment is shown straight away
+   * and removed again if the request fails.
+   */
+  const postComment = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const text = commentText.trim();
+    if (!commentReel || !text) return;
+
+    const reelId = commentReel.id;
+    const pending: Comment = {
+      id: `pending-${Date.now()}`,
+      author: 'You',
+      text,
+      createdAt: new Date().toISOString(),
+    };
+    setCommentText('');
+    setComments((current) => [...current, pending]);
+    updateEngagement(reelId, (engagement) => ({
+      ...engagement,
+      comments: engagement.comments + 1,
+    }));
+    try {
+      const { comment: stored } = await api.addComment(reelId, { text });
+      setComments((current) =>
+        current.map((comment) => (comment.id === pending.id ? stored : comment))
+      );
+    } catch (error) {
+      console.error('Failed to post comment:', error);
+      setComments((current) =>
+        current.filter((comment) => comment.id !== pending.id)
+      );
+      updateEngagement(reelId, (engagement) => ({
+        ...engagement,
+        comments: engagement.comments - 1,
+      }));
+      setCommentText(text);
+    }
+  };
+
+  /**
+   * Shares a reel through the Web Share API, or copies its link when the API is unavailable,
+   * then records the share.
+   */
+  const shareReel = async (reel: FeedReel) => {
+    const url = new URL(`/reel/${reel.id}`, window.location.origin).toString();
+    try {
+      if (navigator.share) {
+        await navigator.share({ title: reel.title, url });
+      } else {
+        await navigator.clipboard.writeText(url);
+        setNotice('Link copied');
+        setTimeout(() => setNotice(null), NOTICE_DURATION_MS);
+      }
+    } catch (error) {
+      // The viewer closed the share sheet, or the clipboard is unavailable.
+      console.error('Failed to share reel:', error);
+      return;
+    }
+
+    const previous = reel.engagement;
+    updateEngagement(reel.id, (engagement) => ({
+      ...engagement,
+      shares: engagement.shares + 1,
+    }));
+    try {
+      const { engagement } = await api.shareReel(reel.id, getViewerId());
+      updateEngagement(reel.id, () => engagement);
+    } catch (error) {
+      console.error('Failed to record share:', error);
+      updateEngagement(reel.id, () => previous);
+    }
+  };
+
+  return (
+    <>
+      <div
+        ref={containerRef}
+        className="h-screen overflow-y-scroll snap-y touch-pan-y"
+      >
+        {reels.map((reel, index) => (
+          <div
+            key={reel.id}
+            ref={(el) => {
+              slotRefs.current[index] = el;
+            }}
+            data-index={index}
+            className="relative h-screen snap-start flex items-center justify-center bg-black"
+          >
+            {Math.abs(index - currentIndex) > MOUNTED_NEIGHBOURS ? (
+              reel.posterURL && (
+                <img
+                  src={reel.posterURL}
+                  alt=""
+                  className="w-full h-full object-cover"
+                />
+              )
+            ) : (
+              <AdaptiveVideo
+                ref={(el) => {
+                  videoRefs.current[index] = el;
+                }}
+                src={reel.reelURL}
+                hlsSrc={reel.hlsURL}
+                poster={reel.posterURL || undefined}
+                preload={
+                  index === currentIndex || index === currentIndex + 1
+                    ? 'auto'
+                    : 'metadata'
+                }
+                loop
+                muted
+                playsInline
+                onPlay={() => trackerRef.current?.play(reel.id)}
+                onPause={() => trackerRef.current?.pause(reel.id)}
+                onEnded={() => trackerRef.current?.ended(reel.id)}
+                onVolumeChange={(event) => {
+                  if (!event.currentTarget.muted) {
+                    trackerRef.current?.unmute(reel.id);
+                  }
+                }}
+                onTimeUpdate={(event) => {
+                  const { currentTime, duration } = event.currentTarget;
+                  // Loading a new source also resets the position to 0, which is not worth keeping.
+                  if (currentTime > 0) {
+                    playbackTimes.current[reel.id] = currentTime;
+                    trackerRef.current?.progress(
+                      reel.id,
+                      currentTime,
+                      duration
+                    );
+                  }
+                }}
+                className="w-full h-full object-cover"
+              >
+                {reel.captionsVTTURL && !reel.captionsBurnedIn && (
+                  <track
+                    kind="captions"
+                    src={reel.captionsVTTURL}
+                    srcLang={reel.language}
+                    label="Captions"
+                    default
+                  />
+                )}
+              </AdaptiveVideo>
+            )}
+            {/* Title and hashtags */}
+            {reel.title && (
+              <div className="absolute bottom-32 left-4 right-4 text-white drop-shadow">
+                <p className="font-semibold">{reel.title}</p>
+                {reel.hashtags?.length > 0 && (
+                  <p className="text-sm text-gray-200">
+                    {reel.hashtags.join(' ')}
+                  </p>
+                )}
+              </div>
+            )}
+            {/* Overlay Icons */}
+            <div className="absolute bottom-10 left-0 right-0 flex justify-center space-x-6">
+              <button
+                onClick={() => toggleLike(reel)}
+                className={`flex flex-col items-center hover:text-gray-300 ${
+                  reel.engagement?.liked ? 'text-red-500' : 'text-white'
+                }`}
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  fill={reel.engagement?.liked ? 'currentColor' : 'none'}
+                  viewBox="0 0 24 24"
+                  strokeWidth={2}
+                  stroke="currentColor"
+                  className="w-8 h-8"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    d="M14 9V5a3 3 0 00-3-3l-3 9v11a2 2 0 002 2h7.5a2.5 2.5 0 002.45-3.05l-1.38-6.9A2.5 2.5 0 0016.12 9H14z"
+                  />
+                </svg>
+                <span className="text-sm">{reel.engagement?.likes ?? 0}</span>
+              </button>
+              <button
+                onClick={() => openComments(reel)}
+                className="flex flex-col items-center text-white hover:text-gray-300"
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                  strokeWidth={2}
+                  stroke="currentColor"
+                  className="w-8 h-8"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    d="M8 10h.01M12 10h.01M16 10h.01M9 16h6m-7 4h8a2 2 0 002-2V6a2 2 0 00-2-2H7a2 2 0 00-2 2v12a2 2 0 002 2z"
+                  />
+                </svg>
+                <span className="text-sm">
+                  {reel.engagement?.comments ?? 0}
+                </span>
+              </button>
+              <button
+                onClick={() => shareReel(reel)}
+                className="flex flex-col items-center text-white hover:text-gray-300"
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                  strokeWidth={2}
+                  stroke="currentColor"
+                  className="w-8 h-8"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    d="M4 12v.01M12 4v.01M20 12v.01M12 20v.01M8 8l8-4m0 16l-8-4m0-8v8m8-8v8"
+                  />
+                </svg>
+                <span className="text-sm">{reel.engagement?.shares ?? 0}</span>
+              </button>
+              {/* Mute/Unmute Button */}
+              <button
+                onClick={() => {
+                  const video = videoRefs.current[index];
+                  if (video) {
+                    video.muted = !video.muted;
+                  }
+                }}
+                className="flex flex-col items-center text-white hover:text-gray-300"
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                  strokeWidth={2}
+                  stroke="currentColor"
+                  className="w-8 h-8"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    d="M11 5.882L6.825 9H4a1 1 0 00-1 1v4a1 1 0 001 1h2.825L11 18.118A1 1 0 0012 17.236V6.764a1 1 0 00-1-1.882zM16.5 8.5a5.5 5.5 0 010 7m2-9a8.5 8.5 0 010 11"
+                  />
+                </svg>
+                <span className="text-sm">Sound</span>
+              </button>
+              <a
+                href="/create"
+                className="flex flex-col items-center text-white hover:text-gray-300"
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                  strokeWidth={2}
+                  stroke="currentColor"
+                  className="w-8 h-8"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    d="M12 4v16m8-8H4"
+                  />
+                </svg>
+                <span className="text-sm">Add</span>
+              </a>
+            </div>
+          </div>
+        ))}
+        {/* Scrolling onto the end slot loops back to the first reel, once the whole catalog is loaded. */}
+        {reels.length > 0 && !nextCursor && (
+          <div ref={endSlotRef} className="h-screen snap-start bg-black" />
+        )}
+      </div>
+      {/* Comment Drawer */}
+      {commentReel && (
+        <div
+          className="fixed inset-0 bg-black/40"
+          onClick={() => setCommentReelId(null)}
+        />
+      )}
+      <div
+        className={`fixed inset-x-0 bottom-0 h-2/3 flex flex-col bg-white rounded-t-2xl transition-transform duration-300 ${
+          commentReel ? 'translate-y-0' : 'translate-y-full'
+        }`}
+      >
+        <div className="flex items-center justify-between p-4 border-b">
+          <h2 className="font-semibold">
+            {commentReel?.engagement?.comments ?? 0} comments
+          </h2>
+          <button
+            onClick={() => setCommentReelId(null)}
+            className="text-gray-500 hover:text-gray-700"
+          >
+            Close
+          </button>
+        </div>
+        <ul className="flex-1 overflow-y-auto p-4 space-y-3">
+          {comments.map((comment) => (
+            <li key={comment.id}>
+              <p className="text-sm font-semibold">{comment.author}</p>
+              <p className="text-sm">{comment.text}</p>
+            </li>
+          ))}
+          {comments.length === 0 && (
+            <li className="text-sm text-gray-500">No comments yet.</li>
+          )}
+        </ul>
+        <form onSubmit={postComment} className="flex gap-2 p-4 border-t">
+          <input
+            value={commentText}
+            onChange={(event) => setCommentText(event.target.value)}
+            placeholder="Add a comment"
+            maxLength={500}
+            className="flex-1 p-2 border rounded"
+          />
+          <button
+            type="submit"
+            disabled={!commentText.trim()}
+            className="px-4 py-2 bg-blue-600 text-white rounded disabled:opacity-50"
+          >
+            Post
+          </button>
+        </form>
+      </div>
+      {notice && (
+        <div className="fixed top-6 left-1/2 -translate-x-1/2 px-4 py-2 bg-black/80 text-white text-sm rounded">
+          {notice}
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,18 @@
+/**
+ * Runs once when the server starts. The configuration is validated here so that a missing or
+ * invalid setting stops the server with a clear message instead of failing the first request.
+ * Jobs a previous run of the server left unfinished are failed here as well, once nothing has
+ * touched them for a while (see `failOrphanedJobs`).
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { getConfig } = await import('./lib/config');
+    getConfig();
+
+    const { failOrphanedJobs } = await import('./lib/jobs');
+    const orphaned = await failOrphanedJobs();
+    if (orphaned.length > 0) {
+      console.warn(`Failed ${orphaned.length} orphaned job(s):`, orphaned);
+    }
+  }
+}
@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getAnalyticsReport, recordViewEvents } from './analytics';
+import { readCollection, updateCollection } from './localStore';
+import { listReelsForReview, Reel } from './reels';
+import type { ViewEvent } from './viewEvents';
+
+vi.mock('./localStore', () => ({
+  readCollection: vi.fn(),
+  updateCollection: vi.fn(),
+}));
+
+vi.mock('./reels', () => ({
+  listReelsForReview: vi.fn(),
+}));
+
+const REEL = {
+  id: 'reel-1',
+  title: 'Surfing',
+  sport: 'surfing',
+  createdAt: '2026-01-01T00:00:00.000Z',
+} as Reel;
+
+let collections: Record<string, unknown> = {};
+
+beforeEach(() => {
+  collections = {};
+  vi.mocked(readCollection).mockImplementation(
+    async (collection, fallback) => collections[collection] ?? fallback
+  );
+  vi.mocked(updateCollection).mockImplementation(
+    async (collection, fallback, mutate) => {
+      const current = structuredClone(collections[collection] ?? fallback);
+      collections[collection] = mutate(current) ?? current;
+      return collections[collection];
+    }
+  );
+  vi.mocked(listReelsForReview).mockResolvedValue([REEL]);
+});
+
+// One impression of the reel, played and paused `resumes` more times, and watched to its end or not.
+function impression(resumes: number, completed: boolean): ViewEvent[] {
+  const events: ViewEvent[] = [
+    { type: 'impression', reelId: REEL.id },
+    { type: 'play', reelId: REEL.id },
+    ...Array.from(
+      { length: resumes + 1 },
+      (): ViewEvent => ({
+        type: 'pause',
+        reelId: REEL.id,
+        watchedSeconds: 2,
+      })
+    ),
+  ];
+  return completed
+    ? [...events, { type: 'complete', reelId: REEL.id }]
+    : events;
+}
+
+describe('recordViewEvents', () => {
+  it('reports the completion rate as the share of plays that reached the end', async () => {
+    await recordViewEvents([
+      ...impression(3, true),
+      ...impression(0, false),
+      ...impression(1, false),
+      ...impression(0, true),
+    ]);
+
+    const { totals, reels } = await getAnalyticsReport(1);
+
+    expect(totals).toMatchObject({
+      impressions: 4,
+      plays: 4,
+      pauses: 8,
+      completions: 2,
+      playRate: 1,
+      completionRate: 0.5,
+      averageWatchSeconds: 4,
+    });
+    expect(reels[0].completionRate).toBe(0.5);
+  });
+
+  it('leaves out the events of reels that are not in the catalog', async () => {
+    const recorded = await recordViewEvents([
+      { type: 'impression', reelId: REEL.id },
+      { type: 'impression', reelId: 'made-up' },
+    ]);
+
+    expect(recorded).toBe(1);
+    expect(Object.keys(collections.analytics as object)).toEqual([REEL.id]);
+  });
+});
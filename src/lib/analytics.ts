@@ -0,0 +1,375 @@
+import { toCsv } from './csv';
+import { getEngagementCounts } from './engagement';
+import { readCollection, updateCollection } from './localStore';
+import { listReelsForReview } from './reels';
+import { PROGRESS_MILESTONES, VIEW_EVENT_TYPES, ViewEvent } from './viewEvents';
+
+/**
+ * Viewer analytics of the reels in the catalog: impressions, watch time and completion rate.
+ *
+ * The feed sends view events in batches (see `src/lib/viewEvents.ts`). Events are not kept one by one:
+ * each is added to the counters of its reel for the day (UTC) it arrived, in the `analytics` collection,
+ * so the store grows with reels and days rather than with views. Reports are aggregated from those
+ * counters per reel, per sport and per day, and joined with the catalog for titles and sports and with
+ * the like, comment and share counts (which are totals, not per day).
+ */
+
+export interface ViewCounts {
+  impressions: number;
+  plays: number;
+  pauses: number;
+  unmutes: number;
+  completions: number;
+  loops: number;
+  watchSeconds: number;
+  // How many plays got past 25%, 50% and 75% of the reel.
+  reached25: number;
+  reached50: number;
+  reached75: number;
+}
+
+export interface ViewMetrics extends ViewCounts {
+  // Share of impressions that were played, of plays that reached the end, and the mean watch time per play.
+  playRate: number;
+  completionRate: number;
+  averageWatchSeconds: number;
+}
+
+export interface EngagementTotals {
+  likes: number;
+  comments: number;
+  shares: number;
+  // Likes, comments and shares per impression.
+  engagementRate: number;
+}
+
+export interface ReelAnalytics extends ViewMetrics, EngagementTotals {
+  reelId: string;
+  title: string;
+  sport: string;
+  createdAt: string;
+}
+
+export interface SportAnalytics extends ViewMetrics, EngagementTotals {
+  sport: string;
+  reels: number;
+}
+
+export interface DailyAnalytics extends ViewMetrics {
+  // `YYYY-MM-DD`, UTC.
+  date: string;
+}
+
+export interface AnalyticsReport {
+  // The first and last day covered, inclusive.
+  from: string;
+  to: string;
+  totals: ViewMetrics & EngagementTotals;
+  // Reels and sports are sorted by watch time, most watched first.
+  reels: ReelAnalytics[];
+  sports: SportAnalytics[];
+  // Every day of the period, oldest first.
+  daily: DailyAnalytics[];
+}
+
+export type AnalyticsGroup = 'reel' | 'sport' | 'day';
+
+export const ANALYTICS_GROUPS: AnalyticsGroup[] = ['reel', 'sport', 'day'];
+
+type Engagement = Omit<EngagementTotals, 'engagementRate'>;
+
+interface SportTotals extends ViewCounts, Engagement {
+  reels: number;
+}
+
+// Reel id -> day -> counters.
+type AnalyticsStore = Record<string, Record<string, ViewCounts>>;
+
+const COLLECTION = 'analytics';
+
+export const MAX_EVENTS_PER_BATCH = 100;
+// The most watch time one event can report, so a misbehaving client cannot skew the totals.
+export const MAX_WATCHED_SECONDS = 300;
+export const DEFAULT_REPORT_DAYS = 30;
+export const MAX_REPORT_DAYS = 365;
+
+const REEL_ID_PATTERN = /^[\w-]{1,64}$/;
+
+const COUNTERS: Record<
+  Exclude<ViewEvent['type'], 'progress'>,
+  keyof ViewCounts
+> = {
+  impression: 'impressions',
+  play: 'plays',
+  pause: 'pauses',
+  unmute: 'unmutes',
+  complete: 'completions',
+  loop: 'loops',
+};
+
+function emptyCounts(): ViewCounts {
+  return {
+    impressions: 0,
+    plays: 0,
+    pauses: 0,
+    unmutes: 0,
+    completions: 0,
+    loops: 0,
+    watchSeconds: 0,
+    reached25: 0,
+    reached50: 0,
+    reached75: 0,
+  };
+}
+
+/**
+ * Validates a batch of view events.
+ */
+export function parseViewEvents(
+  body: unknown
+): ViewEvent[] | { error: string } {
+  const events =
+    body && typeof body === 'object' && 'events' in body
+      ? body.events
+      : undefined;
+  if (!Array.isArray(events) || events.length === 0) {
+    return { error: 'events must be a non-empty array' };
+  }
+  if (events.length > MAX_EVENTS_PER_BATCH) {
+    return {
+      error: `events must hold at most ${MAX_EVENTS_PER_BATCH} events`,
+    };
+  }
+
+  const parsed: ViewEvent[] = [];
+  for (const [index, item] of (events as unknown[]).entries()) {
+    const event: Record<string, unknown> =
+      item && typeof item === 'object' ? { ...item } : {};
+    const { reelId, percent, watchedSeconds } = event;
+    const type = VIEW_EVENT_TYPES.find((known) => known === event.type);
+    if (!type) {
+      return {
+        error: `events[${index}].type must be one of ${VIEW_EVENT_TYPES.join(', ')}`,
+      };
+    }
+    if (typeof reelId !== 'string' || !REEL_ID_PATTERN.test(reelId)) {
+      return { error: `events[${index}].reelId is invalid` };
+    }
+    if (
+      type === 'progress' &&
+      !(typeof percent === 'number' && PROGRESS_MILESTONES.includes(percent))
+    ) {
+      return {
+        error: `events[${index}].percent must be one of ${PROGRESS_MILESTONES.join(', ')}`,
+      };
+    }
+    if (
+      watchedSeconds !== undefined &&
+      !(
+        typeof watchedSeconds === 'number' &&
+        watchedSeconds >= 0 &&
+        watchedSeconds <= MAX_WATCHED_SECONDS
+      )
+    ) {
+      return {
+        error: `events[${index}].watchedSeconds must be between 0 and ${MAX_WATCHED_SECONDS}`,
+      };
+    }
+    parsed.push({
+      type,
+      reelId,
+      percent: type === 'progress' ? Number(percent) : undefined,
+      watchedSeconds,
+    });
+  }
+  return parsed;
+}
+
+/**
+ * Validates the `days` query parameter of a report, `DEFAULT_REPORT_DAYS` when it is missing.
+ */
+export function parseReportDays(
+  value: string | null
+): number | { error: string } {
+  const days = Number(value || DEFAULT_REPORT_DAYS);
+  if (!Number.isInteger(days) || days < 1 || days > MAX_REPORT_DAYS) {
+    return { error: `days must be between 1 and ${MAX_REPORT_DAYS}` };
+  }
+  return days;
+}
+
+/**
+ * Adds a batch of view events to the counters of today.
+ * Events of reels that are not in the catalog, or not approved, are left out, so made-up reel ids
+ * cannot add counters to the store.
+ * @returns How many events were recorded.
+ */
+export async function recordViewEvents(events: ViewEvent[]): Promise<number> {
+  const catalog = new Set(
+    (await listReelsForReview('approved')).map((reel) => reel.id)
+  );
+  const known = events.filter((event) => catalog.has(event.reelId));
+  if (known.length === 0) {
+    return 0;
+  }
+
+  const date = toDate(new Date());
+  await updateCollection<AnalyticsStore>(COLLECTION, {}, (store) => {
+    for (const event of known) {
+      const days = (store[event.reelId] ||= {});
+      const counts = (days[date] ||= emptyCounts());
+      if (event.type === 'progress') {
+        counts[`reached${event.percent}` as keyof ViewCounts]++;
+      } else {
+        counts[COUNTERS[event.type]]++;
+      }
+      counts.watchSeconds += event.watchedSeconds || 0;
+    }
+  });
+  return known.length;
+}
+
+/**
+ * Aggregates the counters of the last `days` days (today included) per reel, per sport and per day.
+ * Only reels that are in the catalog and approved are reported.
+ */
+export async function getAnalyticsReport(
+  days: number
+): Promise<AnalyticsReport> {
+  const dates = Array.from({ length: days }, (_, index) =>
+    toDate(new Date(Date.now() - (days - 1 - index) * 24 * 60 * 60 * 1000))
+  );
+  const store = await readCollection<AnalyticsStore>(COLLECTION, {});
+  const catalog = await listReelsForReview('approved');
+  const engagement = await getEngagementCounts(
+    catalog.map((reel) => reel.id),
+    null
+  );
+
+  const daily = new Map(dates.map((date) => [date, emptyCounts()]));
+  const sports = new Map<string, SportTotals>();
+  const reels: ReelAnalytics[] = [];
+
+  for (const reel of catalog) {
+    const counts = emptyCounts();
+    for (const date of dates) {
+      const day = store[reel.id]?.[date];
+      if (!day) continue;
+      addCounts(counts, day);
+      addCounts(daily.get(date)!, day);
+    }
+    const { likes, comments, shares } = engagement[reel.id];
+    reels.push({
+      reelId: reel.id,
+      title: reel.title,
+      sport: reel.sport,
+      createdAt: reel.createdAt,
+      ...toMetrics(counts),
+      ...toEngagementTotals({ likes, comments, shares }, counts.impressions),
+    });
+
+    let sport = sports.get(reel.sport);
+    if (!sport) {
+      sport = { ...emptyCounts(), likes: 0, comments: 0, shares: 0, reels: 0 };
+      sports.set(reel.sport, sport);
+    }
+    addCounts(sport, counts);
+    sport.likes += likes;
+    sport.comments += comments;
+    sport.shares += shares;
+    sport.reels++;
+  }
+
+  const totals = emptyCounts();
+  for (const counts of daily.values()) {
+    addCounts(totals, counts);
+  }
+
+  return {
+    from: dates[0],
+    to: dates[dates.length - 1],
+    totals: {
+      ...toMetrics(totals),
+      ...toEngagementTotals(
+        reels.reduce(
+          (sum, reel) => ({
+            likes: sum.likes + reel.likes,
+            comments: sum.comments + reel.comments,
+            shares: sum.shares + reel.shares,
+          }),
+          { likes: 0, comments: 0, shares: 0 }
+        ),
+        totals.impressions
+      ),
+    },
+    reels: reels.sort((a, b) => b.watchSeconds - a.watchSeconds),
+    sports: [...sports]
+      .map(([sport, { likes, comments, shares, reels, ...counts }]) => ({
+        sport,
+        reels,
+        ...toMetrics(counts),
+        ...toEngagementTotals({ likes, comments, shares }, counts.impressions),
+      }))
+      .sort((a, b) => b.watchSeconds - a.watchSeconds),
+    daily: [...daily].map(([date, counts]) => ({ date, ...toMetrics(counts) })),
+  };
+}
+
+/**
+ * Returns the rows of one group of a report as CSV, with a header row.
+ */
+export function toAnalyticsCsv(
+  report: AnalyticsReport,
+  group: AnalyticsGroup
+): string {
+  const rows: object[] =
+    group === 'reel'
+      ? report.reels
+      : group === 'sport'
+        ? report.sports
+        : report.daily;
+  if (rows.length === 0) {
+    return '';
+  }
+  return toCsv(rows, Object.keys(rows[0]));
+}
+
+function addCounts(target: ViewCounts, counts: ViewCounts) {
+  for (const key of Object.keys(emptyCounts()) as (keyof ViewCounts)[]) {
+    target[key] += counts[key];
+  }
+}
+
+function toMetrics(counts: ViewCounts): ViewMetrics {
+  return {
+    ...counts,
+    watchSeconds: round(counts.watchSeconds),
+    playRate: ratio(counts.plays, counts.impressions),
+    completionRate: ratio(counts.completions, counts.plays),
+    averageWatchSeconds: round(ratio(counts.watchSeconds, counts.plays)),
+  };
+}
+
+function toEngagementTotals(
+  { likes, comments, shares }: Engagement,
+  impressions: number
+): EngagementTotals {
+  return {
+    likes,
+    comments,
+    shares,
+    engagementRate: ratio(likes + comments + shares, impressions),
+  };
+}
+
+function ratio(part: number, whole: number): number {
+  return whole > 0 ? Math.round((part / whole) * 1000) / 1000 : 0;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function toDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
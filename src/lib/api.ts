@@ -0,0 +1,487 @@
+import type { AnalyticsGroup, AnalyticsReport } from './analytics';
+import type { BatchReport } from './batches';
+import type { Comment, EngagementCounts } from './engagement';
+import type { GenerationInput, Job, JobStage, StageName } from './jobs';
+import type { ManifestRow } from './manifest';
+import type { PublicReel, Reel, ReviewStatus } from './reels';
+import type { Scene } from './scenes';
+import type { SweepReport } from './tempAssets';
+import type { ViewEvent } from './viewEvents';
+import type { VoiceSettings } from './voices';
+
+/**
+ * The contract between the API routes and the pages that call them, shared by both sides:
+ * the request and response types of every JSON route, the error codes, and a typed client.
+ *
+ * Every route answers with the same envelope and a matching HTTP status:
+ * - success: `{ status, data: { success: true, ... }, errors: {} }`
+ * - failure: `{ status, data: {}, errors: { error, code } }`, where `error` describes the problem
+ *   for developers and `code` tells the client which user-readable message to show (`ERROR_MESSAGES`).
+ *
+ * This module only imports types, so it can be used in client components.
+ */
+
+export type ErrorCode =
+  // The request itself is invalid.
+  | 'INVALID_REQUEST'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'IDEMPOTENCY_KEY_CONFLICT'
+  | 'UNAUTHORIZED'
+  // A pipeline stage failed.
+  | 'SCRIPT_FAILED'
+  | 'TTS_FAILED'
+  | 'CAPTIONS_FAILED'
+  | 'VIDEO_FAILED'
+  | 'VIDEO_REJECTED_COPYRIGHT'
+  | 'VIDEO_REJECTED_CONTENT'
+  | 'MERGE_FAILED'
+  | 'STORAGE_FAILED'
+  | 'CANCELLED'
+  // Anything else.
+  | 'SERVICE_UNAVAILABLE'
+  | 'INTERNAL_ERROR';
+
+export const ERROR_MESSAGES: Record<ErrorCode, string> = {
+  INVALID_REQUEST: 'Some of the details you entered are not valid.',
+  NOT_FOUND: 'We could not find what you were looking for.',
+  CONFLICT: 'This can no longer be changed.',
+  IDEMPOTENCY_KEY_CONFLICT:
+    'This request was already sent with different details. Please try again.',
+  UNAUTHORIZED: 'You are not allowed to do this.',
+  SCRIPT_FAILED:
+    'We could not write a script for this reel. Please try again in a moment.',
+  TTS_FAILED:
+    'We could not record the voiceover. Try another voice or try again in a moment.',
+  CAPTIONS_FAILED: 'We could not create the captions for this reel.',
+  VIDEO_FAILED:
+    'We could not turn your images into video. Please try again in a moment.',
+  VIDEO_REJECTED_COPYRIGHT:
+    'The video service rejected one of your images because it may contain copyrighted material. Please use images you own.',
+  VIDEO_REJECTED_CONTENT:
+    'The video service rejected one of your images or prompts under its content policy. Please change them and try again.',
+  MERGE_FAILED: 'We could not put the finished reel together.',
+  STORAGE_FAILED:
+    'We could not save the generated files. Please try again in a moment.',
+  CANCELLED: 'The generation was cancelled.',
+  SERVICE_UNAVAILABLE:
+    'The service is not available right now. Please try again later.',
+  INTERNAL_ERROR: 'Something went wrong on our side. Please try again.',
+};
+
+export interface ApiErrorBody {
+  error: string;
+  code: ErrorCode;
+}
+
+export interface ApiSuccess<T> {
+  status: number;
+  data: { success: true } & T;
+  errors: Record<string, never>;
+}
+
+export interface ApiFailure {
+  status: number;
+  data: Record<string, never>;
+  errors: ApiErrorBody;
+}
+
+export type ApiResponse<T> = ApiSuccess<T> | ApiFailure;
+
+//------------------------------------SCHEMAS------------------------------------//
+
+// `POST /api/generate-video`
+export interface GenerateVideoRequest {
+  sports: string;
+  scenes: Scene[];
+  burnCaptions?: boolean;
+  voice?: Partial<VoiceSettings>;
+  // A track file name, `none`, or omitted for the sport's default track.
+  music?: string;
+  forceRegenerate?: boolean;
+}
+
+/**
+ * Returns the request that generates a reel from the same inputs as an earlier job.
+ */
+export function toGenerateVideoRequest(
+  input: GenerationInput,
+  forceRegenerate: boolean
+): GenerateVideoRequest {
+  return {
+    sports: input.sports,
+    scenes: input.scenes,
+    burnCaptions: input.burnCaptions,
+    voice: input.voice,
+    music: input.musicTrack ?? 'none',
+    forceRegenerate,
+  };
+}
+
+export interface GenerateVideoResponse {
+  jobId: string;
+  // Whether an existing job with the same input was returned instead of a new one.
+  reused: boolean;
+}
+
+// `POST /api/batches` (also accepts a CSV manifest)
+export interface CreateBatchRequest {
+  rows: ManifestRow[];
+}
+
+// `POST /api/batches` and `GET /api/batches/[id]`
+export interface BatchResponse {
+  batch: BatchReport;
+}
+
+// `GET /api/jobs/[id]` and `POST /api/jobs/[id]/cancel`
+export interface JobResponse {
+  job: Job;
+}
+
+// `GET /api/jobs/[id]/events`, a stream of Server-Sent Events named after their `type`.
+// The stream starts with a `job` event carrying the whole job; a `stage` event follows every change to a stage
+// (it starts, reports progress, stores its asset or finishes) and a `job` event every change to the job status.
+// The stream ends once the job has finished, or with a `deleted` event when the job is deleted while it is watched.
+export type JobEvent =
+  | { type: 'job'; job: Job }
+  | { type: 'stage'; stage: StageName; state: JobStage }
+  | { type: 'deleted' };
+
+// `GET /api/jobs`
+export interface JobsResponse {
+  jobs: Job[];
+  nextCursor: string | null;
+}
+
+// `DELETE /api/jobs/[id]`
+export interface DeleteJobResponse {
+  // How many stored files were removed with the job.
+  deletedAssets: number;
+}
+
+// `POST /api/uploads`
+export interface UploadResponse {
+  url: string;
+  width: number;
+  height: number;
+}
+
+// `GET /api/music`
+export interface MusicResponse {
+  tracks: string[];
+  defaults: Record<string, string>;
+}
+
+// `GET /api/admin/reviews`
+export interface ReviewQueueResponse {
+  reels: Reel[];
+}
+
+// `POST /api/admin/reviews/[id]`
+export type ReviewDecision = 'approve' | 'reject' | 'regenerate';
+
+export interface ReviewRequest {
+  decision: ReviewDecision;
+  // Required to reject; optional when requesting regeneration.
+  reason?: string;
+  // With `regenerate`: the job started from the inputs of the reel (see `toGenerateVideoRequest`).
+  regenerationJobId?: string;
+}
+
+export interface ReviewResponse {
+  reel: Reel;
+}
+
+// `POST /api/maintenance/sweep-temp`
+export interface SweepTempResponse {
+  report: SweepReport;
+}
+
+// `POST /api/analytics/events`
+export interface ViewEventsRequest {
+  events: ViewEvent[];
+}
+
+export interface ViewEventsResponse {
+  // How many events were recorded: those of reels in the catalog.
+  recorded: number;
+}
+
+// `GET /api/analytics`
+export interface AnalyticsResponse {
+  report: AnalyticsReport;
+}
+
+// `GET /api/get-reels`
+export type FeedReel = PublicReel & { engagement: EngagementCounts };
+
+export interface GetReelsQuery {
+  cursor?: string | null;
+  limit?: number;
+  start?: string;
+  viewerId?: string;
+}
+
+export interface GetReelsResponse {
+  reels: FeedReel[];
+  nextCursor: string | null;
+}
+
+// `POST`/`DELETE /api/reels/[id]/like` and `POST /api/reels/[id]/share`
+export interface EngagementResponse {
+  engagement: EngagementCounts;
+}
+
+// `GET /api/reels/[id]/comments`
+export interface CommentsResponse {
+  comments: Comment[];
+}
+
+// `POST /api/reels/[id]/comments`
+export interface AddCommentRequest {
+  text: string;
+  author?: string;
+}
+
+export interface CommentResponse {
+  comment: Comment;
+}
+
+//------------------------------------CLIENT------------------------------------//
+
+/**
+ * A failed API call, carrying the error code of the response.
+ */
+export class ApiError extends Error {
+  constructor(
+    public code: ErrorCode,
+    message: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+
+  // The message to show to the user.
+  get userMessage(): string {
+    return ERROR_MESSAGES[this.code];
+  }
+}
+
+/**
+ * Calls a JSON route and unwraps its envelope.
+ * @returns A promise that resolves with the `data` of a successful response.
+ * @throws {ApiError} When the route answers with an error, or the request or its response could not be read.
+ */
+export async function apiRequest<T>(
+  path: string,
+  init: RequestInit = {}
+): Promise<ApiSuccess<T>['data']> {
+  let response: Response;
+  let body: ApiResponse<T>;
+  try {
+    response = await fetch(path, init);
+    body = await response.json();
+  } catch (error) {
+    throw new ApiError(
+      'SERVICE_UNAVAILABLE',
+      error instanceof Error ? error.message : String(error),
+      0
+    );
+  }
+  if (!response.ok || 'code' in body.errors) {
+    const { error, code } = (body as ApiFailure).errors;
+    throw new ApiError(
+      code || 'INTERNAL_ERROR',
+      error || response.statusText,
+      response.status
+    );
+  }
+  return (body as ApiSuccess<T>).data;
+}
+
+/**
+ * Follows the progress of a job through its event stream, calling `onUpdate` with the job after every event.
+ * The browser reconnects on its own when the stream drops, and the new stream starts with the whole job again.
+ * @returns A promise that resolves with the job once it has succeeded, failed or been cancelled.
+ * @throws {ApiError} When the stream cannot be opened (e.g. the job does not exist).
+ */
+function watchJob(id: string, onUpdate: (job: Job) => void): Promise<Job> {
+  return new Promise((resolve, reject) => {
+    const source = new EventSource(`/api/jobs/${id}/events`);
+    let job: Job | null = null;
+
+    const update = (next: Job) => {
+      job = next;
+      onUpdate(next);
+      if (['succeeded', 'failed', 'cancelled'].includes(next.status)) {
+        source.close();
+        resolve(next);
+      }
+    };
+
+    source.addEventListener('job', (message) => {
+      update((JSON.parse(message.data) as JobEvent & { type: 'job' }).job);
+    });
+    source.addEventListener('stage', (message) => {
+      const { stage, state } = JSON.parse(message.data) as JobEvent & {
+        type: 'stage';
+      };
+      if (job) update({ ...job, stages: { ...job.stages, [stage]: state } });
+    });
+    source.addEventListener('deleted', () => {
+      source.close();
+      reject(new ApiError('NOT_FOUND', 'The job was deleted', 404));
+    });
+    source.addEventListener('error', () => {
+      if (source.readyState === EventSource.CLOSED) {
+        reject(
+          new ApiError(
+            'SERVICE_UNAVAILABLE',
+            'The progress stream of the job could not be opened',
+            0
+          )
+        );
+      }
+    });
+  });
+}
+
+/**
+ * Downloads one group of the analytics report as a CSV file (`GET /api/analytics/export`).
+ * @throws {ApiError} When the route answers with an error.
+ */
+async function exportAnalytics(
+  group: AnalyticsGroup,
+  days: number,
+  token: string
+): Promise<Blob> {
+  const response = await fetch(
+    `/api/analytics/export?${new URLSearchParams({ group, days: String(days) })}`,
+    { headers: bearer(token) }
+  ).catch((error) => {
+    throw new ApiError('SERVICE_UNAVAILABLE', String(error), 0);
+  });
+  if (!response.ok) {
+    const body: ApiFailure | null = await response.json().catch(() => null);
+    throw new ApiError(
+      body?.errors.code || 'INTERNAL_ERROR',
+      body?.errors.error || response.statusText,
+      response.status
+    );
+  }
+  return response.blob();
+}
+
+function bearer(token: string) {
+  return { Authorization: `Bearer ${token}` };
+}
+
+function postJSON(body: unknown, headers: Record<string, string> = {}) {
+  return {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  };
+}
+
+export const api = {
+  generateVideo: (request: GenerateVideoRequest, idempotencyKey?: string) =>
+    apiRequest<GenerateVideoResponse>(
+      '/api/generate-video',
+      postJSON(
+        request,
+        idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {}
+      )
+    ),
+
+  getJob: (id: string) => apiRequest<JobResponse>(`/api/jobs/${id}`),
+
+  watchJob,
+
+  listJobs: (cursor?: string | null) =>
+    apiRequest<JobsResponse>(
+      `/api/jobs?${new URLSearchParams(cursor ? { cursor } : {})}`
+    ),
+
+  deleteJob: (id: string, token: string) =>
+    apiRequest<DeleteJobResponse>(`/api/jobs/${id}`, {
+      method: 'DELETE',
+      headers: bearer(token),
+    }),
+
+  cancelJob: (id: string) =>
+    apiRequest<JobResponse>(`/api/jobs/${id}/cancel`, { method: 'POST' }),
+
+  createBatch: (request: CreateBatchRequest, concurrency: number) =>
+    apiRequest<BatchResponse>(
+      `/api/batches?${new URLSearchParams({ concurrency: String(concurrency) })}`,
+      postJSON(request)
+    ),
+
+  getBatch: (id: string) => apiRequest<BatchResponse>(`/api/batches/${id}`),
+
+  uploadImage: (form: FormData) =>
+    apiRequest<UploadResponse>('/api/uploads', { method: 'POST', body: form }),
+
+  listMusic: () => apiRequest<MusicResponse>('/api/music'),
+
+  getReels: ({ cursor, limit, start, viewerId }: GetReelsQuery) => {
+    const query = new URLSearchParams({
+      ...(cursor && { cursor }),
+      ...(limit && { limit: String(limit) }),
+      ...(start && { start }),
+      ...(viewerId && { viewerId }),
+    });
+    return apiRequest<GetReelsResponse>(`/api/get-reels?${query}`);
+  },
+
+  setLiked: (reelId: string, viewerId: string, liked: boolean) =>
+    apiRequest<EngagementResponse>(`/api/reels/${reelId}/like`, {
+      ...postJSON({ viewerId }),
+      method: liked ? 'POST' : 'DELETE',
+    }),
+
+  listComments: (reelId: string) =>
+    apiRequest<CommentsResponse>(`/api/reels/${reelId}/comments`),
+
+  addComment: (reelId: string, comment: AddCommentRequest) =>
+    apiRequest<CommentResponse>(
+      `/api/reels/${reelId}/comments`,
+      postJSON(comment)
+    ),
+
+  listReviewQueue: (status: ReviewStatus, token: string) =>
+    apiRequest<ReviewQueueResponse>(
+      `/api/admin/reviews?${new URLSearchParams({ status })}`,
+      { headers: bearer(token) }
+    ),
+
+  reviewReel: (reelId: string, review: ReviewRequest, token: string) =>
+    apiRequest<ReviewResponse>(
+      `/api/admin/reviews/${reelId}`,
+      postJSON(review, bearer(token))
+    ),
+
+  // `keepalive` lets the last batch go out while the page is being left.
+  sendViewEvents: (request: ViewEventsRequest) =>
+    apiRequest<ViewEventsResponse>('/api/analytics/events', {
+      ...postJSON(request),
+      keepalive: true,
+    }),
+
+  getAnalytics: (days: number, token: string) =>
+    apiRequest<AnalyticsResponse>(
+      `/api/analytics?${new URLSearchParams({ days: String(days) })}`,
+      { headers: bearer(token) }
+    ),
+
+  exportAnalytics,
+
+  shareReel: (reelId: string, viewerId: string) =>
+    apiRequest<EngagementResponse>(
+      `/api/reels/${reelId}/share`,
+      postJSON({ viewerId })
+    ),
+};
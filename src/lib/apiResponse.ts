@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+import type { ApiFailure, ApiSuccess, ErrorCode } from './api';
+import { ConfigError } from './config';
+import { StorageError } from './providers/errors';
+
+/**
+ * Builds the JSON envelope every API route answers with (see `src/lib/api.ts`),
+ * with the HTTP status set to match the `status` in the body.
+ */
+
+export function jsonSuccess<T>(data: T, status = 200) {
+  const body: ApiSuccess<T> = {
+    status,
+    data: { success: true, ...data },
+    errors: {},
+  };
+  return NextResponse.json(body, { status });
+}
+
+export function jsonError(code: ErrorCode, error: string, status: number) {
+  const body: ApiFailure = {
+    status,
+    data: {},
+    errors: { error, code },
+  };
+  return NextResponse.json(body, { status });
+}
+
+/**
+ * Answers a request that failed with an unexpected error. The error is logged but never sent
+ * to the client, except for storage and configuration failures, which are reported by code.
+ */
+export function jsonUnexpectedError(error: unknown) {
+  console.error('Error in API:', error);
+  if (error instanceof StorageError) {
+    return jsonError('STORAGE_FAILED', 'Storage is unavailable', 502);
+  }
+  if (error instanceof ConfigError) {
+    return jsonError('SERVICE_UNAVAILABLE', 'The server is misconfigured', 503);
+  }
+  return jsonError('INTERNAL_ERROR', 'Internal server error', 500);
+}
+
+/**
+ * Checks the `Authorization: Bearer <token>` header of a request to a protected route.
+ * @param token - The token the route requires; the route is disabled when it is not configured.
+ * @param variable - The environment variable the token is configured with, named in the error.
+ * @returns The error response to answer with, or null when the request may go on.
+ */
+export function checkBearerToken(
+  request: Request,
+  token: string | undefined,
+  variable: string
+) {
+  if (!token) {
+    return jsonError(
+      'SERVICE_UNAVAILABLE',
+      `Set ${variable} to enable this route`,
+      503
+    );
+  }
+  if (request.headers.get('Authorization') !== `Bearer ${token}`) {
+    return jsonError('UNAUTHORIZED', 'Invalid or missing token', 401);
+  }
+  return null;
+}
@@ -0,0 +1,217 @@
+import { createHash } from 'crypto';
+import { readCollection, updateCollection } from './localStore';
+import type { StorageDirectory, StorageProvider } from './providers/types';
+
+/**
+ * Content-addressed cache of the assets produced by the paid pipeline stages
+ * (the script, the voiceover and the video clips).
+ *
+ * Each asset is keyed by a hash of the normalised inputs it is produced from and stored under a
+ * file name derived from that key, so identical inputs map to the same stored file.
+ * The cache index (`.data/asset-cache.json`) records which keys have been stored; an entry whose
+ * file can no longer be read (e.g. after it was removed from storage) is treated as a miss.
+ *
+ * Entries expire once no job has used them for the retention period (`ASSET_CACHE_RETENTION_DAYS`,
+ * 30 days by default): the temp sweep removes them from the index (`expireCachedAssets`) before it
+ * deletes the files nothing refers to, so the cache does not keep `temp/` growing forever.
+ */
+
+interface CacheEntry {
+  fileName: string;
+  directory: StorageDirectory;
+  // Anything besides the file itself that is needed to reuse the asset.
+  data: unknown;
+  createdAt: string;
+  // When a job last reused the asset; entries without it have not been reused since they were stored.
+  lastUsedAt?: string;
+}
+
+type CacheIndex = Record<string, CacheEntry>;
+
+const COLLECTION = 'asset-cache';
+
+export interface AssetToStore<T> {
+  fileName: string;
+  directory: StorageDirectory;
+  contentType: string;
+  content: Buffer | string;
+  data: T;
+}
+
+export interface CachedAsset<T> {
+  fileName: string;
+  directory: StorageDirectory;
+  url: string;
+  content: Buffer;
+  data: T;
+  // Whether the asset was reused rather than produced.
+  cached: boolean;
+}
+
+/**
+ * Hashes inputs into a cache key. Object keys are sorted first, so the key does not depend on their order.
+ */
+export function hashInputs(inputs: unknown): string {
+  return createHash('sha256')
+    .update(stableStringify(inputs))
+    .digest('hex')
+    .slice(0, 32);
+}
+
+/**
+ * Returns the asset stored under `key`, or produces, stores and records it on a miss.
+ * @param key - The cache key, see `hashInputs`.
+ * @param storage - Where the asset is stored.
+ * @param force - Skips the lookup and always produces the asset (the new asset replaces the cached one).
+ * @param produce - Produces the asset on a miss.
+ */
+export async function withAssetCache<T>(
+  key: string,
+  storage: StorageProvider,
+  force: boolean,
+  produce: () => Promise<AssetToStore<T>>
+): Promise<CachedAsset<T>> {
+  if (!force) {
+    const entry = (await readCollection<CacheIndex>(COLLECTION, {}))[key];
+    if (entry) {
+      try {
+        const content = await storage.download(entry.fileName, entry.directory);
+        const url = await storage.getUrl(entry.fileName, entry.directory);
+        console.log(
+          `Reusing cached asset ${entry.directory}/${entry.fileName}`
+        );
+        await updateCollection<CacheIndex>(COLLECTION, {}, (index) => {
+          if (index[key]) index[key].lastUsedAt = new Date().toISOString();
+        });
+        return {
+          fileName: entry.fileName,
+          directory: entry.directory,
+          url,
+          content,
+          data: entry.data as T,
+          cached: true,
+        };
+      } catch (error) {
+        console.warn(
+          `Cached asset ${entry.directory}/${entry.fileName} could not be read, producing it again:`,
+          error
+        );
+      }
+    }
+  }
+
+  const asset = await produce();
+  const url = await storage.upload(
+    asset.fileName,
+    asset.contentType,
+    asset.content,
+    asset.directory
+  );
+  await updateCollection<CacheIndex>(COLLECTION, {}, (index) => {
+    index[key] = {
+      fileName: asset.fileName,
+      directory: asset.directory,
+      data: asset.data,
+      createdAt: new Date().toISOString(),
+    };
+  });
+  return {
+    fileName: asset.fileName,
+    directory: asset.directory,
+    url,
+    content:
+      typeof asset.content === 'string'
+        ? Buffer.from(asset.content)
+        : asset.content,
+    data: asset.data,
+    cached: false,
+  };
+}
+
+/**
+ * Returns the names of the cached files stored in a directory.
+ * @param usedSince - Leaves out the entries that have not been stored or reused since then.
+ */
+export async function getCachedFileNames(
+  directory: StorageDirectory,
+  usedSince?: Date
+): Promise<Set<string>> {
+  const index = await readCollection<CacheIndex>(COLLECTION, {});
+  return new Set(
+    Object.values(index)
+      .filter(
+        (entry) =>
+          entry.directory === directory &&
+          !(usedSince && isUnusedSince(entry, usedSince))
+      )
+      .map((entry) => entry.fileName)
+  );
+}
+
+/**
+ * Removes the entries that have not been stored or reused since `usedSince` from the index.
+ * Their files are left in storage, for the temp sweep to delete.
+ * @param dryRun - Only counts the entries, without removing them.
+ * @returns How many entries expired.
+ */
+export async function expireCachedAssets(
+  usedSince: Date,
+  dryRun = false
+): Promise<number> {
+  if (dryRun) {
+    const index = await readCollection<CacheIndex>(COLLECTION, {});
+    return Object.values(index).filter((entry) =>
+      isUnusedSince(entry, usedSince)
+    ).length;
+  }
+  let expired = 0;
+  await updateCollection<CacheIndex>(COLLECTION, {}, (index) => {
+    for (const [key, entry] of Object.entries(index)) {
+      if (isUnusedSince(entry, usedSince)) {
+        delete index[key];
+        expired++;
+      }
+    }
+  });
+  return expired;
+}
+
+function isUnusedSince(entry: CacheEntry, date: Date): boolean {
+  return Date.parse(entry.lastUsedAt || entry.createdAt) < date.getTime();
+}
+
+/**
+ * Removes the cache entries of the given files, e.g. after the files were deleted.
+ */
+export async function forgetCachedAssets(
+  files: { fileName: string; directory: StorageDirectory }[]
+): Promise<void> {
+  await updateCollection<CacheIndex>(COLLECTION, {}, (index) => {
+    for (const [key, entry] of Object.entries(index)) {
+      if (
+        files.some(
+          (file) =>
+            file.fileName === entry.fileName &&
+            file.directory === entry.directory
+        )
+      ) {
+        delete index[key];
+      }
+    }
+  });
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const record: Record<string, unknown> = { ...value };
+    return `{${Object.keys(record)
+      .sort()
+      .filter((key) => record[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(record[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
@@ -0,0 +1,257 @@
+import { randomUUID } from 'crypto';
+import type { ErrorCode } from './api';
+import { toCsv } from './csv';
+import {
+  createJob,
+  getJob,
+  getJobs,
+  holdJobs,
+  JobStatus,
+  newJobId,
+} from './jobs';
+import { readCollection, updateCollection } from './localStore';
+import {
+  BATCH_CONCURRENCY_RANGE,
+  DEFAULT_BATCH_CONCURRENCY,
+  ManifestRow,
+  toManifestRequest,
+} from './manifest';
+import { parseGenerationRequest, runGenerationJob } from './pipeline';
+import { withoutUnpublishedAssets } from './reels';
+
+/**
+ * Batches: many reels generated from one manifest (see `src/lib/manifest.ts`), created by `POST /api/batches`.
+ *
+ * Every row of the manifest is validated like a `POST /api/generate-video` request and becomes an
+ * ordinary generation job, so its progress shows on `/history` and it can be cancelled on its own.
+ * Deduplication applies as well: a row identical to a queued, running or succeeded job (or to an
+ * earlier row) reuses that job instead of paying for the reel again. Invalid rows are kept in the
+ * batch with their error rather than rejecting the whole manifest.
+ *
+ * The new jobs run after the response is sent, at most `concurrency` at a time, so a large batch
+ * does not flood the providers. A batch only records which job belongs to which row; its status
+ * is read from the jobs each time it is reported.
+ */
+
+export interface BatchItem {
+  // The position of the row in the manifest, from 1.
+  row: number;
+  sport: string;
+  image: string;
+  prompt: string;
+  // The job generating the reel of the row, or null when the row is invalid.
+  jobId: string | null;
+  // Whether an existing job with the same input was used instead of a new one.
+  reused: boolean;
+  // Why the row is invalid.
+  error?: string;
+}
+
+export interface Batch {
+  id: string;
+  createdAt: string;
+  // How many jobs of the batch run at the same time.
+  concurrency: number;
+  items: BatchItem[];
+}
+
+// `invalid`: the row was rejected; `deleted`: its job has since been deleted from the history.
+export type BatchItemStatus = JobStatus | 'invalid' | 'deleted';
+
+export interface BatchItemReport extends BatchItem {
+  status: BatchItemStatus;
+  errorCode?: ErrorCode;
+  // The finished reel, once the job has succeeded and a reviewer has approved the reel.
+  reelURL?: string;
+}
+
+export interface BatchReport extends Omit<Batch, 'items'> {
+  // Whether every job of the batch has succeeded, failed or been cancelled.
+  finished: boolean;
+  counts: Partial<Record<BatchItemStatus, number>>;
+  items: BatchItemReport[];
+}
+
+type BatchCollection = Record<string, Batch>;
+
+const COLLECTION = 'batches';
+
+const SUMMARY_COLUMNS: (keyof BatchItemReport)[] = [
+  'row',
+  'sport',
+  'image',
+  'prompt',
+  'status',
+  'jobId',
+  'reused',
+  'reelURL',
+  'errorCode',
+  'error',
+];
+
+/**
+ * Validates the `concurrency` query parameter of a batch, `DEFAULT_BATCH_CONCURRENCY` when it is missing.
+ */
+export function parseConcurrency(
+  value: string | null
+): number | { error: string } {
+  const concurrency = Number(value || DEFAULT_BATCH_CONCURRENCY);
+  if (
+    !Number.isInteger(concurrency) ||
+    concurrency < BATCH_CONCURRENCY_RANGE.min ||
+    concurrency > BATCH_CONCURRENCY_RANGE.max
+  ) {
+    return {
+      error: `concurrency must be between ${BATCH_CONCURRENCY_RANGE.min} and ${BATCH_CONCURRENCY_RANGE.max}`,
+    };
+  }
+  return concurrency;
+}
+
+/**
+ * Validates every row of a manifest, creates a job for each valid one and stores the batch.
+ * The jobs are only queued; `runBatch` runs them.
+ */
+export async function createBatch(
+  rows: ManifestRow[],
+  concurrency: number
+): Promise<Batch> {
+  const items: BatchItem[] = [];
+  // One at a time, so identical rows are deduplicated against each other.
+  for (const [index, row] of rows.entries()) {
+    const item: BatchItem = {
+      row: index + 1,
+      sport: row.sport,
+      image: row.image,
+      prompt: row.prompt || '',
+      jobId: null,
+      reused: false,
+    };
+    const parsed = await parseGenerationRequest(toManifestRequest(row));
+    if ('error' in parsed) {
+      item.error = parsed.error;
+    } else {
+      const { job, created } = await createJob(newJobId(), parsed.input);
+      item.jobId = job.id;
+      item.reused = !created;
+    }
+    items.push(item);
+  }
+
+  const batch: Batch = {
+    id: randomUUID(),
+    createdAt: new Date().toISOString(),
+    concurrency,
+    items,
+  };
+  await updateCollection<BatchCollection>(COLLECTION, {}, (batches) => {
+    batches[batch.id] = batch;
+  });
+  return batch;
+}
+
+/**
+ * Returns the batch with the given id, or null when it does not exist.
+ */
+export async function getBatch(id: string): Promise<Batch | null> {
+  const batches = await readCollection<BatchCollection>(COLLECTION, {});
+  return batches[id] || null;
+}
+
+/**
+ * Runs the jobs the batch created (not the reused ones), at most `concurrency` at a time.
+ * Jobs cancelled while they wait are skipped.
+ */
+export async function runBatch(batch: Batch): Promise<void> {
+  const ids = batch.items
+    .filter((item) => item.jobId && !item.reused)
+    .map((item) => item.jobId!);
+  // The waiting jobs are held so they are not taken for orphaned.
+  const release = holdJobs(ids);
+  try {
+    await runWithConcurrency(ids, batch.concurrency, async (id) => {
+      const job = await getJob(id);
+      if (job?.status !== 'queued') return;
+      await runGenerationJob(id, job.input);
+    });
+  } finally {
+    release();
+  }
+}
+
+/**
+ * Reports the status of every row of a batch from its job: queued, running, succeeded (with the reel),
+ * failed or cancelled (with the reason and its error code).
+ */
+export async function getBatchReport(batch: Batch): Promise<BatchReport> {
+  const found = await getJobs(
+    batch.items.flatMap((item) => (item.jobId ? [item.jobId] : []))
+  );
+  const jobs = new Map(
+    (await withoutUnpublishedAssets([...found.values()])).map(
+      (job) => [job.id, job] as const
+    )
+  );
+  const counts: BatchReport['counts'] = {};
+  const items = batch.items.map((item): BatchItemReport => {
+    const job = item.jobId ? jobs.get(item.jobId) : undefined;
+    let report: BatchItemReport;
+    if (!item.jobId) {
+      report = { ...item, status: 'invalid', errorCode: 'INVALID_REQUEST' };
+    } else if (!job) {
+      report = { ...item, status: 'deleted' };
+    } else {
+      report = {
+        ...item,
+        status: job.status,
+        ...(job.status === 'succeeded' && {
+          reelURL: job.stages.merge.url,
+        }),
+        ...(job.error && { error: job.error, errorCode: job.errorCode }),
+      };
+    }
+    counts[report.status] = (counts[report.status] || 0) + 1;
+    return report;
+  });
+
+  return {
+    id: batch.id,
+    createdAt: batch.createdAt,
+    concurrency: batch.concurrency,
+    finished: items.every(
+      (item) => item.status !== 'queued' && item.status !== 'running'
+    ),
+    counts,
+    items,
+  };
+}
+
+/**
+ * Returns the result of every row of a batch as CSV, with a header row.
+ */
+export function toBatchSummaryCsv(report: BatchReport): string {
+  return toCsv(report.items, SUMMARY_COLUMNS);
+}
+
+/**
+ * Calls `task` for every item, with at most `concurrency` calls in flight. A failed call is logged
+ * and does not stop the others.
+ */
+async function runWithConcurrency<T>(
+  items: T[],
+  concurrency: number,
+  task: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      await task(item).catch((error) =>
+        console.error('Batch task failed:', error)
+      );
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, items.length) }, worker)
+  );
+}
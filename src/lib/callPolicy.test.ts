@@ -0,0 +1,320 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  CallPolicy,
+  CancelledError,
+  Clock,
+  isRetryable,
+  pollUntil,
+  TimeoutError,
+  withCallPolicy,
+} from './callPolicy';
+
+const POLICY: CallPolicy = {
+  timeoutMs: 1_000,
+  retries: 2,
+  baseDelayMs: 100,
+  maxDelayMs: 150,
+};
+
+// Jitter takes half of the backoff, so the delays are predictable.
+const HALF = () => 0.5;
+
+interface FakeClock extends Clock {
+  // Moves time forward by `ms`, firing the timers that fall due in order and letting the code
+  // they wake up run before the next one.
+  advance(ms: number): Promise<void>;
+}
+
+function createFakeClock(): FakeClock {
+  let time = 0;
+  const timers: { at: number; fire: () => void }[] = [];
+
+  return {
+    now: () => time,
+
+    sleep: (ms, signal) =>
+      new Promise<void>((resolve, reject) => {
+        if (signal?.aborted) {
+          reject(new CancelledError());
+          return;
+        }
+        const timer = { at: time + ms, fire: resolve };
+        timers.push(timer);
+        signal?.addEventListener(
+          'abort',
+          () => {
+            const index = timers.indexOf(timer);
+            if (index !== -1) timers.splice(index, 1);
+            reject(new CancelledError());
+          },
+          { once: true }
+        );
+      }),
+
+    async advance(ms) {
+      const end = time + ms;
+      await settle();
+      while (true) {
+        const due = timers
+          .filter((timer) => timer.at <= end)
+          .sort((a, b) => a.at - b.at)[0];
+        if (!due) break;
+        timers.splice(timers.indexOf(due), 1);
+        time = due.at;
+        due.fire();
+        await settle();
+      }
+      time = end;
+    },
+  };
+}
+
+// Lets pending promise callbacks run.
+function settle(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+/**
+ * A provider call that answers with `outcomes` in turn (a value, or an error to throw), recording the
+ * time of every attempt. `'hang'` never answers; the attempt only ends when its signal aborts.
+ */
+function createFakeProvider<T>(clock: Clock, outcomes: (T | Error | 'hang')[]) {
+  const provider = {
+    attempts: [] as number[],
+    signals: [] as AbortSignal[],
+    call: (signal: AbortSignal): Promise<T> => {
+      provider.attempts.push(clock.now());
+      provider.signals.push(signal);
+      const outcome = outcomes[provider.attempts.length - 1];
+      if (outcome === 'hang') {
+        return new Promise<T>((_, reject) =>
+          signal.addEventListener('abort', () => reject(new Error('aborted')))
+        );
+      }
+      return outcome instanceof Error
+        ? Promise.reject(outcome)
+        : Promise.resolve(outcome);
+    },
+  };
+  return provider;
+}
+
+function httpError(status: number): Error {
+  return Object.assign(new Error(`HTTP ${status}`), { status });
+}
+
+describe('withCallPolicy', () => {
+  // Retries are logged; the log lines are not what these tests are about.
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    return () => vi.restoreAllMocks();
+  });
+
+  it('returns the result of the first attempt that succeeds', async () => {
+    const clock = createFakeClock();
+    const provider = createFakeProvider(clock, ['clip']);
+
+    const result = withCallPolicy(provider.call, POLICY, { clock });
+    await clock.advance(0);
+
+    await expect(result).resolves.toBe('clip');
+    expect(provider.attempts).toEqual([0]);
+  });
+
+  it('retries retryable errors with exponential backoff, capped at maxDelayMs', async () => {
+    const clock = createFakeClock();
+    const provider = createFakeProvider(clock, [
+      httpError(503),
+      httpError(429),
+      'clip',
+    ]);
+
+    const result = withCallPolicy(provider.call, POLICY, {
+      clock,
+      random: HALF,
+    });
+    await clock.advance(1_000);
+
+    await expect(result).resolves.toBe('clip');
+    // Half of 100ms, then half of min(150ms, 200ms).
+    expect(provider.attempts).toEqual([0, 50, 125]);
+    expect(console.warn).toHaveBeenCalledTimes(2);
+  });
+
+  it('throws the last error once every retry has failed', async () => {
+    const clock = createFakeClock();
+    const provider = createFakeProvider(clock, [
+      httpError(500),
+      httpError(502),
+      httpError(503),
+      'clip',
+    ]);
+
+    const result = withCallPolicy(provider.call, POLICY, {
+      clock,
+      random: HALF,
+    });
+    const outcome = expect(result).rejects.toThrow('HTTP 503');
+    await clock.advance(1_000);
+
+    await outcome;
+    expect(provider.attempts).toHaveLength(3);
+  });
+
+  it('does not retry errors that are not retryable', async () => {
+    const clock = createFakeClock();
+    const provider = createFakeProvider(clock, [httpError(400), 'clip']);
+
+    const result = withCallPolicy(provider.call, POLICY, { clock });
+    const outcome = expect(result).rejects.toThrow('HTTP 400');
+    await clock.advance(1_000);
+
+    await outcome;
+    expect(provider.attempts).toHaveLength(1);
+  });
+
+  it('times out an attempt that takes too long, aborts it and retries', async () => {
+    const clock = createFakeClock();
+    const provider = createFakeProvider(clock, ['hang', 'clip']);
+
+    const result = withCallPolicy(provider.call, POLICY, {
+      clock,
+      random: HALF,
+    });
+    await clock.advance(2_000);
+
+    await expect(result).resolves.toBe('clip');
+    expect(provider.attempts).toEqual([0, 1_050]);
+    expect(provider.signals[0].aborted).toBe(true);
+  });
+
+  it('throws a TimeoutError when the only attempt times out', async () => {
+    const clock = createFakeClock();
+    const provider = createFakeProvider(clock, ['hang']);
+
+    const result = withCallPolicy(
+      provider.call,
+      { ...POLICY, retries: 0 },
+      { clock }
+    );
+    const outcome = expect(result).rejects.toBeInstanceOf(TimeoutError);
+    await clock.advance(1_000);
+
+    await outcome;
+  });
+
+  it('stops with a CancelledError when the signal aborts during the backoff', async () => {
+    const clock = createFakeClock();
+    const provider = createFakeProvider(clock, [httpError(503), 'clip']);
+    const controller = new AbortController();
+
+    const result = withCallPolicy(provider.call, POLICY, {
+      clock,
+      random: HALF,
+      signal: controller.signal,
+    });
+    const outcome = expect(result).rejects.toBeInstanceOf(CancelledError);
+    await clock.advance(10);
+    controller.abort();
+    await clock.advance(1_000);
+
+    await outcome;
+    expect(provider.attempts).toHaveLength(1);
+  });
+
+  it('aborts the attempt in flight when the signal aborts', async () => {
+    const clock = createFakeClock();
+    const provider = createFakeProvider(clock, ['hang']);
+    const controller = new AbortController();
+
+    const result = withCallPolicy(provider.call, POLICY, {
+      clock,
+      signal: controller.signal,
+    });
+    const outcome = expect(result).rejects.toBeInstanceOf(CancelledError);
+    await clock.advance(10);
+    controller.abort();
+
+    await outcome;
+    expect(provider.signals[0].aborted).toBe(true);
+  });
+});
+
+describe('pollUntil', () => {
+  it('checks every interval until a value is returned', async () => {
+    const clock = createFakeClock();
+    const provider = createFakeProvider<string | undefined>(clock, [
+      undefined,
+      undefined,
+      'done',
+    ]);
+
+    const result = pollUntil(
+      () => provider.call(new AbortController().signal),
+      100,
+      1_000,
+      { clock }
+    );
+    await clock.advance(1_000);
+
+    await expect(result).resolves.toBe('done');
+    expect(provider.attempts).toEqual([100, 200, 300]);
+  });
+
+  it('throws a TimeoutError when no value is returned in time, checking once more at the deadline', async () => {
+    const clock = createFakeClock();
+    const checks: number[] = [];
+
+    const result = pollUntil(
+      async () => {
+        checks.push(clock.now());
+        return undefined;
+      },
+      400,
+      1_000,
+      { clock }
+    );
+    const outcome = expect(result).rejects.toBeInstanceOf(TimeoutError);
+    await clock.advance(2_000);
+
+    await outcome;
+    expect(checks).toEqual([400, 800, 1_000]);
+  });
+
+  it('stops with a CancelledError when the signal aborts', async () => {
+    const clock = createFakeClock();
+    const controller = new AbortController();
+    let checks = 0;
+
+    const result = pollUntil(
+      async () => {
+        checks++;
+        return undefined;
+      },
+      100,
+      1_000,
+      { clock, signal: controller.signal }
+    );
+    const outcome = expect(result).rejects.toBeInstanceOf(CancelledError);
+    await clock.advance(150);
+    controller.abort();
+
+    await outcome;
+    expect(checks).toBe(1);
+  });
+});
+
+describe('isRetryable', () => {
+  it.each([
+    ['a network error', new Error('socket hang up'), true],
+    ['a timeout', new TimeoutError(), true],
+    ['a server error', httpError(503), true],
+    ['a request timeout', httpError(408), true],
+    ['rate limiting', httpError(429), true],
+    ['a client error', httpError(400), false],
+    ['a missing resource', httpError(404), false],
+    ['a cancellation', new CancelledError(), false],
+  ])('returns whether %s is retried', (_, error, retryable) => {
+    expect(isRetryable(error)).toBe(retryable);
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * The shared policy for calls to external services (script, voice and video providers, downloads):
+ * every attempt is bounded by a timeout, failed attempts are retried a bounded number of times
+ * with jittered exponential backoff, and everything stops as soon as the caller's signal aborts.
+ *
+ * Time is read through a `Clock` and randomness through `random`, so the policy can be exercised
+ * against a fake clock and a fake provider without waiting on real timers.
+ */
+
+export interface CallPolicy {
+  // Longest a single attempt may take.
+  timeoutMs: number;
+  // How many times a failed attempt is retried.
+  retries: number;
+  // Backoff before the first retry; it doubles on every retry, up to `maxDelayMs`.
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export type CallName =
+  | 'script'
+  | 'voice'
+  | 'video'
+  | 'videoCreate'
+  | 'videoRequest'
+  | 'download'
+  | 'health';
+
+export const CALL_POLICIES: Record<CallName, CallPolicy> = {
+  // Gemini.
+  script: {
+    timeoutMs: 30_000,
+    retries: 2,
+    baseDelayMs: 1_000,
+    maxDelayMs: 8_000,
+  },
+  // Text-to-Speech.
+  voice: {
+    timeoutMs: 30_000,
+    retries: 2,
+    baseDelayMs: 1_000,
+    maxDelayMs: 8_000,
+  },
+  // A whole clip generation, including waiting for the provider's task (see `VIDEO_TASK_MAX_WAIT_MS`).
+  // Generations are paid for, so only the requests inside it are retried.
+  video: {
+    timeoutMs: 7 * 60_000,
+    retries: 0,
+    baseDelayMs: 5_000,
+    maxDelayMs: 5_000,
+  },
+  // Starting a task on the video provider. A request that timed out or failed on the server may still
+  // have started a (paid) generation, so it is never retried.
+  videoCreate: {
+    timeoutMs: 30_000,
+    retries: 0,
+    baseDelayMs: 0,
+    maxDelayMs: 0,
+  },
+  // A single read from the video provider's API (polling a task).
+  videoRequest: {
+    timeoutMs: 15_000,
+    retries: 3,
+    baseDelayMs: 1_000,
+    maxDelayMs: 8_000,
+  },
+  // Downloading a generated asset.
+  download: {
+    timeoutMs: 60_000,
+    retries: 2,
+    baseDelayMs: 1_000,
+    maxDelayMs: 8_000,
+  },
+  // A reachability check from `GET /api/health`. It should answer quickly or be reported as down.
+  health: {
+    timeoutMs: 5_000,
+    retries: 0,
+    baseDelayMs: 0,
+    maxDelayMs: 0,
+  },
+};
+
+// Longest a video task may take to finish before it is given up on.
+export const VIDEO_TASK_MAX_WAIT_MS = 6 * 60_000;
+
+// How often a pending video task is polled.
+export const VIDEO_POLL_INTERVAL_MS = 10_000;
+
+export interface Clock {
+  now(): number;
+  // Resolves after `ms` milliseconds, or rejects with a `CancelledError` when the signal aborts first.
+  sleep(ms: number, signal?: AbortSignal): Promise<void>;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  sleep: (ms, signal) =>
+    new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new CancelledError());
+        return;
+      }
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new CancelledError());
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+    }),
+};
+
+export class TimeoutError extends Error {
+  constructor(message = 'The call timed out.') {
+    super(message);
+    this.name = 'TimeoutError';
+  }
+}
+
+export class CancelledError extends Error {
+  constructor(message = 'The generation was cancelled.') {
+    super(message);
+    this.name = 'CancelledError';
+  }
+}
+
+export interface CallOptions {
+  // Aborts the call (and any pending retry) when the caller gives up, e.g. when a job is cancelled.
+  signal?: AbortSignal;
+  clock?: Clock;
+  // Returns a number in [0, 1), used to jitter the backoff.
+  random?: () => number;
+  // Used in the retry log lines.
+  label?: string;
+}
+
+/**
+ * Runs `task` under the given policy.
+ * The task receives a signal that aborts when its attempt times out or the caller's signal aborts;
+ * tasks that can pass it on (e.g. to `fetch`) stop their work, others are abandoned.
+ * @returns A promise that resolves with the result of the first successful attempt.
+ * @throws {CancelledError} When the caller's signal aborts.
+ * @throws The error of the last attempt, when every attempt failed or an error is not retryable.
+ */
+export async function withCallPolicy<T>(
+  task: (signal: AbortSignal) => Promise<T>,
+  policy: CallPolicy,
+  {
+    signal,
+    clock = systemClock,
+    random = Math.random,
+    label = 'call',
+  }: CallOptions = {}
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) {
+      throw new CancelledError();
+    }
+    try {
+      return await runAttempt(task, policy.timeoutMs, clock, signal);
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new CancelledError();
+      }
+      if (attempt >= policy.retries || !isRetryable(error)) {
+        throw error;
+      }
+      const delay =
+        random() *
+        Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+      console.warn(
+        `${label} attempt ${attempt + 1} failed, retrying in ${Math.round(delay)}ms:`,
+        error instanceof Error ? error.message : error
+      );
+      await clock.sleep(delay, signal);
+    }
+  }
+}
+
+/**
+ * Calls `check` every `intervalMs` until it returns a value other than undefined.
+ * @throws {TimeoutError} When no value was returned within `maxWaitMs`.
+ * @throws {CancelledError} When the signal aborts.
+ */
+export async function pollUntil<T>(
+  check: () => Promise<T | undefined>,
+  intervalMs: number,
+  maxWaitMs: number,
+  { signal, clock = systemClock }: Pick<CallOptions, 'signal' | 'clock'> = {}
+): Promise<T> {
+  const deadline = clock.now() + maxWaitMs;
+  while (true) {
+    await clock.sleep(
+      Math.min(intervalMs, Math.max(0, deadline - clock.now())),
+      signal
+    );
+    const result = await check();
+    if (result !== undefined) {
+      return result;
+    }
+    if (clock.now() >= deadline) {
+      throw new TimeoutError(
+        `Gave up waiting after ${Math.round(maxWaitMs / 1000)} seconds.`
+      );
+    }
+  }
+}
+
+/**
+ * Errors that a later attempt cannot fix (cancellation and client errors other than
+ * timeouts and rate limiting) are not retried.
+ */
+export function isRetryable(error: unknown): boolean {
+  if (error instanceof CancelledError) {
+    return false;
+  }
+  const status =
+    error && typeof error === 'object' && 'status' in error
+      ? Number(error.status)
+      : NaN;
+  if (status >= 400 && status < 500) {
+    return status === 408 || status === 429;
+  }
+  return true;
+}
+
+function runAttempt<T>(
+  task: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  clock: Clock,
+  signal?: AbortSignal
+): Promise<T> {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  // The task is aborted once the race has settled (below), so the timeout wins over the error it aborts with.
+  const timeout = clock.sleep(timeoutMs, controller.signal).then(() => {
+    throw new TimeoutError(
+      `The call timed out after ${Math.round(timeoutMs / 1000)} seconds.`
+    );
+  });
+  // Once the attempt settles the timer is stopped, which rejects `timeout`; that rejection is expected.
+  timeout.catch(() => undefined);
+
+  return Promise.race([task(controller.signal), timeout]).finally(() => {
+    signal?.removeEventListener('abort', onAbort);
+    controller.abort();
+  });
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildCaptionCues,
+  getWordStartTimes,
+  toSRT,
+  toWebVTT,
+} from './captions';
+
+describe('getWordStartTimes', () => {
+  it('spreads the words evenly over the duration', () => {
+    expect(getWordStartTimes('one two three four', 8)).toEqual([0, 2, 4, 6]);
+  });
+
+  it('uses the reported timepoints where there are some', () => {
+    expect(
+      getWordStartTimes('one two three four', 8, [
+        { wordIndex: 1, time: 1.5 },
+        { wordIndex: 9, time: 7 },
+      ])
+    ).toEqual([0, 1.5, 4, 6]);
+  });
+});
+
+describe('buildCaptionCues', () => {
+  it('groups up to six words per cue, breaking at the end of a sentence', () => {
+    const cues = buildCaptionCues(
+      'What a goal! The crowd goes wild as the ball hits the net.',
+      13
+    );
+
+    expect(cues).toEqual([
+      { start: 0, end: 3, text: 'What a goal!' },
+      { start: 3, end: 9, text: 'The crowd goes wild as the' },
+      { start: 9, end: 13, text: 'ball hits the net.' },
+    ]);
+  });
+
+  it('times the cues with the reported timepoints', () => {
+    const cues = buildCaptionCues('Go! Now.', 3, [
+      { wordIndex: 0, time: 0.2 },
+      { wordIndex: 1, time: 2.5 },
+    ]);
+
+    expect(cues).toEqual([
+      { start: 0.2, end: 2.5, text: 'Go!' },
+      { start: 2.5, end: 3, text: 'Now.' },
+    ]);
+  });
+
+  it('returns no cues for an empty script', () => {
+    expect(buildCaptionCues('  ', 5)).toEqual([]);
+  });
+});
+
+describe('toWebVTT and toSRT', () => {
+  const cues = [
+    { start: 0, end: 1.25, text: 'What a goal!' },
+    { start: 1.25, end: 3723.5, text: 'Unbelievable.' },
+  ];
+
+  it('serialises WebVTT', () => {
+    expect(toWebVTT(cues)).toBe(
+      'WEBVTT\n\n' +
+        '00:00:00.000 --> 00:00:01.250\nWhat a goal!\n\n' +
+        '00:00:01.250 --> 01:02:03.500\nUnbelievable.\n'
+    );
+  });
+
+  it('serialises SRT', () => {
+    expect(toSRT(cues)).toBe(
+      '1\n00:00:00,000 --> 00:00:01,250\nWhat a goal!\n\n' +
+        '2\n00:00:01,250 --> 01:02:03,500\nUnbelievable.\n'
+    );
+  });
+});
@@ -0,0 +1,119 @@
+import type { WordTimepoint } from './providers/types';
+
+/**
+ * Builds captions for a reel from its script, timed to the narration.
+ *
+ * Cues are groups of a few words, broken early at the end of a sentence.
+ * When the voice provider reports when each word is spoken (Google TTS does, through SSML marks)
+ * those times are used; otherwise the voiceover duration is split evenly by word count.
+ */
+
+export interface CaptionCue {
+  // Start and end of the cue in seconds.
+  start: number;
+  end: number;
+  text: string;
+}
+
+const MAX_WORDS_PER_CUE = 6;
+
+/**
+ * Splits a script into the words captions (and SSML marks) are built from.
+ */
+export function splitWords(script: string): string[] {
+  return script.split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Returns when each word of the script starts, in seconds.
+ * Reported timepoints are used where available; other words are spread evenly over the duration.
+ * @param script - The narration script.
+ * @param duration - The duration of the voiceover in seconds.
+ * @param timepoints - When each word starts, if the voice provider reported it.
+ */
+export function getWordStartTimes(
+  script: string,
+  duration: number,
+  timepoints?: WordTimepoint[]
+): number[] {
+  const words = splitWords(script);
+  const wordStarts = words.map((_, index) => (index * duration) / words.length);
+  for (const { wordIndex, time } of timepoints || []) {
+    if (wordIndex >= 0 && wordIndex < words.length) {
+      wordStarts[wordIndex] = time;
+    }
+  }
+  return wordStarts;
+}
+
+/**
+ * Groups the words of a script into timed caption cues.
+ * @param script - The narration script.
+ * @param duration - The duration of the voiceover in seconds.
+ * @param timepoints - When each word starts, if the voice provider reported it.
+ */
+export function buildCaptionCues(
+  script: string,
+  duration: number,
+  timepoints?: WordTimepoint[]
+): CaptionCue[] {
+  const words = splitWords(script);
+  if (words.length === 0) return [];
+
+  const wordStarts = getWordStartTimes(script, duration, timepoints);
+  const groups: number[][] = [];
+  let group: number[] = [];
+  words.forEach((word, index) => {
+    group.push(index);
+    if (group.length === MAX_WORDS_PER_CUE || /[.!?।]$/.test(word)) {
+      groups.push(group);
+      group = [];
+    }
+  });
+  if (group.length > 0) groups.push(group);
+
+  return groups.map((indexes, groupIndex) => {
+    const nextGroup = groups[groupIndex + 1];
+    return {
+      start: wordStarts[indexes[0]],
+      end: nextGroup ? wordStarts[nextGroup[0]] : duration,
+      text: indexes.map((index) => words[index]).join(' '),
+    };
+  });
+}
+
+/**
+ * Serialises caption cues as a WebVTT file.
+ */
+export function toWebVTT(cues: CaptionCue[]): string {
+  const body = cues
+    .map(
+      (cue) =>
+        `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.text}`
+    )
+    .join('\n\n');
+  return `WEBVTT\n\n${body}\n`;
+}
+
+/**
+ * Serialises caption cues as a SubRip (SRT) file.
+ */
+export function toSRT(cues: CaptionCue[]): string {
+  return cues
+    .map(
+      (cue, index) =>
+        `${index + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.text}\n`
+    )
+    .join('\n');
+}
+
+function formatTimestamp(seconds: number, millisecondSeparator: string) {
+  const totalMilliseconds = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMilliseconds / 3600000);
+  const minutes = Math.floor((totalMilliseconds % 3600000) / 60000);
+  const secs = Math.floor((totalMilliseconds % 60000) / 1000);
+  const milliseconds = totalMilliseconds % 1000;
+  const pad = (value: number, length = 2) =>
+    value.toString().padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${millisecondSeparator}${pad(milliseconds, 3)}`;
+}
@@ -0,0 +1,348 @@
+import path from 'path';
+import { VOICES } from './voices';
+
+/**
+ * The runtime configuration of the server, read from environment variables and validated once.
+ *
+ * Only the settings of the selected providers are required: with `PROVIDERS=offline` nothing is.
+ * Every problem is collected and reported together in a `ConfigError`; the server checks the
+ * configuration at startup (see `src/instrumentation.ts`) so a missing key fails the deploy
+ * instead of the first generation. `GET /api/health` reports the same problems.
+ */
+
+export const SCRIPT_PROVIDERS = ['gemini', 'stub'] as const;
+export const VOICE_PROVIDERS = ['google-tts', 'stub'] as const;
+export const VIDEO_PROVIDERS = ['runway', 'stub'] as const;
+export const STORAGE_PROVIDERS = ['gcp', 's3', 'local'] as const;
+
+// The image-to-video models the RunwayML SDK accepts.
+export const RUNWAY_MODELS = ['gen3a_turbo'] as const;
+
+export interface GoogleServiceAccount {
+  project_id: string;
+  client_email: string;
+  private_key: string;
+  [field: string]: string;
+}
+
+export interface Config {
+  // The public address of the site (`SITE_URL`).
+  siteUrl: URL;
+  // Where the JSON store keeps its collections (`LOCAL_DATA_DIR`).
+  dataDir: string;
+  // The royalty-free music library (`MUSIC_LIBRARY_DIR`).
+  musicLibraryDir: string;
+  // Integrated loudness the final mix is normalised to, in LUFS (`LOUDNESS_TARGET_LUFS`).
+  loudnessTargetLufs: number;
+  // The bearer token the maintenance routes require (`CRON_SECRET`); they are disabled without it.
+  cronSecret?: string;
+  // The bearer token of the review queue and the analytics (`ADMIN_TOKEN`); they are disabled without it.
+  adminToken?: string;
+  moderation: {
+    // Terms flagged in scripts besides the built-in list (`MODERATION_BANNED_TERMS`, comma-separated).
+    bannedTerms: string[];
+  };
+
+  providers: {
+    script: (typeof SCRIPT_PROVIDERS)[number];
+    voice: (typeof VOICE_PROVIDERS)[number];
+    video: (typeof VIDEO_PROVIDERS)[number];
+    storage: (typeof STORAGE_PROVIDERS)[number];
+  };
+
+  // Shared by Text-to-Speech and Cloud Storage. Undefined when the Google providers are not used,
+  // or when they authenticate through `GOOGLE_APPLICATION_CREDENTIALS` instead.
+  googleServiceAccount?: GoogleServiceAccount;
+  gemini: {
+    apiKey: string;
+    model: string;
+  };
+  googleTTS: {
+    // The voice used for requests that do not pick one, when it matches their language.
+    defaultVoice?: string;
+  };
+  runway: {
+    apiKey: string;
+    model: (typeof RUNWAY_MODELS)[number];
+  };
+
+  storage: {
+    signedUrls: boolean;
+    signedUrlTtlSeconds: number;
+    // How long unused files are kept in `temp/` (`TEMP_RETENTION_HOURS`), see `src/lib/tempAssets.ts`.
+    tempRetentionHours: number;
+    // How long a cached asset that no job reuses stays in the asset cache (`ASSET_CACHE_RETENTION_DAYS`),
+    // see `src/lib/assetCache.ts`.
+    assetCacheRetentionDays: number;
+  };
+  gcp: {
+    bucket: string;
+  };
+  s3: {
+    bucket: string;
+    region?: string;
+    endpoint?: string;
+    forcePathStyle: boolean;
+    accessKeyId?: string;
+    secretAccessKey?: string;
+    publicUrl?: string;
+  };
+  local: {
+    assetsDir: string;
+    signingSecret?: string;
+  };
+}
+
+export class ConfigError extends Error {
+  constructor(public problems: string[]) {
+    super(`Invalid configuration:\n- ${problems.join('\n- ')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+const DEFAULT_SIGNED_URL_TTL_SECONDS = 7 * 24 * 60 * 60;
+const DEFAULT_TEMP_RETENTION_HOURS = 24;
+const DEFAULT_ASSET_CACHE_RETENTION_DAYS = 30;
+
+let cached: Config | undefined;
+
+/**
+ * Returns the configuration of the server, reading it on first use.
+ * @throws {ConfigError} When the environment is missing or has invalid settings.
+ */
+export function getConfig(): Config {
+  return (cached ||= loadConfig(process.env));
+}
+
+/**
+ * Reads and validates the configuration from the given environment.
+ * @throws {ConfigError} Listing every missing or invalid setting.
+ */
+export function loadConfig(env: NodeJS.ProcessEnv): Config {
+  const problems: string[] = [];
+  const offline = env.PROVIDERS === 'offline';
+
+  const oneOf = <T extends string>(
+    variable: string,
+    values: readonly T[],
+    fallback: T
+  ): T => {
+    const value = env[variable] || fallback;
+    if (!values.includes(value as T)) {
+      problems.push(
+        `${variable} must be one of ${values.join(', ')} (got "${value}").`
+      );
+      return fallback;
+    }
+    return value as T;
+  };
+  const required = (variable: string, reason: string): string => {
+    const value = env[variable];
+    if (!value) {
+      problems.push(`${variable} is required ${reason}.`);
+    }
+    return value || '';
+  };
+  const number = (variable: string, fallback: number): number => {
+    if (!env[variable]) {
+      return fallback;
+    }
+    const value = Number(env[variable]);
+    if (!Number.isFinite(value)) {
+      problems.push(`${variable} must be a number (got "${env[variable]}").`);
+      return fallback;
+    }
+    return value;
+  };
+  const flag = (variable: string): boolean => {
+    const value = env[variable];
+    if (value && value !== 'true' && value !== 'false') {
+      problems.push(`${variable} must be true or false (got "${value}").`);
+    }
+    return value === 'true';
+  };
+
+  const providers: Config['providers'] = {
+    script: oneOf(
+      'SCRIPT_PROVIDER',
+      SCRIPT_PROVIDERS,
+      offline ? 'stub' : 'gemini'
+    ),
+    voice: oneOf(
+      'VOICE_PROVIDER',
+      VOICE_PROVIDERS,
+      offline ? 'stub' : 'google-tts'
+    ),
+    video: oneOf(
+      'VIDEO_PROVIDER',
+      VIDEO_PROVIDERS,
+      offline ? 'stub' : 'runway'
+    ),
+    storage: oneOf(
+      'STORAGE_PROVIDER',
+      STORAGE_PROVIDERS,
+      offline ? 'local' : 'gcp'
+    ),
+  };
+
+  let siteUrl = new URL('http://localhost:3000');
+  if (env.SITE_URL) {
+    try {
+      siteUrl = new URL(env.SITE_URL);
+    } catch {
+      problems.push(
+        `SITE_URL must be an absolute URL (got "${env.SITE_URL}").`
+      );
+    }
+  }
+
+  let googleServiceAccount: GoogleServiceAccount | undefined;
+  if (providers.voice === 'google-tts' || providers.storage === 'gcp') {
+    googleServiceAccount = parseServiceAccount(env, problems);
+  }
+
+  const defaultVoice = env.GOOGLE_TTS_DEFAULT_VOICE || undefined;
+  if (defaultVoice && !VOICES.some((voice) => voice.name === defaultVoice)) {
+    problems.push(
+      `GOOGLE_TTS_DEFAULT_VOICE must be one of ${VOICES.map((voice) => voice.name).join(', ')} (got "${defaultVoice}").`
+    );
+  }
+
+  const signedUrls = flag('STORAGE_SIGNED_URLS');
+  const signedUrlTtlSeconds = number(
+    'STORAGE_SIGNED_URL_TTL_SECONDS',
+    DEFAULT_SIGNED_URL_TTL_SECONDS
+  );
+  if (signedUrlTtlSeconds <= 0) {
+    problems.push('STORAGE_SIGNED_URL_TTL_SECONDS must be positive.');
+  }
+  const tempRetentionHours = number(
+    'TEMP_RETENTION_HOURS',
+    DEFAULT_TEMP_RETENTION_HOURS
+  );
+  if (tempRetentionHours < 1) {
+    problems.push('TEMP_RETENTION_HOURS must be at least 1.');
+  }
+  const assetCacheRetentionDays = number(
+    'ASSET_CACHE_RETENTION_DAYS',
+    DEFAULT_ASSET_CACHE_RETENTION_DAYS
+  );
+  if (assetCacheRetentionDays < 1) {
+    problems.push('ASSET_CACHE_RETENTION_DAYS must be at least 1.');
+  }
+
+  const config: Config = {
+    siteUrl,
+    dataDir: env.LOCAL_DATA_DIR || path.join(process.cwd(), '.data'),
+    musicLibraryDir: env.MUSIC_LIBRARY_DIR || path.join(process.cwd(), 'music'),
+    loudnessTargetLufs: number('LOUDNESS_TARGET_LUFS', -14),
+    cronSecret: env.CRON_SECRET || undefined,
+    adminToken: env.ADMIN_TOKEN || undefined,
+    moderation: {
+      bannedTerms: (env.MODERATION_BANNED_TERMS || '')
+        .split(',')
+        .map((term) => term.trim())
+        .filter(Boolean),
+    },
+    providers,
+    googleServiceAccount,
+    gemini: {
+      apiKey:
+        providers.script === 'gemini'
+          ? required('GEMINI_API_KEY', 'for SCRIPT_PROVIDER=gemini')
+          : '',
+      model: env.GEMINI_MODEL || 'gemini-2.0-flash',
+    },
+    googleTTS: { defaultVoice },
+    runway: {
+      apiKey:
+        providers.video === 'runway'
+          ? required('RUNWAYML_API_SECRET', 'for VIDEO_PROVIDER=runway')
+          : '',
+      model: oneOf('RUNWAY_MODEL', RUNWAY_MODELS, 'gen3a_turbo'),
+    },
+    storage: {
+      signedUrls,
+      signedUrlTtlSeconds,
+      tempRetentionHours,
+      assetCacheRetentionDays,
+    },
+    gcp: {
+      bucket:
+        providers.storage === 'gcp'
+          ? required('GCP_BUCKET_NAME', 'for STORAGE_PROVIDER=gcp')
+          : '',
+    },
+    s3: {
+      bucket:
+        providers.storage === 's3'
+          ? required('S3_BUCKET', 'for STORAGE_PROVIDER=s3')
+          : '',
+      region: env.S3_REGION,
+      endpoint: env.S3_ENDPOINT,
+      forcePathStyle: flag('S3_FORCE_PATH_STYLE'),
+      accessKeyId: env.S3_ACCESS_KEY_ID,
+      secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+      publicUrl: env.S3_PUBLIC_URL,
+    },
+    local: {
+      assetsDir:
+        env.LOCAL_ASSETS_DIR || path.join(process.cwd(), '.data', 'assets'),
+      signingSecret:
+        providers.storage === 'local' && signedUrls
+          ? required(
+              'LOCAL_STORAGE_SIGNING_SECRET',
+              'for signed URLs with STORAGE_PROVIDER=local'
+            )
+          : env.LOCAL_STORAGE_SIGNING_SECRET,
+    },
+  };
+
+  if (
+    providers.storage === 's3' &&
+    Boolean(config.s3.accessKeyId) !== Boolean(config.s3.secretAccessKey)
+  ) {
+    problems.push(
+      'S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY must be set together.'
+    );
+  }
+
+  if (problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+  return config;
+}
+
+/**
+ * Reads the Google service account key from `GOOGLE_SERVICE_ACCOUNT_JSON`.
+ * Without it the Google SDKs fall back to the key file named by `GOOGLE_APPLICATION_CREDENTIALS`.
+ */
+function parseServiceAccount(
+  env: NodeJS.ProcessEnv,
+  problems: string[]
+): GoogleServiceAccount | undefined {
+  if (!env.GOOGLE_SERVICE_ACCOUNT_JSON) {
+    if (!env.GOOGLE_APPLICATION_CREDENTIALS) {
+      problems.push(
+        'GOOGLE_SERVICE_ACCOUNT_JSON or GOOGLE_APPLICATION_CREDENTIALS is required for the Google Cloud providers.'
+      );
+    }
+    return undefined;
+  }
+  try {
+    const account = JSON.parse(env.GOOGLE_SERVICE_ACCOUNT_JSON);
+    const missing = ['project_id', 'client_email', 'private_key'].filter(
+      (field) => typeof account?.[field] !== 'string'
+    );
+    if (missing.length > 0) {
+      problems.push(
+        `GOOGLE_SERVICE_ACCOUNT_JSON is missing ${missing.join(', ')}.`
+      );
+      return undefined;
+    }
+    return account;
+  } catch {
+    problems.push('GOOGLE_SERVICE_ACCOUNT_JSON is not valid JSON.');
+    return undefined;
+  }
+}
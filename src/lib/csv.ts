@@ -0,0 +1,80 @@
+/**
+ * Reading and writing CSV, for the analytics exports, batch manifests and batch summaries.
+ * Both follow RFC 4180: comma-separated fields, quoted when they hold commas, quotes or line breaks,
+ * with quotes doubled inside quoted fields.
+ *
+ * This module has no dependencies, so it can be used in client components.
+ */
+
+/**
+ * Returns rows of objects as CSV with a header row of `columns`; missing values are left empty.
+ */
+export function toCsv(rows: object[], columns: string[]): string {
+  return [
+    columns,
+    ...rows.map((row) =>
+      columns.map((column) => (row as Record<string, unknown>)[column])
+    ),
+  ]
+    .map((values) => values.map(toCsvValue).join(','))
+    .join('\r\n');
+}
+
+// Text that starts like a formula is prefixed with a quote, so spreadsheets show it rather than evaluate it.
+function toCsvValue(value: unknown): string {
+  let text = String(value ?? '');
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Parses CSV text into rows of fields. Blank lines are skipped.
+ * @returns The rows, or an error when a quoted field is never closed.
+ */
+export function parseCsv(text: string): string[][] | { error: string } {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let index = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim()) {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (; index < text.length; index++) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') index++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    return { error: 'A quoted field is not closed' };
+  }
+  endRow();
+  return rows;
+}
@@ -0,0 +1,192 @@
+import { randomUUID } from 'crypto';
+import { readCollection, updateCollection } from './localStore';
+
+/**
+ * Likes, comments and shares of the reels in the catalog.
+ *
+ * Viewers are anonymous: the feed generates a random viewer id, keeps it in local storage
+ * and sends it with every request, so a viewer can like a reel once and unlike it again.
+ * Everything is kept in a single `engagement` collection keyed by reel id.
+ */
+
+export interface Comment {
+  id: string;
+  author: string;
+  text: string;
+  createdAt: string;
+}
+
+export interface EngagementCounts {
+  likes: number;
+  comments: number;
+  shares: number;
+  // Whether the requesting viewer likes the reel.
+  liked: boolean;
+}
+
+interface ReelEngagement {
+  // Ids of the viewers who like the reel.
+  likedBy: string[];
+  comments: Comment[];
+  shares: number;
+}
+
+type EngagementStore = Record<string, ReelEngagement>;
+
+const COLLECTION = 'engagement';
+
+const VIEWER_ID_PATTERN = /^[\w-]{1,64}$/;
+
+export const MAX_COMMENT_LENGTH = 500;
+export const MAX_AUTHOR_LENGTH = 40;
+export const DEFAULT_AUTHOR = 'Anonymous';
+
+function emptyEngagement(): ReelEngagement {
+  return { likedBy: [], comments: [], shares: 0 };
+}
+
+function toCounts(
+  engagement: ReelEngagement | undefined,
+  viewerId: string | null
+): EngagementCounts {
+  const { likedBy, comments, shares } = engagement || emptyEngagement();
+  return {
+    likes: likedBy.length,
+    comments: comments.length,
+    shares,
+    liked: viewerId ? likedBy.includes(viewerId) : false,
+  };
+}
+
+/**
+ * Returns the engagement counts of the given reels, as seen by the given viewer.
+ */
+export async function getEngagementCounts(
+  reelIds: string[],
+  viewerId: string | null
+): Promise<Record<string, EngagementCounts>> {
+  const store = await readCollection<EngagementStore>(COLLECTION, {});
+  return Object.fromEntries(
+    reelIds.map((id) => [id, toCounts(store[id], viewerId)])
+  );
+}
+
+/**
+ * Likes or unlikes a reel for a viewer. Liking a reel twice counts once.
+ * @returns The updated counts of the reel.
+ */
+export async function setLiked(
+  reelId: string,
+  viewerId: string,
+  liked: boolean
+): Promise<EngagementCounts> {
+  const store = await updateCollection<EngagementStore>(
+    COLLECTION,
+    {},
+    (store) => {
+      const engagement = (store[reelId] ||= emptyEngagement());
+      engagement.likedBy = engagement.likedBy.filter((id) => id !== viewerId);
+      if (liked) {
+        engagement.likedBy.push(viewerId);
+      }
+    }
+  );
+  return toCounts(store[reelId], viewerId);
+}
+
+/**
+ * Returns the comments on a reel, oldest first.
+ */
+export async function listComments(reelId: string): Promise<Comment[]> {
+  const store = await readCollection<EngagementStore>(COLLECTION, {});
+  return store[reelId]?.comments || [];
+}
+
+/**
+ * Adds a comment to a reel.
+ * @returns The stored comment.
+ */
+export async function addComment(
+  reelId: string,
+  author: string,
+  text: string
+): Promise<Comment> {
+  const comment: Comment = {
+    id: randomUUID(),
+    author,
+    text,
+    createdAt: new Date().toISOString(),
+  };
+  await updateCollection<EngagementStore>(COLLECTION, {}, (store) => {
+    (store[reelId] ||= emptyEngagement()).comments.push(comment);
+  });
+  return comment;
+}
+
+/**
+ * Records that a reel was shared.
+ * @returns The updated counts of the reel.
+ */
+export async function recordShare(
+  reelId: string,
+  viewerId: string | null
+): Promise<EngagementCounts> {
+  const store = await updateCollection<EngagementStore>(
+    COLLECTION,
+    {},
+    (store) => {
+      (store[reelId] ||= emptyEngagement()).shares += 1;
+    }
+  );
+  return toCounts(store[reelId], viewerId);
+}
+
+/**
+ * Removes the likes, comments and shares of a reel, e.g. when the reel is deleted.
+ */
+export async function deleteEngagement(reelId: string): Promise<void> {
+  await updateCollection<EngagementStore>(COLLECTION, {}, (store) => {
+    delete store[reelId];
+  });
+}
+
+/**
+ * Returns the viewer id if it is well formed, or null.
+ */
+export function parseViewerId(value: unknown): string | null {
+  return typeof value === 'string' && VIEWER_ID_PATTERN.test(value)
+    ? value
+    : null;
+}
+
+/**
+ * Validates the body of a new comment.
+ * A missing or blank author is replaced by `DEFAULT_AUTHOR`.
+ */
+export function parseComment(
+  body: unknown
+): { author: string; text: string } | { error: string } {
+  const fields: Record<string, unknown> =
+    body && typeof body === 'object' ? { ...body } : {};
+  const text = typeof fields.text === 'string' ? fields.text.trim() : '';
+  if (!text) {
+    return { error: 'text is required' };
+  }
+  if (text.length > MAX_COMMENT_LENGTH) {
+    return {
+      error: `text must be at most ${MAX_COMMENT_LENGTH} characters`,
+    };
+  }
+  if (fields.author !== undefined && typeof fields.author !== 'string') {
+    return { error: 'author must be a string' };
+  }
+  const author =
+    (typeof fields.author === 'string' && fields.author.trim()) ||
+    DEFAULT_AUTHOR;
+  if (author.length > MAX_AUTHOR_LENGTH) {
+    return {
+      error: `author must be at most ${MAX_AUTHOR_LENGTH} characters`,
+    };
+  }
+  return { author, text };
+}
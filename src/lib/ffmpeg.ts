@@ -0,0 +1,384 @@
+import ffmpeg from 'fluent-ffmpeg';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { getConfig } from './config';
+
+/**
+ * Helpers around `fluent-ffmpeg` for composing reels from in-memory assets.
+ * ffmpeg works on files, so every helper runs inside a throwaway work directory
+ * that is removed once the output has been read back into memory.
+ */
+
+/**
+ * Creates a temporary work directory, runs `task` in it and removes it afterwards.
+ */
+export async function withWorkDir<T>(
+  task: (workDir: string) => Promise<T>
+): Promise<T> {
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'reel-'));
+  try {
+    return await task(workDir);
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Runs an ffmpeg command, saving its output to `outputPath`.
+ */
+export function runFfmpeg(
+  command: ffmpeg.FfmpegCommand,
+  outputPath: string
+): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    command
+      .on('end', () => resolve())
+      .on('error', (err) => reject(err))
+      .save(outputPath);
+  });
+}
+
+/**
+ * Checks that the ffmpeg binary can be run.
+ */
+export function checkFfmpeg(): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    ffmpeg.getAvailableFormats((err) => (err ? reject(err) : resolve()));
+  });
+}
+
+export interface MergeOptions {
+  // SRT captions to burn into the video.
+  burnInCaptions?: string;
+  // Path of a music track to mix under the voiceover.
+  musicPath?: string;
+}
+
+// Level of the music bed before ducking, relative to the track's own level.
+const MUSIC_VOLUME = 0.35;
+
+/**
+ * Muxes the voiceover onto the video and returns the finished reel as an MP4 buffer.
+ * The video is looped for as long as the narration runs, so a 5 second clip
+ * can carry a longer voiceover; the output ends when the voiceover ends.
+ *
+ * When a music track is given it is looped under the voiceover and ducked with a sidechain
+ * compressor keyed by the voice, so it drops while the narrator speaks. The final mix is
+ * loudness-normalised to `LOUDNESS_TARGET_LUFS`.
+ * @param voiceover - The MP3 voiceover.
+ * @param video - The MP4 video clip.
+ * @param options - Optional captions to burn into the video and music to mix under the voice.
+ * @returns A promise that resolves with the merged reel.
+ */
+export async function mergeVoiceoverWithVideo(
+  voiceover: Buffer,
+  video: Buffer,
+  options: MergeOptions = {}
+): Promise<Buffer> {
+  return withWorkDir(async (workDir) => {
+    const audioPath = path.join(workDir, 'voiceover.mp3');
+    const videoPath = path.join(workDir, 'video.mp4');
+    const outputPath = path.join(workDir, 'reel.mp4');
+
+    await fs.writeFile(audioPath, voiceover);
+    await fs.writeFile(videoPath, video);
+
+    const command = ffmpeg()
+      .input(videoPath)
+      .inputOptions(['-stream_loop -1'])
+      .input(audioPath);
+    const filters: string[] = [];
+    const loudnorm = `loudnorm=I=${getConfig().loudnessTargetLufs}:TP=-1.5:LRA=11`;
+
+    if (options.burnInCaptions) {
+      const captionsPath = path.join(workDir, 'captions.srt');
+      await fs.writeFile(captionsPath, options.burnInCaptions);
+      filters.push(
+        `[0:v]subtitles=${captionsPath}:force_style='Alignment=2,MarginV=120,FontSize=14,Outline=2'[vout]`
+      );
+    } else {
+      filters.push('[0:v]null[vout]');
+    }
+
+    if (options.musicPath) {
+      command.input(options.musicPath).inputOptions(['-stream_loop -1']);
+      filters.push(
+        '[1:a]asplit=2[voice][key]',
+        `[2:a]volume=${MUSIC_VOLUME}[bed]`,
+        '[bed][key]sidechaincompress=threshold=0.02:ratio=8:attack=20:release=400[ducked]',
+        `[voice][ducked]amix=inputs=2:duration=first:dropout_transition=0:normalize=0,${loudnorm}[aout]`
+      );
+    } else {
+      filters.push(`[1:a]${loudnorm}[aout]`);
+    }
+
+    await runFfmpeg(
+      command
+        .complexFilter(filters)
+        .outputOptions([
+          '-map [vout]',
+          '-map [aout]',
+          '-c:v libx264',
+          '-pix_fmt yuv420p',
+          '-c:a aac',
+          '-b:a 192k',
+          '-ar 48000',
+          '-shortest',
+          '-movflags +faststart',
+        ]),
+      outputPath
+    );
+
+    return fs.readFile(outputPath);
+  });
+}
+
+/**
+ * Returns the duration of a media file in seconds, as reported by ffprobe.
+ * @param media - The media file content.
+ * @param fileName - A file name whose extension tells ffprobe the container format.
+ */
+export async function probeDuration(
+  media: Buffer,
+  fileName: string
+): Promise<number> {
+  return withWorkDir(async (workDir) => {
+    const mediaPath = path.join(workDir, fileName);
+    await fs.writeFile(mediaPath, media);
+
+    return new Promise<number>((resolve, reject) => {
+      ffmpeg.ffprobe(mediaPath, (err, metadata) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+        resolve(Number(metadata.format.duration) || 0);
+      });
+    });
+  });
+}
+
+export interface Clip {
+  // The MP4 clip.
+  video: Buffer;
+  // How long the clip should be on screen, in seconds. Clips are looped or trimmed to fit.
+  duration: number;
+}
+
+/**
+ * Concatenates clips into a single 768x1280 MP4, joining consecutive clips with a crossfade.
+ * Each clip is on screen for its `duration`, so the output lasts the sum of the durations.
+ * @param clips - The clips, in order.
+ * @param crossfade - The length of each crossfade in seconds.
+ * @returns A promise that resolves with the concatenated video.
+ */
+export async function concatenateClips(
+  clips: Clip[],
+  crossfade: number
+): Promise<Buffer> {
+  return withWorkDir(async (workDir) => {
+    const outputPath = path.join(workDir, 'video.mp4');
+    const command = ffmpeg();
+    const filters: string[] = [];
+
+    for (const [index, clip] of clips.entries()) {
+      const clipPath = path.join(workDir, `clip-${index}.mp4`);
+      await fs.writeFile(clipPath, clip.video);
+
+      // Every clip but the last runs on under the crossfade into the next one.
+      const length = clip.duration + (index < clips.length - 1 ? crossfade : 0);
+      command
+        .input(clipPath)
+        .inputOptions(['-stream_loop -1', `-t ${length.toFixed(3)}`]);
+      filters.push(
+        `[${index}:v]scale=768:1280:force_original_aspect_ratio=increase,crop=768:1280,setsar=1,fps=24,format=yuv420p[s${index}]`
+      );
+    }
+
+    let previous = 's0';
+    let offset = 0;
+    for (let index = 1; index < clips.length; index++) {
+      offset += clips[index - 1].duration;
+      const output = `x${index}`;
+      filters.push(
+        `[${previous}][s${index}]xfade=transition=fade:duration=${crossfade}:offset=${offset.toFixed(3)}[${output}]`
+      );
+      previous = output;
+    }
+
+    await runFfmpeg(
+      command
+        .complexFilter(filters)
+        .outputOptions([`-map [${previous}]`, '-c:v libx264', '-an']),
+      outputPath
+    );
+
+    return fs.readFile(outputPath);
+  });
+}
+
+/**
+ * Picks a representative frame of a video and returns it as a JPEG, for use as its poster image.
+ * @param video - The MP4 video.
+ */
+export async function extractPoster(video: Buffer): Promise<Buffer> {
+  return withWorkDir(async (workDir) => {
+    const videoPath = path.join(workDir, 'video.mp4');
+    const outputPath = path.join(workDir, 'poster.jpg');
+    await fs.writeFile(videoPath, video);
+
+    await runFfmpeg(
+      ffmpeg(videoPath).outputOptions([
+        '-vf thumbnail',
+        '-frames:v 1',
+        '-q:v 3',
+      ]),
+      outputPath
+    );
+
+    return fs.readFile(outputPath);
+  });
+}
+
+export interface HlsRendition {
+  // Names the rendition's playlist and segment files, e.g. `1280p`.
+  name: string;
+  width: number;
+  height: number;
+  // Target bitrates in kbit/s.
+  videoBitrate: number;
+  audioBitrate: number;
+}
+
+// The bitrate ladder of the adaptive stream, best first. The top rung matches the 768x1280 reel.
+export const HLS_RENDITIONS: HlsRendition[] = [
+  {
+    name: '1280p',
+    width: 768,
+    height: 1280,
+    videoBitrate: 2500,
+    audioBitrate: 128,
+  },
+  {
+    name: '854p',
+    width: 480,
+    height: 854,
+    videoBitrate: 1200,
+    audioBitrate: 96,
+  },
+  {
+    name: '640p',
+    width: 360,
+    height: 640,
+    videoBitrate: 600,
+    audioBitrate: 64,
+  },
+];
+
+// Length of an HLS segment in seconds.
+const HLS_SEGMENT_SECONDS = 4;
+
+// How far above its target the video bitrate of a rendition may peak.
+export const HLS_PEAK_BITRATE_FACTOR = 1.1;
+
+export interface HlsFile {
+  fileName: string;
+  content: Buffer;
+}
+
+export interface HlsVariant {
+  rendition: HlsRendition;
+  // The media playlist, which lists the segments by file name.
+  playlist: string;
+  segments: HlsFile[];
+}
+
+/**
+ * Encodes a reel into the HLS renditions of `HLS_RENDITIONS`, each cut into MPEG-TS segments
+ * with a VOD media playlist. Keyframes are forced on segment boundaries so players can switch
+ * renditions between any two segments. The master playlist is left to the caller, as it has to
+ * point at wherever the media playlists end up (see `src/lib/hls.ts`).
+ * @param video - The MP4 reel.
+ */
+export async function packageHls(video: Buffer): Promise<HlsVariant[]> {
+  return withWorkDir(async (workDir) => {
+    const videoPath = path.join(workDir, 'reel.mp4');
+    await fs.writeFile(videoPath, video);
+
+    const variants: HlsVariant[] = [];
+    for (const rendition of HLS_RENDITIONS) {
+      const playlistPath = path.join(workDir, `${rendition.name}.m3u8`);
+      await runFfmpeg(
+        ffmpeg(videoPath).outputOptions([
+          `-vf scale=${rendition.width}:${rendition.height},setsar=1`,
+          '-c:v libx264',
+          '-pix_fmt yuv420p',
+          '-profile:v main',
+          `-b:v ${rendition.videoBitrate}k`,
+          `-maxrate ${Math.round(rendition.videoBitrate * HLS_PEAK_BITRATE_FACTOR)}k`,
+          `-bufsize ${rendition.videoBitrate * 2}k`,
+          `-force_key_frames expr:gte(t,n_forced*${HLS_SEGMENT_SECONDS})`,
+          '-c:a aac',
+          `-b:a ${rendition.audioBitrate}k`,
+          '-ar 48000',
+          '-f hls',
+          `-hls_time ${HLS_SEGMENT_SECONDS}`,
+          '-hls_playlist_type vod',
+          `-hls_segment_filename ${path.join(workDir, `${rendition.name}_%03d.ts`)}`,
+        ]),
+        playlistPath
+      );
+
+      const segmentNames = (await fs.readdir(workDir))
+        .filter(
+          (name) =>
+            name.startsWith(`${rendition.name}_`) && name.endsWith('.ts')
+        )
+        .sort();
+      variants.push({
+        rendition,
+        playlist: await fs.readFile(playlistPath, 'utf8'),
+        segments: await Promise.all(
+          segmentNames.map(async (fileName) => ({
+            fileName,
+            content: await fs.readFile(path.join(workDir, fileName)),
+          }))
+        ),
+      });
+    }
+    return variants;
+  });
+}
+
+// How long the animated preview runs, and its size.
+const PREVIEW_SECONDS = 3;
+const PREVIEW_WIDTH = 240;
+const PREVIEW_FPS = 10;
+
+/**
+ * Cuts a short, silent animated GIF from the start of a reel, for previews where autoplaying the video is too heavy.
+ * The palette is generated from the clip itself to keep the colours close to the reel.
+ * @param video - The MP4 reel.
+ */
+export async function createAnimatedPreview(video: Buffer): Promise<Buffer> {
+  return withWorkDir(async (workDir) => {
+    const videoPath = path.join(workDir, 'reel.mp4');
+    const outputPath = path.join(workDir, 'preview.gif');
+    await fs.writeFile(videoPath, video);
+
+    await runFfmpeg(
+      ffmpeg(videoPath)
+        .inputOptions([`-t ${PREVIEW_SECONDS}`])
+        .complexFilter([
+          `[0:v]fps=${PREVIEW_FPS},scale=${PREVIEW_WIDTH}:-2:flags=lanczos,split[a][b]`,
+          '[a]palettegen=stats_mode=diff[palette]',
+          '[b][palette]paletteuse=dither=bayer:bayer_scale=5',
+        ])
+        .outputOptions(['-loop 0', '-an']),
+      outputPath
+    );
+
+    return fs.readFile(outputPath);
+  });
+}
@@ -0,0 +1,168 @@
+import { HLS_PEAK_BITRATE_FACTOR, HlsVariant } from './ffmpeg';
+import type { JobAsset } from './jobs';
+import type { StorageDirectory, StorageProvider } from './providers/types';
+
+/**
+ * Publishes the HLS renditions of a reel (see `packageHls` in `src/lib/ffmpeg.ts`) to storage, and serves them.
+ *
+ * The files are stored as ffmpeg wrote them, under one folder per reel: the segments and the media playlist
+ * of each rendition, and a master playlist listing the media playlists, all referring to each other by
+ * relative name. With public URLs players resolve those names next to the master playlist in storage.
+ * Signed URLs cannot be resolved that way (each file has its own signature, which expires), so then the
+ * playlists are served by `GET /api/reels/[id]/hls/[file]`, which rewrites every entry on request: media
+ * playlists to that route, segments to freshly signed URLs (`servePlaylist`).
+ */
+
+export const HLS_CONTENT_TYPES = {
+  playlist: 'application/vnd.apple.mpegurl',
+  segment: 'video/mp2t',
+};
+
+export interface PublishedHls {
+  // The URL and the stored name of the master playlist.
+  url: string;
+  fileName: string;
+  // Every stored file, playlists and segments.
+  assets: JobAsset[];
+}
+
+/**
+ * Uploads the renditions of a reel and the master playlist listing them.
+ * @param prefix - The folder the files are stored under inside `directory`, e.g. `hls-<job id>`.
+ */
+export async function publishHls(
+  storage: StorageProvider,
+  variants: HlsVariant[],
+  prefix: string,
+  directory: StorageDirectory
+): Promise<PublishedHls> {
+  const assets: JobAsset[] = [];
+  const upload = async (
+    fileName: string,
+    contentType: string,
+    content: Buffer | string
+  ) => {
+    const storedName = `${prefix}/${fileName}`;
+    const url = await storage.upload(
+      storedName,
+      contentType,
+      content,
+      directory
+    );
+    assets.push({ fileName: storedName, directory });
+    return url;
+  };
+
+  await Promise.all(
+    variants.map(async (variant) => {
+      await Promise.all(
+        variant.segments.map((segment) =>
+          upload(segment.fileName, HLS_CONTENT_TYPES.segment, segment.content)
+        )
+      );
+      await upload(
+        `${variant.rendition.name}.m3u8`,
+        HLS_CONTENT_TYPES.playlist,
+        variant.playlist
+      );
+    })
+  );
+
+  const url = await upload(
+    'master.m3u8',
+    HLS_CONTENT_TYPES.playlist,
+    buildMasterPlaylist(variants)
+  );
+  return { url, fileName: `${prefix}/master.m3u8`, assets };
+}
+
+/**
+ * Returns the URL `hlsURL` is served as when signed URLs are enabled.
+ */
+export function hlsPlaylistRoute(reelId: string, file = 'master.m3u8'): string {
+  return `/api/reels/${reelId}/hls/${file}`;
+}
+
+/**
+ * Reads a stored playlist of a reel and rewrites its entries for the player: media playlists to
+ * `hlsPlaylistRoute`, segments to URLs made afresh by the storage provider.
+ * @param masterFileName - The stored name of the master playlist of the reel.
+ * @param file - The name of the playlist in the folder of the master playlist.
+ */
+export async function servePlaylist(
+  storage: StorageProvider,
+  reelId: string,
+  masterFileName: string,
+  file: string
+): Promise<string> {
+  const folder = masterFileName.slice(0, masterFileName.lastIndexOf('/'));
+  const playlist = (
+    await storage.download(`${folder}/${file}`, 'reel')
+  ).toString();
+  const urls = new Map(
+    await Promise.all(
+      getPlaylistEntries(playlist).map(
+        async (entry) =>
+          [
+            entry,
+            entry.endsWith('.m3u8')
+              ? hlsPlaylistRoute(reelId, entry)
+              : await storage.getUrl(`${folder}/${entry}`, 'reel'),
+          ] as const
+      )
+    )
+  );
+  return rewritePlaylist(playlist, urls);
+}
+
+/**
+ * Returns the URIs of a playlist: its non-blank lines that are not tags.
+ */
+export function getPlaylistEntries(playlist: string): string[] {
+  return playlist
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#'));
+}
+
+/**
+ * Replaces the URIs of a playlist (its non-tag lines) with the given URLs.
+ */
+export function rewritePlaylist(
+  playlist: string,
+  urls: Map<string, string>
+): string {
+  return playlist
+    .split('\n')
+    .map((line) => {
+      const entry = line.trim();
+      if (!entry || entry.startsWith('#')) {
+        return line;
+      }
+      const url = urls.get(entry);
+      if (!url) {
+        throw new Error(`Playlist entry ${entry} has no URL.`);
+      }
+      return url;
+    })
+    .join('\n');
+}
+
+/**
+ * Builds a master playlist listing the media playlist of each rendition by name, best first.
+ * The advertised bandwidth is the peak video bitrate plus the audio bitrate.
+ */
+export function buildMasterPlaylist(variants: HlsVariant[]): string {
+  const lines = ['#EXTM3U', '#EXT-X-VERSION:3', '#EXT-X-INDEPENDENT-SEGMENTS'];
+  for (const variant of variants) {
+    const { width, height, videoBitrate, audioBitrate } = variant.rendition;
+    const bandwidth = Math.round(
+      (videoBitrate * HLS_PEAK_BITRATE_FACTOR + audioBitrate) * 1000
+    );
+    lines.push(
+      `#EXT-X-STREAM-INF:BANDWIDTH=${bandwidth},RESOLUTION=${width}x${height}`,
+      `${variant.rendition.name}.m3u8`
+    );
+  }
+  return `${lines.join('\n')}\n`;
+}
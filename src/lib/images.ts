@@ -0,0 +1,223 @@
+import ffmpeg from 'fluent-ffmpeg';
+import fs from 'fs/promises';
+import path from 'path';
+import { runFfmpeg, withWorkDir } from './ffmpeg';
+import { FOCAL_CENTRE, FocalPoint, ImageFit, MAX_IMAGE_BYTES } from './scenes';
+
+/**
+ * Validation and normalisation of the scene images uploaded through `POST /api/uploads`.
+ *
+ * Images are checked on the server (type by content, size and dimensions) and re-encoded as a
+ * 768x1280 JPEG, the portrait frame the video provider generates. Re-encoding drops all metadata,
+ * EXIF included. Images of another aspect ratio are either cropped around a focal point or padded.
+ */
+
+export const REEL_IMAGE_WIDTH = 768;
+export const REEL_IMAGE_HEIGHT = 1280;
+
+// Smallest and largest accepted side of an uploaded image, in pixels.
+export const MIN_IMAGE_SIDE = 256;
+export const MAX_IMAGE_SIDE = 8192;
+
+export class InvalidImageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidImageError';
+  }
+}
+
+/**
+ * Returns the MIME type of an image from its first bytes, or null when it is not a PNG or JPEG.
+ * The type sent by the browser is not trusted.
+ */
+export function detectImageType(content: Buffer): string | null {
+  if (
+    content
+      .subarray(0, 8)
+      .equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))
+  ) {
+    return 'image/png';
+  }
+  if (content.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff]))) {
+    return 'image/jpeg';
+  }
+  return null;
+}
+
+/**
+ * Reads the focal point of an upload. Missing coordinates default to the centre.
+ * @returns The focal point, or an error message when a coordinate is not between 0 and 1.
+ */
+export function parseFocalPoint(
+  x: unknown,
+  y: unknown
+): { focalPoint: FocalPoint } | { error: string } {
+  const focalPoint = {
+    x: x === null || x === undefined || x === '' ? FOCAL_CENTRE.x : Number(x),
+    y: y === null || y === undefined || y === '' ? FOCAL_CENTRE.y : Number(y),
+  };
+  if (
+    !(focalPoint.x >= 0 && focalPoint.x <= 1) ||
+    !(focalPoint.y >= 0 && focalPoint.y <= 1)
+  ) {
+    return { error: 'focalX and focalY must be between 0 and 1' };
+  }
+  return { focalPoint };
+}
+
+/**
+ * Validates an uploaded image and re-encodes it as a 768x1280 JPEG without metadata.
+ * @param content - The uploaded file.
+ * @param fit - Whether to crop the image to the frame or pad it with black bars.
+ * @param focalPoint - The point to keep in frame when cropping.
+ * @throws {InvalidImageError} When the image is not a PNG or JPEG, is too large, or its
+ * dimensions are out of range.
+ */
+export async function normaliseImage(
+  content: Buffer,
+  fit: ImageFit = 'crop',
+  focalPoint: FocalPoint = FOCAL_CENTRE
+): Promise<Buffer> {
+  if (content.length > MAX_IMAGE_BYTES) {
+    throw new InvalidImageError(
+      `Images must be at most ${MAX_IMAGE_BYTES / 1024 / 1024}MB.`
+    );
+  }
+  const type = detectImageType(content);
+  if (!type) {
+    throw new InvalidImageError('Images must be PNG or JPG.');
+  }
+
+  return withWorkDir(async (workDir) => {
+    const inputPath = path.join(
+      workDir,
+      type === 'image/png' ? 'input.png' : 'input.jpg'
+    );
+    const outputPath = path.join(workDir, 'image.jpg');
+    await fs.writeFile(inputPath, content);
+
+    const { width, height } = await probeDimensions(inputPath);
+    if (
+      Math.min(width, height) < MIN_IMAGE_SIDE ||
+      Math.max(width, height) > MAX_IMAGE_SIDE
+    ) {
+      throw new InvalidImageError(
+        `Image sides must be between ${MIN_IMAGE_SIDE} and ${MAX_IMAGE_SIDE} pixels (got ${width}x${height}).`
+      );
+    }
+
+    await runFfmpeg(
+      ffmpeg(inputPath)
+        .videoFilters(
+          fit === 'pad' ? padFilters() : cropFilters(width, height, focalPoint)
+        )
+        .outputOptions(['-frames:v 1', '-q:v 2', '-map_metadata -1']),
+      outputPath
+    );
+
+    return fs.readFile(outputPath);
+  });
+}
+
+/**
+ * Scales the image to cover the frame and crops it around the focal point. The crop is placed
+ * the way CSS `object-position` places an image, so `Create` can preview it exactly:
+ * the focal point is always in frame, at the same relative position in the crop as in the image.
+ */
+function cropFilters(
+  width: number,
+  height: number,
+  focalPoint: FocalPoint
+): string[] {
+  const scale = Math.max(REEL_IMAGE_WIDTH / width, REEL_IMAGE_HEIGHT / height);
+  const scaledWidth = Math.max(REEL_IMAGE_WIDTH, Math.round(width * scale));
+  const scaledHeight = Math.max(REEL_IMAGE_HEIGHT, Math.round(height * scale));
+  const offset = (focus: number, scaled: number, frame: number) =>
+    Math.round(focus * (scaled - frame));
+
+  return [
+    `scale=${scaledWidth}:${scaledHeight}`,
+    `crop=${REEL_IMAGE_WIDTH}:${REEL_IMAGE_HEIGHT}:${offset(focalPoint.x, scaledWidth, REEL_IMAGE_WIDTH)}:${offset(focalPoint.y, scaledHeight, REEL_IMAGE_HEIGHT)}`,
+    'setsar=1',
+  ];
+}
+
+/**
+ * Scales the image to fit inside the frame and centres it on black bars.
+ */
+function padFilters(): string[] {
+  return [
+    `scale=${REEL_IMAGE_WIDTH}:${REEL_IMAGE_HEIGHT}:force_original_aspect_ratio=decrease`,
+    `pad=${REEL_IMAGE_WIDTH}:${REEL_IMAGE_HEIGHT}:(ow-iw)/2:(oh-ih)/2:color=black`,
+    'setsar=1',
+  ];
+}
+
+/**
+ * Computes the perceptual hash (a 64-bit difference hash) of an image, as 16 hex digits.
+ * The image is shrunk to 9x8 grey pixels and each bit records whether a pixel is brighter than its right
+ * neighbour, so re-encoded, resized or slightly edited copies of an image get the same or a close hash.
+ * Compare hashes with `hashDistance`.
+ */
+export async function perceptualHash(image: Buffer): Promise<string> {
+  return withWorkDir(async (workDir) => {
+    const inputPath = path.join(
+      workDir,
+      detectImageType(image) === 'image/png' ? 'input.png' : 'input.jpg'
+    );
+    const outputPath = path.join(workDir, 'pixels.gray');
+    await fs.writeFile(inputPath, image);
+    await runFfmpeg(
+      ffmpeg(inputPath)
+        .videoFilters(['scale=9:8:flags=area', 'format=gray'])
+        .outputOptions(['-frames:v 1', '-f rawvideo']),
+      outputPath
+    );
+    const pixels = await fs.readFile(outputPath);
+
+    // Four bits per hex digit, row by row.
+    let hash = '';
+    for (let nibble = 0; nibble < 16; nibble++) {
+      let value = 0;
+      for (let bit = 0; bit < 4; bit++) {
+        const index = nibble * 4 + bit;
+        const pixel = Math.floor(index / 8) * 9 + (index % 8);
+        value = (value << 1) | (pixels[pixel] > pixels[pixel + 1] ? 1 : 0);
+      }
+      hash += value.toString(16);
+    }
+    return hash;
+  });
+}
+
+/**
+ * Returns how many of the 64 bits of two perceptual hashes differ (0 for identical images).
+ */
+export function hashDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let index = 0; index < 16; index++) {
+    let difference = parseInt(a[index], 16) ^ parseInt(b[index], 16);
+    while (difference) {
+      distance += difference & 1;
+      difference >>= 1;
+    }
+  }
+  return distance;
+}
+
+function probeDimensions(
+  imagePath: string
+): Promise<{ width: number; height: number }> {
+  return new Promise((resolve, reject) => {
+    ffmpeg.ffprobe(imagePath, (err, metadata) => {
+      if (err) {
+        reject(new InvalidImageError('The image could not be read.'));
+        return;
+      }
+      const stream = metadata.streams.find(
+        (candidate) => candidate.codec_type === 'video'
+      );
+      resolve({ width: stream?.width || 0, height: stream?.height || 0 });
+    });
+  });
+}
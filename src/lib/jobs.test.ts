@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  createJob,
+  GenerationInput,
+  hashGenerationInput,
+  IdempotencyKeyConflictError,
+  Job,
+  JobStatus,
+} from './jobs';
+import { readCollection, updateCollection } from './localStore';
+
+vi.mock('./localStore', () => ({
+  readCollection: vi.fn(),
+  updateCollection: vi.fn(),
+}));
+
+const PHOTO = '/api/assets/temp/image-0123456789abcdef0123456789abcdef.jpg';
+
+const INPUT: GenerationInput = {
+  sports: 'Surfing',
+  burnCaptions: false,
+  voice: { languageCode: 'en-US', speakingRate: 1, pitch: 0, ssml: false },
+  scenes: [{ photo: PHOTO, prompt: 'Big waves' }],
+  musicTrack: null,
+  forceRegenerate: false,
+};
+
+let jobs: Record<string, Job> = {};
+
+beforeEach(() => {
+  jobs = {};
+  vi.mocked(readCollection).mockImplementation(async () => jobs);
+  vi.mocked(updateCollection).mockImplementation(
+    async (_collection, _fallback, mutate) => {
+      const current = structuredClone(jobs);
+      jobs = (mutate(current) ?? current) as Record<string, Job>;
+      return jobs;
+    }
+  );
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+function setStatus(id: string, status: JobStatus) {
+  jobs[id] = { ...jobs[id], status };
+}
+
+describe('hashGenerationInput', () => {
+  it('identifies an image by its stored name, whatever its URL', () => {
+    expect(
+      hashGenerationInput({
+        ...INPUT,
+        sports: ' surfing ',
+        scenes: [
+          {
+            photo: `https://cdn.example.com${PHOTO}?X-Amz-Signature=abc`,
+            prompt: 'Big waves',
+          },
+        ],
+      })
+    ).toBe(hashGenerationInput(INPUT));
+  });
+
+  it('ignores forceRegenerate', () => {
+    expect(hashGenerationInput({ ...INPUT, forceRegenerate: true })).toBe(
+      hashGenerationInput(INPUT)
+    );
+  });
+
+  it('tells different inputs apart', () => {
+    expect(hashGenerationInput({ ...INPUT, burnCaptions: true })).not.toBe(
+      hashGenerationInput(INPUT)
+    );
+  });
+});
+
+describe('createJob', () => {
+  it.each<JobStatus>(['queued', 'running', 'succeeded'])(
+    'reuses a %s job with the same input',
+    async (status) => {
+      await createJob('1', INPUT);
+      setStatus('1', status);
+
+      const { job, created } = await createJob('2', INPUT);
+
+      expect(created).toBe(false);
+      expect(job.id).toBe('1');
+      expect(Object.keys(jobs)).toEqual(['1']);
+    }
+  );
+
+  it.each<JobStatus>(['failed', 'cancelled'])(
+    'creates a new job when the one with the same input %s',
+    async (status) => {
+      await createJob('1', INPUT);
+      setStatus('1', status);
+
+      const { job, created } = await createJob('2', INPUT);
+
+      expect(created).toBe(true);
+      expect(job.id).toBe('2');
+    }
+  );
+
+  it('creates a new job when regeneration is forced', async () => {
+    await createJob('1', INPUT);
+
+    const { created } = await createJob('2', {
+      ...INPUT,
+      forceRegenerate: true,
+    });
+
+    expect(created).toBe(true);
+  });
+
+  it('returns the job of a repeated idempotency key, even when it failed', async () => {
+    await createJob('1', INPUT, 'key');
+    setStatus('1', 'failed');
+
+    const { job, created } = await createJob('2', INPUT, 'key');
+
+    expect(created).toBe(false);
+    expect(job.id).toBe('1');
+  });
+
+  it('rejects an idempotency key reused with a different input', async () => {
+    await createJob('1', INPUT, 'key');
+
+    await expect(
+      createJob('2', { ...INPUT, sports: 'Skiing' }, 'key')
+    ).rejects.toBeInstanceOf(IdempotencyKeyConflictError);
+    await expect(
+      createJob('2', { ...INPUT, forceRegenerate: true }, 'key')
+    ).rejects.toBeInstanceOf(IdempotencyKeyConflictError);
+  });
+
+  it('forgets an idempotency key after 24 hours', async () => {
+    vi.useFakeTimers({ now: Date.parse('2026-01-01T00:00:00.000Z') });
+    await createJob('1', INPUT, 'key');
+    setStatus('1', 'failed');
+    vi.setSystemTime(Date.parse('2026-01-02T00:00:01.000Z'));
+
+    const { job, created } = await createJob('2', INPUT, 'key');
+
+    expect(created).toBe(true);
+    expect(job.id).toBe('2');
+  });
+});
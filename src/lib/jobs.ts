@@ -0,0 +1,636 @@
+import type { ErrorCode, JobEvent } from './api';
+import { hashInputs } from './assetCache';
+import { readCollection, updateCollection } from './localStore';
+import type { StorageDirectory } from './providers/types';
+import { Scene, sceneImageFileName } from './scenes';
+import type { VoiceSettings } from './voices';
+
+/**
+ * Generation jobs created by `POST /api/generate-video` (or a batch, see `src/lib/batches.ts`) and reported by
+ * `GET /api/jobs/[id]`.
+ *
+ * A job tracks each stage of the reel pipeline separately so the client can show
+ * partial results (e.g. the script and voiceover) before the video is ready,
+ * and so a failure can be attributed to the stage that caused it.
+ *
+ * A job can be cancelled while it is queued or running. The pipeline of a job runs in the process
+ * that created it, which registers an `AbortController` for it (`startJobRun`) so a cancellation
+ * stops in-flight provider calls straight away; the pipeline also checks the stored status
+ * before every stage, so a cancellation recorded by another process stops it at the next stage.
+ *
+ * While a process runs a job, or holds it to run later (`holdJobs`), it records a heartbeat on the job.
+ * A queued or running job without a heartbeat or a change for `ORPHANED_JOB_MS` lost its process
+ * (e.g. to a restart or a crash) and will never finish, so it is failed (`failOrphanedJobs`), at startup
+ * and whenever a job is created.
+ *
+ * Generation is paid for, so jobs are deduplicated: a job is not created when an identical request
+ * (same `inputHash`) already has a queued, running or succeeded job, unless it forces regeneration,
+ * and a request repeated with the same `Idempotency-Key` returns the job of the first one.
+ *
+ * Every change to a job made in this process is also pushed to its watchers (`watchJob`), which is how
+ * `GET /api/jobs/[id]/events` streams the progress of a job without polling the store.
+ *
+ * Jobs are kept after they finish, as the generation history shown on `/history`. Each stage records
+ * the files it stored, so deleting a job can remove its assets (see `deleteJob`).
+ */
+
+export type JobStatus =
+  | 'queued'
+  | 'running'
+  | 'succeeded'
+  | 'failed'
+  | 'cancelled';
+
+export type StageName = 'script' | 'voiceover' | 'captions' | 'video' | 'merge';
+
+export const STAGE_NAMES: StageName[] = [
+  'script',
+  'voiceover',
+  'captions',
+  'video',
+  'merge',
+];
+
+// The error code a failed stage is reported with, unless the failure has a more specific one
+// (e.g. `STORAGE_FAILED` or `VIDEO_REJECTED_COPYRIGHT`).
+export const STAGE_ERROR_CODES: Record<StageName, ErrorCode> = {
+  script: 'SCRIPT_FAILED',
+  voiceover: 'TTS_FAILED',
+  captions: 'CAPTIONS_FAILED',
+  video: 'VIDEO_FAILED',
+  merge: 'MERGE_FAILED',
+};
+
+// A file stored by a stage.
+export interface JobAsset {
+  fileName: string;
+  directory: StorageDirectory;
+}
+
+export interface JobStage {
+  status: JobStatus;
+  url?: string;
+  // Every file the stage stored or reused from the cache.
+  assets?: JobAsset[];
+  // How far the stage has got (0 to 1), for stages that can report it (the video clips).
+  progress?: number;
+  error?: string;
+  errorCode?: ErrorCode;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+// The (serialisable) inputs a job was created with.
+export interface GenerationInput {
+  sports: string;
+  burnCaptions: boolean;
+  voice: VoiceSettings;
+  // The uploaded image URL and prompt of each scene, in order.
+  scenes: Scene[];
+  // The background music track mixed under the voiceover, or null for none.
+  musicTrack: string | null;
+  // Skip every cache and produce all assets again.
+  forceRegenerate: boolean;
+}
+
+export interface Job {
+  id: string;
+  status: JobStatus;
+  input: GenerationInput;
+  // Hash of the normalised input (see `hashGenerationInput`).
+  inputHash: string;
+  // The `Idempotency-Key` header of the request that created the job.
+  idempotencyKey?: string;
+  stages: Record<StageName, JobStage>;
+  error?: string;
+  errorCode?: ErrorCode;
+  createdAt: string;
+  updatedAt: string;
+  // Counts the changes to the job, so of two copies read at different times the newer one can be told
+  // apart even when they were changed within the same millisecond (see `isNewerJob`). Missing on old jobs.
+  version?: number;
+  // When the process running the job last recorded that it is still alive.
+  heartbeatAt?: string;
+  // When the job succeeded, failed or was cancelled.
+  finishedAt?: string;
+}
+
+export interface JobPage {
+  jobs: Job[];
+  nextCursor: string | null;
+}
+
+export class InvalidJobCursorError extends Error {
+  constructor() {
+    super('Invalid cursor.');
+    this.name = 'InvalidJobCursorError';
+  }
+}
+
+type JobCollection = Record<string, Job>;
+
+const COLLECTION = 'jobs';
+
+// Abort controllers of the jobs whose pipeline runs in this process.
+const runningJobs = new Map<string, AbortController>();
+
+// The jobs this process will run later (e.g. the waiting jobs of a batch), see `holdJobs`.
+const heldJobs = new Set<string>();
+
+// How often the jobs this process runs or holds are marked alive, and how long a queued or running job
+// can go without a heartbeat or a change before it is considered orphaned.
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+const ORPHANED_JOB_MS = 3 * 60 * 1000;
+
+let heartbeat: ReturnType<typeof setInterval> | null = null;
+
+// Listeners for the changes made to each job in this process (see `watchJob`).
+const jobWatchers = new Map<string, Set<(job: Job) => void>>();
+
+// How long an `Idempotency-Key` is remembered.
+const IDEMPOTENCY_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+export class IdempotencyKeyConflictError extends Error {
+  constructor() {
+    super('The Idempotency-Key was already used for a different request.');
+    this.name = 'IdempotencyKeyConflictError';
+  }
+}
+
+/**
+ * Hashes the inputs of a generation request, normalised so that the same request always hashes
+ * the same: the sport is lower-cased and each image is identified by the name it is stored under,
+ * which is a hash of the uploaded image (its URL can differ between requests, e.g. when it is signed).
+ * `forceRegenerate` is not part of the hash.
+ */
+export function hashGenerationInput(input: GenerationInput): string {
+  return hashInputs({
+    sports: input.sports.trim().toLowerCase(),
+    burnCaptions: input.burnCaptions,
+    voice: input.voice,
+    scenes: input.scenes.map((scene) => ({
+      photo: sceneImageFileName(scene.photo),
+      prompt: scene.prompt,
+    })),
+    musicTrack: input.musicTrack,
+  });
+}
+
+let lastJobId = 0;
+
+/**
+ * Returns the id of a new job: the current time in milliseconds, moved on by one when
+ * several jobs are created within the same millisecond (e.g. by a batch), so ids never collide.
+ */
+export function newJobId(): string {
+  lastJobId = Math.max(Date.now(), lastJobId + 1);
+  return String(lastJobId);
+}
+
+/**
+ * Creates a new queued job with every stage pending, unless the request can reuse an existing job:
+ * - the job created for the same `idempotencyKey` (within the last 24 hours), or
+ * - when regeneration is not forced, the latest queued, running or succeeded job with the same input
+ *   (orphaned jobs are failed first, see `failOrphanedJobs`).
+ * @param id - The id of the new job.
+ * @param input - The (serialisable) inputs the job was created with.
+ * @param idempotencyKey - The `Idempotency-Key` header of the request, if any.
+ * @returns A promise that resolves with the new or reused job, and whether it was created.
+ * @throws {IdempotencyKeyConflictError} When the key was used for a request with different inputs.
+ */
+export async function createJob(
+  id: string,
+  input: GenerationInput,
+  idempotencyKey?: string
+): Promise<{ job: Job; created: boolean }> {
+  const now = new Date().toISOString();
+  const inputHash = hashGenerationInput(input);
+  const job: Job = {
+    id,
+    status: 'queued',
+    input,
+    inputHash,
+    ...(idempotencyKey && { idempotencyKey }),
+    stages: Object.fromEntries(
+      STAGE_NAMES.map((stage) => [stage, { status: 'queued' }])
+    ) as Record<StageName, JobStage>,
+    createdAt: now,
+    updatedAt: now,
+    version: 0,
+  };
+
+  let existing: Job | undefined;
+  let orphaned: string[] = [];
+  // Looking up and inserting in one update keeps concurrent duplicates from both creating a job.
+  const jobs = await updateCollection<JobCollection>(COLLECTION, {}, (jobs) => {
+    // An orphaned job never finishes, so a request must not be deduplicated against it.
+    orphaned = markOrphanedJobsFailed(jobs);
+    const candidates = Object.values(jobs).sort((a, b) =>
+      b.createdAt.localeCompare(a.createdAt)
+    );
+    existing = idempotencyKey
+      ? candidates.find(
+          (candidate) =>
+            candidate.idempotencyKey === idempotencyKey &&
+            Date.parse(candidate.createdAt) >
+              Date.now() - IDEMPOTENCY_KEY_TTL_MS
+        )
+      : undefined;
+    if (
+      existing &&
+      (existing.inputHash !== inputHash ||
+        existing.input.forceRegenerate !== input.forceRegenerate)
+    ) {
+      throw new IdempotencyKeyConflictError();
+    }
+    if (!existing && !input.forceRegenerate) {
+      existing = candidates.find(
+        (candidate) =>
+          candidate.inputHash === inputHash &&
+          ['queued', 'running', 'succeeded'].includes(candidate.status)
+      );
+    }
+    if (!existing) {
+      jobs[id] = job;
+    }
+  });
+  orphaned.forEach((orphanedId) => notifyJobWatchers(jobs[orphanedId]));
+  return existing ? { job: existing, created: false } : { job, created: true };
+}
+
+/**
+ * Returns one page of the generation history, newest first.
+ * @param cursor - The `nextCursor` of the previous page, or null for the first page.
+ * @param limit - The maximum number of jobs to return.
+ * @throws {InvalidJobCursorError} When the cursor does not point at a job.
+ */
+export async function listJobs(
+  cursor: string | null,
+  limit: number
+): Promise<JobPage> {
+  const jobs = Object.values(
+    await readCollection<JobCollection>(COLLECTION, {})
+  ).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  let start = 0;
+  if (cursor) {
+    const lastId = Buffer.from(cursor, 'base64url').toString();
+    start = jobs.findIndex((job) => job.id === lastId) + 1;
+    if (start === 0) {
+      throw new InvalidJobCursorError();
+    }
+  }
+
+  const page = jobs.slice(start, start + limit);
+  return {
+    jobs: page,
+    nextCursor:
+      start + limit < jobs.length
+        ? Buffer.from(page[page.length - 1].id).toString('base64url')
+        : null,
+  };
+}
+
+/**
+ * Removes a finished job from the store.
+ * @returns The removed job and the files only it referenced (cached files can be shared by several jobs),
+ * or null when the job does not exist.
+ */
+export async function deleteJob(
+  id: string
+): Promise<{ job: Job; unusedAssets: JobAsset[] } | null> {
+  let deleted: { job: Job; unusedAssets: JobAsset[] } | null = null;
+  await updateCollection<JobCollection>(COLLECTION, {}, (jobs) => {
+    const job = jobs[id];
+    if (!job) return;
+
+    delete jobs[id];
+    const inUse = new Set(
+      Object.values(jobs).flatMap((other) => getJobAssets(other).map(assetKey))
+    );
+    deleted = {
+      job,
+      unusedAssets: getJobAssets(job).filter(
+        (asset) => !inUse.has(assetKey(asset))
+      ),
+    };
+  });
+  return deleted;
+}
+
+/**
+ * Returns the names of the files in `temp/` that jobs still need: the files of queued and running jobs,
+ * and the uploaded scene images of every job, which re-running it uses again.
+ */
+export async function getTempFilesInUse(): Promise<Set<string>> {
+  const jobs = Object.values(
+    await readCollection<JobCollection>(COLLECTION, {})
+  );
+  const inUse = new Set<string>();
+  for (const job of jobs) {
+    if (!isJobFinished(job)) {
+      getJobAssets(job)
+        .filter((asset) => asset.directory === 'temp')
+        .forEach((asset) => inUse.add(asset.fileName));
+    }
+    for (const scene of job.input.scenes) {
+      inUse.add(sceneImageFileName(scene.photo));
+    }
+  }
+  return inUse;
+}
+
+/**
+ * Returns every file stored by the stages of a job.
+ */
+export function getJobAssets(job: Job): JobAsset[] {
+  return STAGE_NAMES.flatMap((stage) => job.stages[stage].assets || []);
+}
+
+function assetKey(asset: JobAsset): string {
+  return `${asset.directory}/${asset.fileName}`;
+}
+
+/**
+ * Returns the job with the given id, or null when it does not exist.
+ */
+export async function getJob(id: string): Promise<Job | null> {
+  const jobs = await readCollection<JobCollection>(COLLECTION, {});
+  return jobs[id] || null;
+}
+
+/**
+ * Returns the jobs with the given ids, in one read of the store; ids without a job are left out.
+ */
+export async function getJobs(ids: string[]): Promise<Map<string, Job>> {
+  const jobs = await readCollection<JobCollection>(COLLECTION, {});
+  return new Map(
+    ids.filter((id) => jobs[id]).map((id) => [id, jobs[id]] as const)
+  );
+}
+
+/**
+ * Merges `changes` into the given stage and keeps the overall job status in sync:
+ * a running stage marks the job running, a failed stage fails the job.
+ */
+export async function updateJobStage(
+  id: string,
+  stage: StageName,
+  changes: Partial<JobStage>
+): Promise<void> {
+  const jobs = await updateCollection<JobCollection>(COLLECTION, {}, (jobs) => {
+    const job = jobs[id];
+    if (!job) return;
+
+    const now = new Date().toISOString();
+    const current = job.stages[stage];
+    job.stages[stage] = { ...current, ...changes };
+    if (changes.status === 'running') {
+      job.stages[stage].startedAt = now;
+      if (job.status !== 'cancelled') job.status = 'running';
+    }
+    if (
+      changes.status === 'succeeded' ||
+      changes.status === 'failed' ||
+      changes.status === 'cancelled'
+    ) {
+      job.stages[stage].finishedAt = now;
+    }
+    if (changes.status === 'failed' && job.status !== 'cancelled') {
+      job.status = 'failed';
+      job.error = changes.error;
+      job.errorCode = changes.errorCode;
+    }
+    markChanged(job, now);
+  });
+  notifyJobWatchers(jobs[id]);
+}
+
+/**
+ * Marks the job itself as finished. A cancelled job stays cancelled, and a job failed by one of its
+ * stages keeps the error code of that stage.
+ */
+export async function completeJob(
+  id: string,
+  status: 'succeeded' | 'failed' | 'cancelled',
+  error?: string,
+  errorCode?: ErrorCode
+): Promise<void> {
+  const jobs = await updateCollection<JobCollection>(COLLECTION, {}, (jobs) => {
+    const job = jobs[id];
+    if (!job || job.status === 'cancelled') return;
+
+    job.status = status;
+    if (error) job.error = error;
+    if (errorCode) job.errorCode ||= errorCode;
+    job.finishedAt = new Date().toISOString();
+    markChanged(job, job.finishedAt);
+  });
+  notifyJobWatchers(jobs[id]);
+}
+
+/**
+ * Cancels a queued or running job: the job and its pending stages are marked cancelled and,
+ * when its pipeline runs in this process, its in-flight calls are aborted.
+ * @returns The updated job, or null when it does not exist.
+ */
+export async function cancelJob(id: string): Promise<Job | null> {
+  const jobs = await updateCollection<JobCollection>(COLLECTION, {}, (jobs) => {
+    const job = jobs[id];
+    if (!job || (job.status !== 'queued' && job.status !== 'running')) return;
+
+    const now = new Date().toISOString();
+    job.status = 'cancelled';
+    job.error = 'Cancelled by the user.';
+    job.errorCode = 'CANCELLED';
+    for (const stage of STAGE_NAMES) {
+      if (job.stages[stage].status === 'queued') {
+        job.stages[stage] = { status: 'cancelled', finishedAt: now };
+      }
+    }
+    job.finishedAt = now;
+    markChanged(job, now);
+  });
+  runningJobs.get(id)?.abort();
+  notifyJobWatchers(jobs[id]);
+  return jobs[id] || null;
+}
+
+/**
+ * Registers the pipeline of a job as running in this process, which records heartbeats on it.
+ * @returns The signal that aborts when the job is cancelled.
+ */
+export function startJobRun(id: string): AbortSignal {
+  const controller = new AbortController();
+  runningJobs.set(id, controller);
+  updateHeartbeat();
+  return controller.signal;
+}
+
+/**
+ * Unregisters the pipeline of a job once it has finished.
+ */
+export function finishJobRun(id: string): void {
+  runningJobs.delete(id);
+  updateHeartbeat();
+}
+
+/**
+ * Records heartbeats on queued jobs this process will run later, so they are not failed as orphaned
+ * while they wait (e.g. behind the other jobs of a batch).
+ * @returns A function that stops holding the jobs.
+ */
+export function holdJobs(ids: string[]): () => void {
+  ids.forEach((id) => heldJobs.add(id));
+  updateHeartbeat();
+  return () => {
+    ids.forEach((id) => heldJobs.delete(id));
+    updateHeartbeat();
+  };
+}
+
+/**
+ * Fails every queued or running job that has had no heartbeat or change for `ORPHANED_JOB_MS`:
+ * the process that ran it has stopped, so it would otherwise stay unfinished forever.
+ * @returns The ids of the failed jobs.
+ */
+export async function failOrphanedJobs(): Promise<string[]> {
+  let orphaned: string[] = [];
+  const jobs = await updateCollection<JobCollection>(COLLECTION, {}, (jobs) => {
+    orphaned = markOrphanedJobsFailed(jobs);
+  });
+  orphaned.forEach((id) => notifyJobWatchers(jobs[id]));
+  return orphaned;
+}
+
+function markOrphanedJobsFailed(jobs: JobCollection): string[] {
+  const now = new Date();
+  const cutoff = now.getTime() - ORPHANED_JOB_MS;
+  const orphaned = Object.values(jobs).filter(
+    (job) =>
+      !isJobFinished(job) &&
+      !runningJobs.has(job.id) &&
+      !heldJobs.has(job.id) &&
+      Math.max(
+        Date.parse(job.updatedAt),
+        Date.parse(job.heartbeatAt || job.updatedAt)
+      ) < cutoff
+  );
+  for (const job of orphaned) {
+    job.status = 'failed';
+    job.error = 'The server stopped before the job finished.';
+    job.errorCode = 'INTERNAL_ERROR';
+    for (const stage of STAGE_NAMES) {
+      if (!isStageFinished(job.stages[stage])) {
+        job.stages[stage] = {
+          ...job.stages[stage],
+          status: 'failed',
+          finishedAt: now.toISOString(),
+        };
+      }
+    }
+    job.finishedAt = now.toISOString();
+    markChanged(job, job.finishedAt);
+  }
+  return orphaned.map((job) => job.id);
+}
+
+function isStageFinished(stage: JobStage): boolean {
+  return stage.status !== 'queued' && stage.status !== 'running';
+}
+
+// Starts recording heartbeats while this process runs or holds jobs, and stops once it has none.
+function updateHeartbeat(): void {
+  const active = runningJobs.size > 0 || heldJobs.size > 0;
+  if (active && !heartbeat) {
+    heartbeat = setInterval(() => {
+      recordHeartbeat().catch((error) =>
+        console.error('Failed to record the job heartbeat:', error)
+      );
+    }, HEARTBEAT_INTERVAL_MS);
+    // The heartbeat alone does not keep the process alive.
+    heartbeat.unref?.();
+  } else if (!active && heartbeat) {
+    clearInterval(heartbeat);
+    heartbeat = null;
+  }
+}
+
+async function recordHeartbeat(): Promise<void> {
+  const ids = new Set([...runningJobs.keys(), ...heldJobs]);
+  const now = new Date().toISOString();
+  await updateCollection<JobCollection>(COLLECTION, {}, (jobs) => {
+    for (const id of ids) {
+      if (jobs[id] && !isJobFinished(jobs[id])) jobs[id].heartbeatAt = now;
+    }
+  });
+}
+
+/**
+ * Calls `listener` with the updated job every time the job is changed in this process.
+ * Changes made by other processes are only seen by reading the store (see `getJob`).
+ * @returns A function that stops watching.
+ */
+export function watchJob(id: string, listener: (job: Job) => void): () => void {
+  const watchers = jobWatchers.get(id) || new Set();
+  watchers.add(listener);
+  jobWatchers.set(id, watchers);
+  return () => {
+    watchers.delete(listener);
+    if (watchers.size === 0) jobWatchers.delete(id);
+  };
+}
+
+function notifyJobWatchers(job: Job | undefined): void {
+  if (!job) return;
+  for (const listener of jobWatchers.get(job.id) || []) {
+    listener(job);
+  }
+}
+
+function markChanged(job: Job, now: string): void {
+  job.updatedAt = now;
+  job.version = (job.version ?? 0) + 1;
+}
+
+/**
+ * Returns whether `current` is a later state of the job than `previous`, e.g. to drop a copy read from
+ * the store after a newer change was already seen.
+ */
+export function isNewerJob(current: Job, previous: Job): boolean {
+  if (current.version !== undefined && previous.version !== undefined) {
+    return current.version > previous.version;
+  }
+  return current.updatedAt > previous.updatedAt;
+}
+
+/**
+ * Returns whether the job has succeeded, failed or been cancelled.
+ */
+export function isJobFinished(job: Job): boolean {
+  return (
+    job.status === 'succeeded' ||
+    job.status === 'failed' ||
+    job.status === 'cancelled'
+  );
+}
+
+/**
+ * Returns the progress events that lead from one state of a job to the next: a `stage` event for
+ * every stage that changed, then a `job` event with the whole job when its status changed.
+ * @param previous - The state the watcher last saw, or null to start with a `job` event.
+ */
+export function getJobEvents(previous: Job | null, current: Job): JobEvent[] {
+  if (!previous) {
+    return [{ type: 'job', job: current }];
+  }
+  const events: JobEvent[] = STAGE_NAMES.filter(
+    (stage) =>
+      JSON.stringify(previous.stages[stage]) !==
+      JSON.stringify(current.stages[stage])
+  ).map((stage) => ({ type: 'stage', stage, state: current.stages[stage] }));
+  if (previous.status !== current.status) {
+    events.push({ type: 'job', job: current });
+  }
+  return events;
+}
@@ -0,0 +1,68 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { getConfig } from './config';
+
+/**
+ * A tiny JSON file store used for state that has to survive between requests
+ * without a cloud database (jobs, catalog entries, etc.).
+ *
+ * Each collection is kept in its own file under `LOCAL_DATA_DIR` (defaults to `.data/`).
+ * Writes to the same collection are serialised through an in-process queue so that
+ * concurrent read-modify-write cycles never overwrite each other.
+ */
+
+const writeQueues = new Map<string, Promise<unknown>>();
+
+function collectionPath(collection: string): string {
+  return path.join(getConfig().dataDir, `${collection}.json`);
+}
+
+/**
+ * Reads a collection from disk.
+ * @param collection - The name of the collection (used as the file name).
+ * @param fallback - The value returned when the collection does not exist yet.
+ * @returns A promise that resolves with the stored value.
+ */
+export async function readCollection<T>(
+  collection: string,
+  fallback: T
+): Promise<T> {
+  try {
+    const content = await fs.readFile(collectionPath(collection), 'utf8');
+    return JSON.parse(content) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return fallback;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Applies `mutate` to the current value of a collection and persists the result.
+ * @param collection - The name of the collection (used as the file name).
+ * @param fallback - The initial value when the collection does not exist yet.
+ * @param mutate - Receives the current value and returns the next one (or mutates it in place).
+ * @returns A promise that resolves with the persisted value.
+ */
+export function updateCollection<T>(
+  collection: string,
+  fallback: T,
+  mutate: (current: T) => T | void
+): Promise<T> {
+  const previous = writeQueues.get(collection) || Promise.resolve();
+  const next = previous
+    .catch(() => undefined)
+    .then(async () => {
+      const current = await readCollection(collection, fallback);
+      const updated = (mutate(current) ?? current) as T;
+      const filePath = collectionPath(collection);
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      await fs.mkdir(getConfig().dataDir, { recursive: true });
+      await fs.writeFile(tempPath, JSON.stringify(updated, null, 2));
+      await fs.rename(tempPath, filePath);
+      return updated;
+    });
+  writeQueues.set(collection, next);
+  return next;
+}
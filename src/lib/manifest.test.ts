@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv, toCsv } from './csv';
+import { MAX_BATCH_ROWS, parseManifest, toManifestRequest } from './manifest';
+
+describe('parseCsv', () => {
+  it('reads quoted fields with commas, quotes and line breaks, skipping a BOM and blank lines', () => {
+    expect(parseCsv('\ufeffa,b\r\n"x, y","say ""hi""\nthere"\n\n1,\n')).toEqual(
+      [
+        ['a', 'b'],
+        ['x, y', 'say "hi"\nthere'],
+        ['1', ''],
+      ]
+    );
+  });
+
+  it('reports a quoted field that is not closed', () => {
+    expect(parseCsv('a,"b')).toEqual({ error: 'A quoted field is not closed' });
+  });
+
+  it('reads back what toCsv writes', () => {
+    const rows = [{ title: 'Goal, "again"', views: 3 }];
+    expect(parseCsv(toCsv(rows, ['title', 'views']))).toEqual([
+      ['title', 'views'],
+      ['Goal, "again"', '3'],
+    ]);
+  });
+});
+
+describe('toCsv', () => {
+  it('keeps spreadsheets from evaluating text that looks like a formula', () => {
+    expect(
+      toCsv([{ title: '=SUM(A1)', change: -2 }], ['title', 'change'])
+    ).toBe("title,change\r\n'=SUM(A1),-2");
+  });
+});
+
+describe('parseManifest', () => {
+  it('reads a CSV manifest with its columns in any order', () => {
+    expect(
+      parseManifest(
+        'image,sport,speakingRate,ssml,prompt\n/img.jpg, football ,1.1,yes,\n',
+        'csv'
+      )
+    ).toEqual([
+      { sport: 'football', image: '/img.jpg', speakingRate: 1.1, ssml: true },
+    ]);
+  });
+
+  it('reads a JSON manifest as an array or as rows', () => {
+    const rows = [
+      { sport: 'tennis', image: '/img.jpg', burnCaptions: 'false' },
+    ];
+    const expected = [
+      { sport: 'tennis', image: '/img.jpg', burnCaptions: false },
+    ];
+
+    expect(parseManifest(JSON.stringify(rows), 'json')).toEqual(expected);
+    expect(parseManifest(JSON.stringify({ rows }), 'json')).toEqual(expected);
+  });
+
+  it.each([
+    ['sport,image,colour\nx,y,red', 'csv', /Unknown column "colour"/],
+    ['image\n/img.jpg', 'csv', /no sport column/],
+    ['sport,image,pitch\nx,y,high', 'csv', /Row 1: pitch must be a number/],
+    ['sport,image,ssml\nx,y,maybe', 'csv', /Row 1: ssml must be true or false/],
+    ['sport,image', 'csv', /no rows/],
+    ['{"rows": 3}', 'json', /no rows/],
+    ['[1]', 'json', /Row 1 is not an object/],
+    ['{', 'json', /not valid JSON/],
+  ] as const)('rejects %j', (text, format, error) => {
+    expect(parseManifest(text, format)).toEqual({
+      error: expect.stringMatching(error),
+    });
+  });
+
+  it(`rejects more than ${MAX_BATCH_ROWS} rows`, () => {
+    const rows = Array.from({ length: MAX_BATCH_ROWS + 1 }, () => ({
+      sport: 'golf',
+      image: '/img.jpg',
+    }));
+    expect(parseManifest(JSON.stringify(rows), 'json')).toEqual({
+      error: `A batch can have at most ${MAX_BATCH_ROWS} rows`,
+    });
+  });
+});
+
+describe('toManifestRequest', () => {
+  it('speaks a voice without a language in the language of that voice', () => {
+    const request = toManifestRequest({
+      sport: 'golf',
+      image: '/img.jpg',
+      voice: 'hi-IN-Neural2-A',
+    });
+
+    expect(request).toMatchObject({
+      sports: 'golf',
+      scenes: [{ photo: '/img.jpg', prompt: '' }],
+      voice: { languageCode: 'hi-IN', name: 'hi-IN-Neural2-A' },
+    });
+  });
+});
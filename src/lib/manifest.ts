@@ -0,0 +1,199 @@
+import type { GenerateVideoRequest } from './api';
+import { parseCsv } from './csv';
+import { VOICES } from './voices';
+
+/**
+ * Batch manifests: a list of reels to generate, one per row, as CSV or JSON.
+ *
+ * A CSV manifest has a header row naming its columns, in any order; a JSON manifest is an array of
+ * objects with the same fields (or `{ "rows": [...] }`). Only `sport` and `image` are required:
+ *
+ *     sport,image,prompt,language,voice,speakingRate,pitch,ssml,music,burnCaptions
+ *     football,goal.jpg,Slow-motion header,en-US,en-US-Neural2-D,1.1,0,true,,false
+ *
+ * `image` is the URL of an image uploaded through `POST /api/uploads` (images from anywhere else are
+ * rejected); the batch page also accepts the name of a local file picked with the manifest, which it uploads first. Blank fields fall back to the
+ * defaults of `POST /api/generate-video`.
+ *
+ * Parsing here only checks the shape of the manifest; each row is validated like a generation request
+ * when the batch is created (see `src/lib/batches.ts`), so one invalid row does not reject the others.
+ *
+ * This module only imports types, the CSV helpers and the voice list, so it can be used in client components.
+ */
+
+export interface ManifestRow {
+  sport: string;
+  image: string;
+  // The prompt of the scene; the default prompt is used when omitted.
+  prompt?: string;
+  // The voice settings (see `src/lib/voices.ts`).
+  language?: string;
+  voice?: string;
+  speakingRate?: number;
+  pitch?: number;
+  ssml?: boolean;
+  // A track file name, `none`, or omitted for the sport's default track.
+  music?: string;
+  burnCaptions?: boolean;
+}
+
+export type ManifestFormat = 'csv' | 'json';
+
+export const MANIFEST_COLUMNS: (keyof ManifestRow)[] = [
+  'sport',
+  'image',
+  'prompt',
+  'language',
+  'voice',
+  'speakingRate',
+  'pitch',
+  'ssml',
+  'music',
+  'burnCaptions',
+];
+
+// The limits of a batch: how many rows it can have, and how many of its reels are generated at once.
+export const MAX_BATCH_ROWS = 50;
+export const BATCH_CONCURRENCY_RANGE = { min: 1, max: 4 };
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+
+const REQUIRED_COLUMNS: (keyof ManifestRow)[] = ['sport', 'image'];
+const NUMBER_COLUMNS: (keyof ManifestRow)[] = ['speakingRate', 'pitch'];
+const BOOLEAN_COLUMNS: (keyof ManifestRow)[] = ['ssml', 'burnCaptions'];
+
+/**
+ * Parses a manifest file.
+ * @returns The rows, or an error describing the first problem with the shape of the manifest.
+ */
+export function parseManifest(
+  text: string,
+  format: ManifestFormat
+): ManifestRow[] | { error: string } {
+  if (format === 'json') {
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch {
+      return { error: 'The manifest is not valid JSON' };
+    }
+    return parseManifestRows(
+      Array.isArray(json)
+        ? json
+        : json && typeof json === 'object' && 'rows' in json
+          ? json.rows
+          : undefined
+    );
+  }
+
+  const table = parseCsv(text);
+  if ('error' in table) {
+    return table;
+  }
+  const [header = [], ...lines] = table;
+  const columns = header.map((column) => column.trim());
+  return parseManifestRows(
+    lines.map((line) =>
+      Object.fromEntries(
+        columns.map((column, index) => [column, line[index] ?? ''])
+      )
+    ),
+    columns
+  );
+}
+
+/**
+ * Validates the shape of manifest rows (e.g. the JSON body of `POST /api/batches`): known fields only,
+ * numbers and booleans where expected. Text is trimmed and blank fields are dropped.
+ * @param columns - The header of a CSV manifest, checked for unknown and missing columns.
+ */
+export function parseManifestRows(
+  input: unknown,
+  columns?: string[]
+): ManifestRow[] | { error: string } {
+  if (!Array.isArray(input) || input.length === 0) {
+    return { error: 'The manifest has no rows' };
+  }
+  if (input.length > MAX_BATCH_ROWS) {
+    return { error: `A batch can have at most ${MAX_BATCH_ROWS} rows` };
+  }
+  if (columns) {
+    const unknown = columns.find(
+      (column) => !MANIFEST_COLUMNS.includes(column as keyof ManifestRow)
+    );
+    if (unknown !== undefined) {
+      return {
+        error: `Unknown column "${unknown}"; the columns are ${MANIFEST_COLUMNS.join(', ')}`,
+      };
+    }
+    const missing = REQUIRED_COLUMNS.find(
+      (column) => !columns.includes(column)
+    );
+    if (missing) {
+      return { error: `The manifest has no ${missing} column` };
+    }
+  }
+
+  const rows: ManifestRow[] = [];
+  for (const [index, item] of input.entries()) {
+    const label = `Row ${index + 1}`;
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      return { error: `${label} is not an object` };
+    }
+    const row: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(item)) {
+      const column = key as keyof ManifestRow;
+      if (!MANIFEST_COLUMNS.includes(column)) {
+        return { error: `${label} has an unknown field "${key}"` };
+      }
+      const text = String(value ?? '').trim();
+      if (!text) {
+        continue;
+      }
+      if (NUMBER_COLUMNS.includes(column)) {
+        row[column] = Number(text);
+        if (Number.isNaN(row[column])) {
+          return { error: `${label}: ${key} must be a number` };
+        }
+      } else if (BOOLEAN_COLUMNS.includes(column)) {
+        row[column] = parseBoolean(text);
+        if (row[column] === undefined) {
+          return { error: `${label}: ${key} must be true or false` };
+        }
+      } else {
+        row[column] = text;
+      }
+    }
+    rows.push({ sport: '', image: '', ...row });
+  }
+  return rows;
+}
+
+/**
+ * Returns the generation request of a manifest row: one scene, and the voice settings it sets.
+ * A voice without a language is spoken in the language of that voice.
+ */
+export function toManifestRequest(row: ManifestRow): GenerateVideoRequest {
+  const language =
+    row.language ||
+    VOICES.find((voice) => voice.name === row.voice)?.languageCode;
+  return {
+    sports: row.sport,
+    scenes: [{ photo: row.image, prompt: row.prompt || '' }],
+    burnCaptions: row.burnCaptions,
+    voice: {
+      ...(language && { languageCode: language }),
+      ...(row.voice && { name: row.voice }),
+      ...(row.speakingRate !== undefined && { speakingRate: row.speakingRate }),
+      ...(row.pitch !== undefined && { pitch: row.pitch }),
+      ...(row.ssml !== undefined && { ssml: row.ssml }),
+    },
+    music: row.music,
+  };
+}
+
+function parseBoolean(text: string): boolean | undefined {
+  const value = text.toLowerCase();
+  if (['true', 'yes', '1'].includes(value)) return true;
+  if (['false', 'no', '0'].includes(value)) return false;
+  return undefined;
+}
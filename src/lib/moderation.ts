@@ -0,0 +1,120 @@
+import { getConfig } from './config';
+import { hashDistance, perceptualHash } from './images';
+import { listReelsForReview, ModerationFlag, ReelModeration } from './reels';
+
+/**
+ * Automated pre-checks run on every generated reel before it enters the review queue.
+ * They never reject a reel on their own: their findings are attached to it as flags, and a
+ * reviewer decides on `/admin/review`.
+ * - Banned terms: the script, title, description, hashtags and scene prompts are searched for the
+ *   terms of `BANNED_TERMS` and `MODERATION_BANNED_TERMS` (whole words, ignoring case).
+ * - Duplicate images: the perceptual hash of each scene image is compared with the images of the
+ *   other reels, so a reused (possibly resized or re-encoded) image is caught. Reels of the same
+ *   input (re-runs and regenerations) and the reel a reviewer regenerated as this one are left out:
+ *   sharing their images is expected.
+ */
+
+// Terms that have no place in a sports reel: betting promotions, match fixing and doping.
+export const BANNED_TERMS = [
+  'bet now',
+  'betting odds',
+  'casino',
+  'gambling',
+  'match fixing',
+  'match-fixing',
+  'spot fixing',
+  'steroids',
+  'doping',
+  'guaranteed win',
+];
+
+// Images whose hashes differ in at most this many of their 64 bits are considered the same.
+export const DUPLICATE_IMAGE_DISTANCE = 6;
+
+export interface PreCheckInput {
+  reelId: string;
+  // The hash of the job input the reel is generated from.
+  inputHash: string;
+  // The texts of the reel: the script, title, description, hashtags and scene prompts.
+  texts: string[];
+  // The scene images, in order; null for an image that could not be read.
+  images: (Buffer | null)[];
+}
+
+/**
+ * Runs the pre-checks on a new reel.
+ * @returns The pending review of the reel, with the flags the checks raised.
+ */
+export async function runPreChecks({
+  reelId,
+  inputHash,
+  texts,
+  images,
+}: PreCheckInput): Promise<ReelModeration> {
+  const flags: ModerationFlag[] = [];
+
+  const terms = findBannedTerms(texts, [
+    ...BANNED_TERMS,
+    ...getConfig().moderation.bannedTerms,
+  ]);
+  if (terms.length > 0) {
+    flags.push({
+      check: 'banned-terms',
+      message: `The text contains banned terms: ${terms.join(', ')}.`,
+    });
+  }
+
+  const imageHashes: string[] = [];
+  const otherReels = (await listReelsForReview()).filter(
+    (reel) =>
+      reel.id !== reelId &&
+      reel.moderation?.inputHash !== inputHash &&
+      reel.moderation?.regenerationJobId !== reelId
+  );
+  for (const [index, image] of images.entries()) {
+    let hash: string;
+    try {
+      if (!image) throw new Error('The image could not be read.');
+      hash = await perceptualHash(image);
+    } catch (error) {
+      console.error(`Failed to hash scene ${index + 1} of ${reelId}:`, error);
+      flags.push({
+        check: 'check-failed',
+        message: `Scene ${index + 1} could not be checked for duplicates.`,
+      });
+      continue;
+    }
+    imageHashes.push(hash);
+
+    const duplicateOf = otherReels.find((reel) =>
+      reel.moderation?.imageHashes.some(
+        (other) => hashDistance(hash, other) <= DUPLICATE_IMAGE_DISTANCE
+      )
+    );
+    if (duplicateOf) {
+      flags.push({
+        check: 'duplicate-image',
+        message: `Scene ${index + 1} looks like an image of "${duplicateOf.title}" (${duplicateOf.id}).`,
+      });
+    }
+  }
+
+  return { status: 'pending', flags, imageHashes, inputHash };
+}
+
+/**
+ * Returns the terms that occur in any of the texts, as whole words and ignoring case.
+ */
+export function findBannedTerms(texts: string[], terms: string[]): string[] {
+  const text = texts.join('\n');
+  return terms.filter((term) =>
+    new RegExp(
+      `(^|[^\\p{L}\\p{N}])${escapeRegExp(term)}($|[^\\p{L}\\p{N}])`,
+      'iu'
+    ).test(text)
+  );
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,68 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { getConfig } from './config';
+
+/**
+ * Background music for reels, picked from a local library of royalty-free tracks.
+ * Tracks are the audio files in `MUSIC_LIBRARY_DIR` (defaults to `music/`).
+ * When a request does not choose a track, the sport's default track is used if it is in the library.
+ */
+
+const TRACK_EXTENSIONS = ['.mp3', '.m4a', '.wav', '.ogg'];
+
+export const SPORT_DEFAULT_TRACKS: Record<string, string> = {
+  cricket: 'stadium-anthem.mp3',
+  football: 'matchday-drums.mp3',
+  basketball: 'hip-hop-court.mp3',
+  tennis: 'baseline-groove.mp3',
+  hockey: 'power-play-rock.mp3',
+};
+
+// Request value that turns the music bed off.
+export const NO_MUSIC = 'none';
+
+/**
+ * Lists the file names of the tracks in the library.
+ */
+export async function listTracks(): Promise<string[]> {
+  try {
+    const files = await fs.readdir(getConfig().musicLibraryDir);
+    return files
+      .filter((file) => TRACK_EXTENSIONS.includes(path.extname(file)))
+      .sort();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * Resolves the track a reel should use.
+ * @param sports - The sport of the reel, used to pick its default track.
+ * @param requested - A track file name, `none` for no music, or undefined for the sport default.
+ * @returns The track file name (or null for no music), or an error message for an unknown track.
+ */
+export async function resolveTrack(
+  sports: string,
+  requested: string | undefined
+): Promise<{ track: string | null } | { error: string }> {
+  if (requested === NO_MUSIC) {
+    return { track: null };
+  }
+
+  const tracks = await listTracks();
+  if (requested) {
+    return tracks.includes(requested)
+      ? { track: requested }
+      : { error: `Unknown music track "${requested}".` };
+  }
+
+  const sportDefault = SPORT_DEFAULT_TRACKS[sports];
+  return { track: tracks.includes(sportDefault) ? sportDefault : null };
+}
+
+export function getTrackPath(track: string): string {
+  return path.join(getConfig().musicLibraryDir, path.basename(track));
+}
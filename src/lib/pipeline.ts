@@ -0,0 +1,577 @@
+import {
+  updateJobStage,
+  completeJob,
+  finishJobRun,
+  getJob,
+  GenerationInput,
+  hashGenerationInput,
+  JobAsset,
+  STAGE_ERROR_CODES,
+  StageName,
+  startJobRun,
+} from './jobs';
+import {
+  getProviders,
+  Providers,
+  StorageError,
+  StorageProvider,
+  VideoRejectedError,
+  withCallPolicies,
+} from './providers';
+import { CancelledError } from './callPolicy';
+import {
+  concatenateClips,
+  createAnimatedPreview,
+  extractPoster,
+  mergeVoiceoverWithVideo,
+  packageHls,
+  probeDuration,
+} from './ffmpeg';
+import { publishHls } from './hls';
+import { addReel } from './reels';
+import {
+  buildCaptionCues,
+  getWordStartTimes,
+  toSRT,
+  toWebVTT,
+} from './captions';
+import {
+  CROSSFADE_SECONDS,
+  getSceneDurations,
+  parseScenes,
+  sceneImageFileName,
+} from './scenes';
+import { runPreChecks } from './moderation';
+import { parseVoiceSettings } from './voices';
+import { getTrackPath, resolveTrack } from './music';
+import { generateValidScript, ReelScript, toSpokenScript } from './script';
+import { absoluteUrl } from './site';
+import { hashInputs, withAssetCache } from './assetCache';
+import { PromotedAsset, promoteAssets } from './tempAssets';
+import type { ErrorCode } from './api';
+
+/**
+ * The reel pipeline run by every generation job, whether it was created by `POST /api/generate-video`
+ * or by a batch (see `src/lib/batches.ts`); the stages are described in that route.
+ *
+ * `parseGenerationRequest` turns a request into the input of a job, and `runGenerationJob` runs the
+ * stages of the job, recording their progress, assets and failures on it.
+ */
+
+/**
+ * Validates a generation request (the body of `POST /api/generate-video`, or a row of a batch manifest)
+ * and resolves it into the input of a job.
+ * @returns The input, or an error message describing the first invalid field.
+ */
+export async function parseGenerationRequest(
+  body: unknown
+): Promise<{ input: GenerationInput } | { error: string }> {
+  const request: Record<string, unknown> =
+    body && typeof body === 'object' ? { ...body } : {};
+  const { sports, burnCaptions = false, forceRegenerate = false } = request;
+  if (typeof sports !== 'string' || !sports.trim()) {
+    return { error: 'sports is required' };
+  }
+  if (request.music != null && typeof request.music !== 'string') {
+    return { error: 'music must be a track file name or "none"' };
+  }
+
+  const scenes = parseScenes(request);
+  if ('error' in scenes) {
+    return scenes;
+  }
+
+  // The photos are checked against the configured storage and replaced by their URL there, so a request
+  // cannot point the video provider at an image that did not go through the checks of `POST /api/uploads`.
+  const { storage } = getProviders();
+  const photos: string[] = [];
+  for (const [index, scene] of scenes.scenes.entries()) {
+    const fileName = sceneImageFileName(scene.photo);
+    const stored = await storage.download(fileName, 'temp').then(
+      () => true,
+      () => false
+    );
+    if (!stored) {
+      return {
+        error: `Scene ${index + 1} photo was not found; upload it again through POST /api/uploads.`,
+      };
+    }
+    photos.push(await storage.getUrl(fileName, 'temp'));
+  }
+
+  const voice = parseVoiceSettings(request.voice);
+  if ('error' in voice) {
+    return voice;
+  }
+
+  const music = await resolveTrack(sports, request.music ?? undefined);
+  if ('error' in music) {
+    return music;
+  }
+
+  return {
+    input: {
+      sports,
+      burnCaptions: Boolean(burnCaptions),
+      voice: voice.settings,
+      scenes: scenes.scenes.map((scene, index) => ({
+        ...scene,
+        photo: photos[index],
+      })),
+      musicTrack: music.track,
+      forceRegenerate: Boolean(forceRegenerate),
+    },
+  };
+}
+
+/**
+ * Runs every stage of the reel pipeline for a job, recording the state of each stage
+ * (and the URL of the asset it produced) in the job store as it goes.
+ * @param jobId - The id of the job to run.
+ * @param input - The sport, voice settings, caption options, scenes and music for the reel.
+ */
+export async function runGenerationJob(
+  jobId: string,
+  input: GenerationInput
+): Promise<void> {
+  const { sports, burnCaptions, voice, scenes, musicTrack, forceRegenerate } =
+    input;
+  const scenePrompts = scenes.map((scene) => scene.prompt);
+  let captionsVTTName = `captions-${jobId}.vtt`;
+  let captionsSRTName = `captions-${jobId}.srt`;
+  let tempVideoName = `video-${jobId}.mp4`;
+  let reelName = `reel-${jobId}.mp4`;
+  let posterName = `poster-${jobId}.jpg`;
+  let previewName = `preview-${jobId}.gif`;
+
+  const signal = startJobRun(jobId);
+  try {
+    const providers: Providers = withCallPolicies(getProviders(), signal);
+    const { storage } = providers;
+
+    let script = await runStage(jobId, 'script', signal, async () => {
+      const key = hashInputs({
+        stage: 'script',
+        provider: providers.script.name,
+        sports: sports.trim().toLowerCase(),
+        languageCode: voice.languageCode,
+        scenePrompts,
+      });
+      const asset = await withAssetCache(
+        key,
+        storage,
+        forceRegenerate,
+        async () => {
+          const script = await generateValidScript(providers.script, sports, {
+            languageCode: voice.languageCode,
+            scenePrompts,
+          });
+          return {
+            fileName: `script-${key}.json`,
+            directory: 'temp',
+            contentType: 'application/json',
+            content: JSON.stringify(script, null, 2),
+            data: null,
+          };
+        }
+      );
+      return {
+        url: asset.url,
+        content: JSON.parse(asset.content.toString()) as ReelScript,
+        assets: [asset],
+      };
+    });
+    // Only the hook, body and call-to-action are narrated, one paragraph per scene.
+    let spokenScript = toSpokenScript(script.content, scenes.length);
+    let voiceover = await runStage(jobId, 'voiceover', signal, async () => {
+      const key = hashInputs({
+        stage: 'voiceover',
+        provider: providers.voice.name,
+        text: spokenScript,
+        voice,
+      });
+      const asset = await withAssetCache(
+        key,
+        storage,
+        forceRegenerate,
+        async () => {
+          const voiceover = await providers.voice.synthesize(
+            spokenScript,
+            voice
+          );
+          return {
+            fileName: `audio-${key}.mp3`,
+            directory: 'temp',
+            contentType: 'audio/mpeg',
+            content: voiceover.audio,
+            data: voiceover.timepoints,
+          };
+        }
+      );
+      return {
+        url: asset.url,
+        content: { audio: asset.content, timepoints: asset.data },
+        assets: [asset],
+      };
+    });
+    let captions = await runStage(jobId, 'captions', signal, async () => {
+      const duration = await probeDuration(
+        voiceover.content.audio,
+        'voiceover.mp3'
+      );
+      const cues = buildCaptionCues(
+        spokenScript,
+        duration,
+        voiceover.content.timepoints
+      );
+      const srt = toSRT(cues);
+      const url = await storage.upload(
+        captionsVTTName,
+        'text/vtt',
+        toWebVTT(cues),
+        'temp'
+      );
+      await storage.upload(
+        captionsSRTName,
+        'application/x-subrip',
+        srt,
+        'temp'
+      );
+      const wordStarts = getWordStartTimes(
+        spokenScript,
+        duration,
+        voiceover.content.timepoints
+      );
+      return {
+        url,
+        content: { srt, duration, wordStarts },
+        assets: [
+          { fileName: captionsVTTName, directory: 'temp' },
+          { fileName: captionsSRTName, directory: 'temp' },
+        ],
+      };
+    });
+    let video = await runStage(jobId, 'video', signal, async () => {
+      // The progress of the stage is the average progress of its clips; a cached clip is done straight away.
+      const clipProgress = scenes.map(() => 0);
+      const reportProgress = (index: number, progress: number) => {
+        clipProgress[index] = progress;
+        const average =
+          clipProgress.reduce((sum, value) => sum + value, 0) / scenes.length;
+        updateJobStage(jobId, 'video', {
+          progress: Math.round(average * 100) / 100,
+        }).catch((error) =>
+          console.error('Failed to record the video progress:', error)
+        );
+      };
+      // Every scene gets its own clip; the provider tasks run concurrently. The first clip that fails
+      // fails the stage, so the others are aborted rather than left running (and billed).
+      const clipsController = new AbortController();
+      const clips = await Promise.all(
+        scenes.map(async (scene, index) => {
+          // The provider fetches the normalised image itself, so it needs an absolute URL,
+          // made afresh in case the one in the job input was signed and has expired.
+          const photoURL = absoluteUrl(
+            await storage.getUrl(sceneImageFileName(scene.photo), 'temp')
+          );
+          const key = hashInputs({
+            stage: 'video',
+            provider: providers.video.name,
+            // The stored name of the image is a hash of its content; its URL can differ every time.
+            photo: sceneImageFileName(scene.photo),
+            prompt: scene.prompt,
+          });
+          const clip = await withAssetCache(
+            key,
+            storage,
+            forceRegenerate,
+            async () => ({
+              fileName: `clip-${key}.mp4`,
+              directory: 'temp',
+              contentType: 'video/mp4',
+              content: await providers.video.generateVideo(
+                photoURL,
+                scene.prompt,
+                clipsController.signal,
+                (progress) => reportProgress(index, progress)
+              ),
+              data: null,
+            })
+          );
+          reportProgress(index, 1);
+          return clip;
+        })
+      ).catch((error) => {
+        clipsController.abort();
+        throw error;
+      });
+      // Each clip stays on screen for as long as its part of the narration is read.
+      const durations = getSceneDurations(
+        spokenScript,
+        clips.length,
+        captions.content.wordStarts,
+        captions.content.duration
+      );
+      const video = await concatenateClips(
+        clips.map((clip, index) => ({
+          video: clip.content,
+          duration: durations[index],
+        })),
+        CROSSFADE_SECONDS
+      );
+      const url = await storage.upload(
+        tempVideoName,
+        'video/mp4',
+        video,
+        'temp'
+      );
+      return {
+        url,
+        content: video,
+        assets: [...clips, { fileName: tempVideoName, directory: 'temp' }],
+      };
+    });
+    let reel = await runStage(jobId, 'merge', signal, async () => {
+      const reel = await mergeVoiceoverWithVideo(
+        voiceover.content.audio,
+        video.content,
+        {
+          burnInCaptions: burnCaptions ? captions.content.srt : undefined,
+          musicPath: musicTrack ? getTrackPath(musicTrack) : undefined,
+        }
+      );
+      const url = await storage.upload(reelName, 'video/mp4', reel, 'reel');
+      // The poster is shown before the reel plays and when it is shared (og:image).
+      const posterURL = await storage.upload(
+        posterName,
+        'image/jpeg',
+        await extractPoster(reel),
+        'reel'
+      );
+      // The feed streams the HLS renditions where it can, and the animated preview stands in for the video in lists.
+      const previewURL = await storage.upload(
+        previewName,
+        'image/gif',
+        await createAnimatedPreview(reel),
+        'reel'
+      );
+      const hls = await publishHls(
+        storage,
+        await packageHls(reel),
+        `hls-${jobId}`,
+        'reel'
+      );
+      // The published reel only refers to files in `reel/`; the working files left in `temp/`
+      // are removed by the sweep once they expire (see `src/lib/tempAssets.ts`).
+      await promoteStage(jobId, 'script', storage, script, [
+        { asset: script.assets[0], fileName: `script-${jobId}.json` },
+      ]);
+      const [voiceoverCopy] = await promoteStage(
+        jobId,
+        'voiceover',
+        storage,
+        voiceover,
+        [{ asset: voiceover.assets[0], fileName: `voiceover-${jobId}.mp3` }]
+      );
+      const [captionsVTTCopy, captionsSRTCopy] = await promoteStage(
+        jobId,
+        'captions',
+        storage,
+        captions,
+        captions.assets.map((asset) => ({ asset, fileName: asset.fileName }))
+      );
+      const [videoCopy] = await promoteStage(jobId, 'video', storage, video, [
+        {
+          asset: video.assets[video.assets.length - 1],
+          fileName: tempVideoName,
+        },
+      ]);
+      return {
+        url,
+        content: {
+          video: reel,
+          files: {
+            reelURL: reelName,
+            posterURL: posterName,
+            previewURL: previewName,
+            hlsURL: hls.fileName,
+            voiceoverURL: voiceoverCopy.fileName,
+            videoURL: videoCopy.fileName,
+            captionsVTTURL: captionsVTTCopy.fileName,
+            captionsSRTURL: captionsSRTCopy.fileName,
+          },
+          posterURL,
+          previewURL,
+          hlsURL: hls.url,
+          voiceoverURL: voiceoverCopy.url,
+          videoURL: videoCopy.url,
+          captionsVTTURL: captionsVTTCopy.url,
+          captionsSRTURL: captionsSRTCopy.url,
+        },
+        assets: [
+          { fileName: reelName, directory: 'reel' },
+          { fileName: posterName, directory: 'reel' },
+          { fileName: previewName, directory: 'reel' },
+          ...hls.assets,
+        ],
+      };
+    });
+
+    // A cancellation during the last stage still keeps the reel out of the catalog.
+    await throwIfCancelled(jobId, signal);
+    // The reel waits in the review queue until a reviewer approves it; the pre-checks flag what to look at.
+    const moderation = await runPreChecks({
+      reelId: jobId,
+      inputHash: hashGenerationInput(input),
+      texts: [
+        spokenScript,
+        script.content.title,
+        script.content.description,
+        ...script.content.hashtags,
+        ...scenePrompts,
+      ],
+      images: await Promise.all(
+        scenes.map((scene) =>
+          storage
+            .download(sceneImageFileName(scene.photo), 'temp')
+            .catch(() => null)
+        )
+      ),
+    });
+    await addReel({
+      id: jobId,
+      sport: sports,
+      title: script.content.title,
+      description: script.content.description,
+      hashtags: script.content.hashtags,
+      script: spokenScript,
+      language: voice.languageCode,
+      voiceoverURL: reel.content.voiceoverURL,
+      videoURL: reel.content.videoURL,
+      reelURL: reel.url,
+      posterURL: reel.content.posterURL,
+      previewURL: reel.content.previewURL,
+      hlsURL: reel.content.hlsURL,
+      captionsVTTURL: reel.content.captionsVTTURL,
+      captionsSRTURL: reel.content.captionsSRTURL,
+      captionsBurnedIn: burnCaptions,
+      musicTrack,
+      duration: await probeDuration(reel.content.video, reelName),
+      createdAt: new Date().toISOString(),
+      files: reel.content.files,
+      moderation,
+    });
+
+    await completeJob(jobId, 'succeeded');
+  } catch (error) {
+    if (error instanceof CancelledError) {
+      console.log(`Generation job ${jobId} was cancelled.`);
+      await completeJob(jobId, 'cancelled', error.message);
+      return;
+    }
+    console.error(`Error in generation job ${jobId}:`, error);
+    await completeJob(
+      jobId,
+      'failed',
+      error instanceof Error ? error.message : String(error),
+      error instanceof StorageError ? 'STORAGE_FAILED' : 'INTERNAL_ERROR'
+    );
+  } finally {
+    finishJobRun(jobId);
+  }
+}
+
+interface StageResult<T> {
+  url: string;
+  content: T;
+  // The files the stage stored or reused, recorded on the job so they can be deleted with it.
+  assets: JobAsset[];
+}
+
+/**
+ * Runs a single pipeline stage and records its outcome on the job.
+ * The stage is not started when the job has been cancelled.
+ * @returns A promise that resolves with the URL of the stored asset and the content
+ * produced by the stage, which is passed on to the next stages.
+ * @throws {CancelledError} When the job is cancelled before or during the stage.
+ */
+async function runStage<T>(
+  jobId: string,
+  stage: StageName,
+  signal: AbortSignal,
+  execute: () => Promise<StageResult<T>>
+): Promise<StageResult<T>> {
+  await throwIfCancelled(jobId, signal);
+  await updateJobStage(jobId, stage, { status: 'running' });
+  try {
+    const result = await execute();
+    await updateJobStage(jobId, stage, {
+      status: 'succeeded',
+      url: result.url,
+      assets: toJobAssets(result.assets),
+    });
+    return result;
+  } catch (error) {
+    if (error instanceof CancelledError || signal.aborted) {
+      await updateJobStage(jobId, stage, { status: 'cancelled' });
+      throw error instanceof CancelledError ? error : new CancelledError();
+    }
+    await updateJobStage(jobId, stage, {
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+      errorCode: stageErrorCode(stage, error),
+    });
+    throw error;
+  }
+}
+
+/**
+ * Promotes files of a finished stage from `temp/` into `reel/` and points the stage at the copies.
+ * The originals stay recorded on the stage, so deleting the job still deletes them
+ * (cached ones only when no other job uses them).
+ * @returns The copies with their URLs, in the order of `files`.
+ */
+async function promoteStage<T>(
+  jobId: string,
+  stage: StageName,
+  storage: StorageProvider,
+  result: StageResult<T>,
+  files: { asset: JobAsset; fileName: string }[]
+): Promise<PromotedAsset[]> {
+  const promoted = await promoteAssets(storage, files);
+  await updateJobStage(jobId, stage, {
+    url: promoted[0].url,
+    assets: [...toJobAssets(result.assets), ...toJobAssets(promoted)],
+  });
+  return promoted;
+}
+
+function toJobAssets(assets: JobAsset[]): JobAsset[] {
+  return assets.map(({ fileName, directory }) => ({ fileName, directory }));
+}
+
+/**
+ * Throws when the job has been cancelled, in this process (the signal) or in another one (the job store).
+ */
+async function throwIfCancelled(
+  jobId: string,
+  signal: AbortSignal
+): Promise<void> {
+  if (signal.aborted || (await getJob(jobId))?.status === 'cancelled') {
+    throw new CancelledError();
+  }
+}
+
+/**
+ * Returns the error code a failed stage is reported with: the specific code of the failure when
+ * it has one, or the generic code of the stage.
+ */
+function stageErrorCode(stage: StageName, error: unknown): ErrorCode {
+  if (error instanceof StorageError) {
+    return 'STORAGE_FAILED';
+  }
+  if (error instanceof VideoRejectedError) {
+    return error.code;
+  }
+  return STAGE_ERROR_CODES[stage];
+}
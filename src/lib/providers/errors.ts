@@ -0,0 +1,32 @@
+import type { ErrorCode } from '../api';
+
+/**
+ * Errors that providers throw so the pipeline can report why a stage failed (see `ErrorCode` in `src/lib/api.ts`).
+ * Any other provider error is reported with the generic code of the stage it happened in.
+ */
+
+/**
+ * A storage backend failed to store, sign or read a file.
+ */
+export class StorageError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'StorageError';
+  }
+}
+
+/**
+ * The video provider refused to generate a clip under its content policy.
+ */
+export class VideoRejectedError extends Error {
+  constructor(
+    public code: Extract<
+      ErrorCode,
+      'VIDEO_REJECTED_COPYRIGHT' | 'VIDEO_REJECTED_CONTENT'
+    >,
+    message: string
+  ) {
+    super(message);
+    this.name = 'VideoRejectedError';
+  }
+}
@@ -0,0 +1,112 @@
+import { Storage } from '@google-cloud/storage';
+import { getConfig } from '../config';
+import { signedUrlsEnabled, signedUrlTtlSeconds } from './signedUrls';
+import { StorageDirectory, StorageProvider, StoredFile } from './types';
+
+/**
+ * Stores generated assets in a Google Cloud Storage bucket (`GCP_BUCKET_NAME`).
+ * Files are made public unless signed URLs are enabled.
+ */
+
+function getBucket() {
+  const { googleServiceAccount, gcp } = getConfig();
+  const storage = new Storage({
+    projectId: googleServiceAccount?.project_id,
+    credentials: googleServiceAccount,
+  });
+
+  return storage.bucket(gcp.bucket);
+}
+export const gcpStorageProvider: StorageProvider = {
+  name: 'gcp',
+
+  async upload(
+    fileName: string,
+    contentType: string,
+    content: Buffer | string,
+    directory: StorageDirectory
+  ): Promise<string> {
+    try {
+      const gcpFile = getBucket().file(`${directory}/${fileName}`);
+
+      await gcpFile.save(content, {
+        metadata: {
+          contentType,
+        },
+      });
+      if (!signedUrlsEnabled()) {
+        await gcpFile.makePublic();
+      }
+      const url = await this.getUrl(fileName, directory);
+      console.log(`File uploaded to GCP Storage: ${gcpFile.name}`);
+      return url;
+    } catch (error) {
+      console.error('Error uploading file to GCP Storage:', error);
+      throw error;
+    }
+  },
+
+  async getUrl(fileName: string, directory: StorageDirectory): Promise<string> {
+    const bucket = getBucket();
+    const filePath = `${directory}/${fileName}`;
+
+    if (signedUrlsEnabled()) {
+      const [signedUrl] = await bucket.file(filePath).getSignedUrl({
+        action: 'read',
+        expires: Date.now() + signedUrlTtlSeconds() * 1000,
+      });
+      return signedUrl;
+    }
+
+    return `https://storage.googleapis.com/${bucket.name}/${filePath}`;
+  },
+
+  async download(
+    fileName: string,
+    directory: StorageDirectory
+  ): Promise<Buffer> {
+    const [content] = await getBucket()
+      .file(`${directory}/${fileName}`)
+      .download();
+    return content;
+  },
+
+  async copy(
+    fileName: string,
+    directory: StorageDirectory,
+    targetFileName: string,
+    targetDirectory: StorageDirectory
+  ): Promise<string> {
+    const bucket = getBucket();
+    const [copy] = await bucket
+      .file(`${directory}/${fileName}`)
+      .copy(bucket.file(`${targetDirectory}/${targetFileName}`));
+    if (!signedUrlsEnabled()) {
+      await copy.makePublic();
+    }
+    return this.getUrl(targetFileName, targetDirectory);
+  },
+
+  async list(directory: StorageDirectory): Promise<StoredFile[]> {
+    const [files] = await getBucket().getFiles({ prefix: `${directory}/` });
+    return files.map((file) => ({
+      fileName: file.name.slice(directory.length + 1),
+      size: Number(file.metadata.size || 0),
+      updatedAt: new Date(file.metadata.updated || 0),
+    }));
+  },
+
+  async delete(fileName: string, directory: StorageDirectory): Promise<void> {
+    await getBucket()
+      .file(`${directory}/${fileName}`)
+      .delete({ ignoreNotFound: true });
+  },
+
+  async checkHealth(): Promise<void> {
+    const bucket = getBucket();
+    const [exists] = await bucket.exists();
+    if (!exists) {
+      throw new Error(`Bucket "${bucket.name}" does not exist.`);
+    }
+  },
+};
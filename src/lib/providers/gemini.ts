@@ -0,0 +1,113 @@
+import { GoogleGenAI, Type } from '@google/genai';
+import { getConfig } from '../config';
+import { ReelScript, SCRIPT_LIMITS } from '../script';
+import { getLanguage } from '../voices';
+import { ScriptOptions, ScriptProvider } from './types';
+
+/**
+ * Generates video scripts using Google's Gemini API.
+ * Gemini is asked for structured JSON output matching `ReelScript`.
+ */
+
+const RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    hook: { type: Type.STRING },
+    body: { type: Type.ARRAY, items: { type: Type.STRING } },
+    callToAction: { type: Type.STRING },
+    title: { type: Type.STRING },
+    description: { type: Type.STRING },
+    hashtags: { type: Type.ARRAY, items: { type: Type.STRING } },
+  },
+  required: [
+    'hook',
+    'body',
+    'callToAction',
+    'title',
+    'description',
+    'hashtags',
+  ],
+  propertyOrdering: [
+    'hook',
+    'body',
+    'callToAction',
+    'title',
+    'description',
+    'hashtags',
+  ],
+};
+
+export const geminiScriptProvider: ScriptProvider = {
+  name: 'gemini',
+
+  async checkHealth(signal?: AbortSignal): Promise<void> {
+    // Counting tokens is free, and fails on an invalid key or an unknown model.
+    const { apiKey, model } = getConfig().gemini;
+    await new GoogleGenAI({ apiKey }).models.countTokens({
+      model,
+      contents: 'ping',
+      config: { abortSignal: signal },
+    });
+  },
+
+  async generateScript(
+    sports: string,
+    { languageCode, scenePrompts, feedback = [] }: ScriptOptions,
+    signal?: AbortSignal
+  ): Promise<ReelScript> {
+    try {
+      const language = getLanguage(languageCode)?.name || 'English';
+      const bodyLines = Math.min(
+        Math.max(scenePrompts.length, 2),
+        SCRIPT_LIMITS.bodyLines.max
+      );
+      const scenes =
+        scenePrompts.length > 1
+          ? `
+      The reel has ${scenePrompts.length} scenes, one per body line, in order. The scenes show: ${scenePrompts.map((prompt, index) => `${index + 1}. ${prompt}`).join(' ')}`
+          : '';
+      const retry =
+        feedback.length > 0
+          ? `
+      Your previous answer was rejected: ${feedback.join(' ')} Fix these problems.`
+          : '';
+      const { apiKey, model } = getConfig().gemini;
+      const ai = new GoogleGenAI({ apiKey: apiKey });
+
+      const prompt = `Write the script of a short sports highlight reel about ${sports} history.
+      The tone should be energetic and fast-paced. The spoken parts (hook, body, callToAction) must not use any special characters.
+      - hook: one punchy opening line, at most ${SCRIPT_LIMITS.hook} characters.
+      - body: exactly ${bodyLines} short lines, each at most ${SCRIPT_LIMITS.bodyLine} characters.
+      - callToAction: one closing line asking viewers to follow or share, at most ${SCRIPT_LIMITS.callToAction} characters.
+      - title: at most ${SCRIPT_LIMITS.title} characters.
+      - description: at most ${SCRIPT_LIMITS.description} characters.
+      - hashtags: ${SCRIPT_LIMITS.hashtags.min} to ${SCRIPT_LIMITS.hashtags.max} hashtags, each a # followed by letters, digits or underscores.
+      Write everything in ${language}.${scenes}${retry}`;
+
+      const response = await ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+          responseMimeType: 'application/json',
+          responseSchema: RESPONSE_SCHEMA,
+          // Aborting stops waiting for the response (a timed-out or cancelled attempt), though Gemini may still bill it.
+          abortSignal: signal,
+        },
+      });
+
+      let script = response.text;
+
+      if (!script) {
+        throw new Error('Failed to generate a script. The response is empty.');
+      }
+
+      return JSON.parse(script);
+    } catch (error) {
+      console.error(
+        'Error while generating video script using Gemini API:',
+        error
+      );
+      throw error;
+    }
+  },
+};
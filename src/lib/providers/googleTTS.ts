@@ -0,0 +1,99 @@
+import textToSpeech, { protos } from '@google-cloud/text-to-speech';
+import { splitWords } from '../captions';
+import { VoiceSettings, VOICES } from '../voices';
+import { getConfig } from '../config';
+import { Voiceover, VoiceProvider } from './types';
+
+const { SynthesizeSpeechRequest } = protos.google.cloud.texttospeech.v1beta1;
+
+/**
+ * Generates voiceovers using Google Cloud Text-to-Speech.
+ * In SSML mode the script is sent with a mark before every word, so the response
+ * reports when each word is spoken and captions can be timed to the narration,
+ * and with a short pause after each sentence. Otherwise it is sent as plain text.
+ */
+export const googleTTSVoiceProvider: VoiceProvider = {
+  name: 'google-tts',
+
+  async checkHealth(): Promise<void> {
+    const client = new textToSpeech.v1beta1.TextToSpeechClient({
+      credentials: getConfig().googleServiceAccount,
+    });
+    await client.listVoices({ languageCode: 'en-US' });
+  },
+
+  async synthesize(text: string, settings: VoiceSettings): Promise<Voiceover> {
+    // Time pointing is only available in the v1beta1 API.
+    const { googleServiceAccount, googleTTS } = getConfig();
+    const client = new textToSpeech.v1beta1.TextToSpeechClient({
+      credentials: googleServiceAccount,
+    });
+    const name =
+      settings.name ||
+      VOICES.find(
+        (voice) =>
+          voice.name === googleTTS.defaultVoice &&
+          voice.languageCode === settings.languageCode
+      )?.name;
+
+    const request: protos.google.cloud.texttospeech.v1beta1.ISynthesizeSpeechRequest =
+      {
+        input: settings.ssml ? { ssml: buildSSML(text) } : { text },
+        ...(settings.ssml && {
+          enableTimePointing: [SynthesizeSpeechRequest.TimepointType.SSML_MARK],
+        }),
+        voice: {
+          languageCode: settings.languageCode,
+          ...(name && { name }),
+        },
+        audioConfig: {
+          audioEncoding: 'MP3',
+          pitch: settings.pitch,
+          speakingRate: settings.speakingRate,
+        },
+      };
+
+    try {
+      const [response] = await client.synthesizeSpeech(request);
+      const { audioContent } = response;
+
+      if (!audioContent) {
+        throw new Error('Audio content is empty.');
+      }
+
+      return {
+        // The REST transport returns the audio base64-encoded, gRPC as bytes.
+        audio:
+          typeof audioContent === 'string'
+            ? Buffer.from(audioContent, 'base64')
+            : Buffer.from(audioContent),
+        timepoints: (response.timepoints || []).flatMap(
+          ({ markName, timeSeconds }) =>
+            markName && typeof timeSeconds === 'number'
+              ? [{ wordIndex: Number(markName.slice(1)), time: timeSeconds }]
+              : []
+        ),
+      };
+    } catch (error) {
+      console.error('Error generating voiceover using Google TTS:', error);
+      throw error;
+    }
+  },
+};
+
+function buildSSML(text: string): string {
+  const words = splitWords(text).map((word, index) => {
+    const pause = /[.!?।]$/.test(word) ? '<break time="300ms"/>' : '';
+    return `<mark name="w${index}"/>${escapeXml(word)}${pause}`;
+  });
+  return `<speak>${words.join(' ')}</speak>`;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
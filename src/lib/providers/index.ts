@@ -0,0 +1,170 @@
+import { CALL_POLICIES, withCallPolicy } from '../callPolicy';
+import { Config, getConfig } from '../config';
+import { StorageError } from './errors';
+import { gcpStorageProvider } from './gcpStorage';
+import { geminiScriptProvider } from './gemini';
+import { googleTTSVoiceProvider } from './googleTTS';
+import { localDiskStorageProvider } from './localDiskStorage';
+import { runwayVideoProvider } from './runway';
+import { s3StorageProvider } from './s3Storage';
+import {
+  stubScriptProvider,
+  stubVideoProvider,
+  stubVoiceProvider,
+} from './stub';
+import {
+  ScriptProvider,
+  StorageProvider,
+  VideoProvider,
+  VoiceProvider,
+} from './types';
+
+export * from './errors';
+export * from './types';
+
+type ProviderNames = Config['providers'];
+
+/**
+ * Selects the provider for each pipeline stage from the configuration (see `src/lib/config.ts`):
+ * - `SCRIPT_PROVIDER`: `gemini` (default) or `stub`
+ * - `VOICE_PROVIDER`: `google-tts` (default) or `stub`
+ * - `VIDEO_PROVIDER`: `runway` (default) or `stub`
+ * - `STORAGE_PROVIDER`: `gcp` (default), `s3` or `local`
+ *
+ * Setting `PROVIDERS=offline` switches every stage to its stub/local implementation.
+ */
+
+const scriptProviders: Record<ProviderNames['script'], ScriptProvider> = {
+  gemini: geminiScriptProvider,
+  stub: stubScriptProvider,
+};
+
+const voiceProviders: Record<ProviderNames['voice'], VoiceProvider> = {
+  'google-tts': googleTTSVoiceProvider,
+  stub: stubVoiceProvider,
+};
+
+const videoProviders: Record<ProviderNames['video'], VideoProvider> = {
+  runway: runwayVideoProvider,
+  stub: stubVideoProvider,
+};
+
+const storageProviders: Record<ProviderNames['storage'], StorageProvider> = {
+  gcp: gcpStorageProvider,
+  s3: s3StorageProvider,
+  local: localDiskStorageProvider,
+};
+
+export interface Providers {
+  script: ScriptProvider;
+  voice: VoiceProvider;
+  video: VideoProvider;
+  storage: StorageProvider;
+}
+
+export function getProviders(): Providers {
+  const { providers } = getConfig();
+
+  return {
+    script: scriptProviders[providers.script],
+    voice: voiceProviders[providers.voice],
+    video: videoProviders[providers.video],
+    storage: withStorageErrors(storageProviders[providers.storage]),
+  };
+}
+
+/**
+ * Wraps a storage provider so every failure surfaces as a `StorageError`.
+ */
+function withStorageErrors(storage: StorageProvider): StorageProvider {
+  const wrap =
+    <A extends unknown[], R>(
+      action: string,
+      call: (...args: A) => Promise<R>
+    ) =>
+    async (...args: A): Promise<R> => {
+      try {
+        return await call(...args);
+      } catch (error) {
+        throw new StorageError(
+          `${storage.name} storage could not ${action}: ${error instanceof Error ? error.message : error}`,
+          { cause: error }
+        );
+      }
+    };
+
+  return {
+    name: storage.name,
+    upload: wrap('store the file', (...args) => storage.upload(...args)),
+    getUrl: wrap('sign the URL', (...args) => storage.getUrl(...args)),
+    download: wrap('read the file', (...args) => storage.download(...args)),
+    copy: wrap('copy the file', (...args) => storage.copy(...args)),
+    list: wrap('list the files', (...args) => storage.list(...args)),
+    delete: wrap('delete the file', (...args) => storage.delete(...args)),
+    checkHealth: (signal) => storage.checkHealth(signal),
+  };
+}
+
+/**
+ * Wraps the script, voice and video providers in the shared call policy (see `src/lib/callPolicy.ts`):
+ * every call gets a timeout and bounded retries with backoff, and stops when `signal` or the signal
+ * passed to the call aborts.
+ */
+export function withCallPolicies(
+  providers: Providers,
+  signal?: AbortSignal
+): Providers {
+  const { script, voice, video } = providers;
+  return {
+    ...providers,
+    script: {
+      name: script.name,
+      checkHealth: (signal) => script.checkHealth(signal),
+      generateScript: (sports, options, callSignal) =>
+        withCallPolicy(
+          (attemptSignal) =>
+            script.generateScript(sports, options, attemptSignal),
+          CALL_POLICIES.script,
+          {
+            signal: eitherSignal(signal, callSignal),
+            label: `${script.name} script`,
+          }
+        ),
+    },
+    voice: {
+      name: voice.name,
+      checkHealth: (signal) => voice.checkHealth(signal),
+      synthesize: (text, settings, callSignal) =>
+        withCallPolicy(
+          (attemptSignal) => voice.synthesize(text, settings, attemptSignal),
+          CALL_POLICIES.voice,
+          {
+            signal: eitherSignal(signal, callSignal),
+            label: `${voice.name} voiceover`,
+          }
+        ),
+    },
+    video: {
+      name: video.name,
+      checkHealth: (signal) => video.checkHealth(signal),
+      generateVideo: (photo, prompt, callSignal, onProgress) =>
+        withCallPolicy(
+          (attemptSignal) =>
+            video.generateVideo(photo, prompt, attemptSignal, onProgress),
+          CALL_POLICIES.video,
+          {
+            signal: eitherSignal(signal, callSignal),
+            label: `${video.name} video`,
+          }
+        ),
+    },
+  };
+}
+
+// A signal that aborts when either of the given signals does.
+function eitherSignal(
+  a?: AbortSignal,
+  b?: AbortSignal
+): AbortSignal | undefined {
+  return a && b ? AbortSignal.any([a, b]) : a || b;
+}
@@ -0,0 +1,117 @@
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  signLocalAsset,
+  signedUrlsEnabled,
+  signedUrlTtlSeconds,
+} from './signedUrls';
+import { getConfig } from '../config';
+import { StorageDirectory, StorageProvider, StoredFile } from './types';
+
+/**
+ * Stores generated assets on the local filesystem under `LOCAL_ASSETS_DIR`
+ * (defaults to `.data/assets/`). Files are served by the `/api/assets/[...path]` route,
+ * which requires a valid signature when signed URLs are enabled.
+ */
+
+export function localAssetsDir(): string {
+  return getConfig().local.assetsDir;
+}
+
+export const localDiskStorageProvider: StorageProvider = {
+  name: 'local',
+
+  async upload(
+    fileName: string,
+    contentType: string,
+    content: Buffer | string,
+    directory: StorageDirectory
+  ): Promise<string> {
+    try {
+      const filePath = path.join(localAssetsDir(), directory, fileName);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, content);
+
+      console.log(`File saved to local storage: ${filePath}`);
+      return this.getUrl(fileName, directory);
+    } catch (error) {
+      console.error('Error saving file to local storage:', error);
+      throw error;
+    }
+  },
+
+  async getUrl(fileName: string, directory: StorageDirectory): Promise<string> {
+    const assetPath = `${directory}/${fileName}`;
+    const url = `/api/assets/${assetPath}`;
+
+    if (signedUrlsEnabled()) {
+      const expiresAt = Math.floor(Date.now() / 1000) + signedUrlTtlSeconds();
+      const signature = signLocalAsset(assetPath, expiresAt);
+      return `${url}?expires=${expiresAt}&signature=${signature}`;
+    }
+
+    return url;
+  },
+
+  async download(
+    fileName: string,
+    directory: StorageDirectory
+  ): Promise<Buffer> {
+    return fs.readFile(path.join(localAssetsDir(), directory, fileName));
+  },
+
+  async copy(
+    fileName: string,
+    directory: StorageDirectory,
+    targetFileName: string,
+    targetDirectory: StorageDirectory
+  ): Promise<string> {
+    const targetPath = path.join(
+      localAssetsDir(),
+      targetDirectory,
+      targetFileName
+    );
+    await fs.mkdir(path.dirname(targetPath), { recursive: true });
+    await fs.copyFile(
+      path.join(localAssetsDir(), directory, fileName),
+      targetPath
+    );
+    return this.getUrl(targetFileName, targetDirectory);
+  },
+
+  async list(directory: StorageDirectory): Promise<StoredFile[]> {
+    const directoryPath = path.join(localAssetsDir(), directory);
+    let entries;
+    try {
+      entries = await fs.readdir(directoryPath, { withFileTypes: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+    return Promise.all(
+      entries
+        .filter((entry) => entry.isFile())
+        .map(async (entry) => {
+          const stats = await fs.stat(path.join(directoryPath, entry.name));
+          return {
+            fileName: entry.name,
+            size: stats.size,
+            updatedAt: stats.mtime,
+          };
+        })
+    );
+  },
+
+  async delete(fileName: string, directory: StorageDirectory): Promise<void> {
+    await fs.rm(path.join(localAssetsDir(), directory, fileName), {
+      force: true,
+    });
+  },
+
+  async checkHealth(): Promise<void> {
+    await fs.mkdir(localAssetsDir(), { recursive: true });
+    await fs.access(localAssetsDir(), fs.constants.W_OK);
+  },
+};
@@ -0,0 +1,155 @@
+import RunwayML from '@runwayml/sdk';
+import {
+  CALL_POLICIES,
+  pollUntil,
+  VIDEO_POLL_INTERVAL_MS,
+  VIDEO_TASK_MAX_WAIT_MS,
+  withCallPolicy,
+} from '../callPolicy';
+import { getConfig } from '../config';
+import { VideoRejectedError } from './errors';
+import { VideoProvider } from './types';
+
+/**
+ * Generates video clips from an image using RunwayML.
+ * The task is created under the `videoCreate` call policy, which never retries (a retried create could start a
+ * second paid generation), and polled under the `videoRequest` policy for at most
+ * `VIDEO_TASK_MAX_WAIT_MS`, and a task that is given up on (timed out, cancelled, or polling kept failing) is cancelled
+ * on RunwayML too.
+ * While the task runs, the progress RunwayML reports on every poll is passed to `onProgress`.
+ */
+export const runwayVideoProvider: VideoProvider = {
+  name: 'runway',
+
+  async checkHealth(signal?: AbortSignal): Promise<void> {
+    // Looking up a task that does not exist is free: a 404 means RunwayML is up and accepted the key.
+    const client = new RunwayML({
+      apiKey: getConfig().runway.apiKey,
+      maxRetries: 0,
+    });
+    try {
+      await client.tasks.retrieve('00000000-0000-0000-0000-000000000000', {
+        signal,
+      });
+    } catch (error) {
+      if (!(error instanceof RunwayML.NotFoundError)) {
+        throw error;
+      }
+    }
+  },
+
+  async generateVideo(
+    photo: string,
+    prompt: string,
+    signal?: AbortSignal,
+    onProgress?: (progress: number) => void
+  ): Promise<Buffer> {
+    const { apiKey, model } = getConfig().runway;
+    const client = new RunwayML({
+      apiKey,
+      // Retries are handled by the call policy.
+      maxRetries: 0,
+    });
+    const imageToVideo = await withCallPolicy(
+      (requestSignal) =>
+        client.imageToVideo.create(
+          {
+            model,
+            duration: 5, // Duration in seconds
+            ratio: '768:1280', // Portrait mode
+            watermark: false, // No watermark
+            promptImage: `${photo}`,
+            promptText: prompt,
+          },
+          { signal: requestSignal }
+        ),
+      CALL_POLICIES.videoCreate,
+      { signal, label: 'RunwayML create task' }
+    );
+
+    const taskId = imageToVideo.id;
+
+    let task: Awaited<ReturnType<typeof client.tasks.retrieve>>;
+    try {
+      task = await pollUntil(
+        async () => {
+          const task = await withCallPolicy(
+            (requestSignal) =>
+              client.tasks.retrieve(taskId, { signal: requestSignal }),
+            CALL_POLICIES.videoRequest,
+            { signal, label: 'RunwayML poll task' }
+          );
+          if (task.status === 'RUNNING' && task.progress !== undefined) {
+            onProgress?.(task.progress);
+          }
+          return ['SUCCEEDED', 'FAILED', 'CANCELLED'].includes(task.status)
+            ? task
+            : undefined;
+        },
+        VIDEO_POLL_INTERVAL_MS,
+        VIDEO_TASK_MAX_WAIT_MS,
+        { signal }
+      );
+    } catch (error) {
+      // Whether polling timed out, was cancelled or kept failing, the task is not waited for any more,
+      // so it is cancelled rather than left to run (and be billed).
+      await client.tasks
+        .delete(taskId)
+        .catch((deleteError) =>
+          console.error('Failed to cancel RunwayML task:', deleteError)
+        );
+      throw error;
+    }
+    console.log('Task complete:', task);
+
+    if (task.status === 'SUCCEEDED') {
+      const videoUrl = task.output ? task.output[0] : null;
+      if (!videoUrl) {
+        throw new Error('Task output is undefined or empty.');
+      }
+
+      return fetchVideoAsBuffer(videoUrl, signal);
+    } else if (task.failureCode?.startsWith('SAFETY')) {
+      // Content moderation failures; intellectual property is one of the reasons RunwayML reports.
+      throw new VideoRejectedError(
+        /copyright|intellectual.?property|\bIP\b/i.test(
+          `${task.failureCode} ${task.failure}`
+        )
+          ? 'VIDEO_REJECTED_COPYRIGHT'
+          : 'VIDEO_REJECTED_CONTENT',
+        task.failure || `RunwayML rejected the task (${task.failureCode}).`
+      );
+    } else {
+      throw new Error(task.failure || 'Video generation failed.');
+    }
+  },
+};
+
+/**
+ * Fetches a video from the given URL and stores it in memory as a Buffer.
+ * The download runs under the `download` call policy.
+ * @param videoUrl - The URL of the video to fetch.
+ * @param signal - Aborts the download.
+ * @returns A promise that resolves with the video data as a Buffer.
+ */
+async function fetchVideoAsBuffer(
+  videoUrl: string,
+  signal?: AbortSignal
+): Promise<Buffer> {
+  return withCallPolicy(
+    async (requestSignal) => {
+      const response = await fetch(videoUrl, { signal: requestSignal });
+      if (!response.ok) {
+        throw Object.assign(
+          new Error(`Failed to fetch video. Status code: ${response.status}`),
+          { status: response.status }
+        );
+      }
+      const videoBuffer = Buffer.from(await response.arrayBuffer());
+      console.log('Video fetched successfully.');
+      return videoBuffer;
+    },
+    CALL_POLICIES.download,
+    { signal, label: 'Video download' }
+  );
+}
@@ -0,0 +1,151 @@
+import S3 from 'aws-sdk/clients/s3';
+import { signedUrlsEnabled, signedUrlTtlSeconds } from './signedUrls';
+import { getConfig } from '../config';
+import { StorageDirectory, StorageProvider, StoredFile } from './types';
+
+/**
+ * Stores generated assets in an S3-compatible bucket (AWS S3, MinIO, Cloudflare R2, ...).
+ * Configured with:
+ * - `S3_BUCKET` (required) and `S3_REGION`
+ * - `S3_ENDPOINT` and `S3_FORCE_PATH_STYLE=true` for non-AWS services
+ * - `S3_ACCESS_KEY_ID` / `S3_SECRET_ACCESS_KEY` (falls back to the default AWS credential chain)
+ * - `S3_PUBLIC_URL`, the base URL public objects are served from
+ */
+
+function getClient(): S3 {
+  const { s3 } = getConfig();
+  return new S3({
+    region: s3.region,
+    endpoint: s3.endpoint,
+    s3ForcePathStyle: s3.forcePathStyle,
+    signatureVersion: 'v4',
+    ...(s3.accessKeyId && {
+      accessKeyId: s3.accessKeyId,
+      secretAccessKey: s3.secretAccessKey,
+    }),
+  });
+}
+
+function getBucketName(): string {
+  return getConfig().s3.bucket;
+}
+
+export const s3StorageProvider: StorageProvider = {
+  name: 's3',
+
+  async upload(
+    fileName: string,
+    contentType: string,
+    content: Buffer | string,
+    directory: StorageDirectory
+  ): Promise<string> {
+    try {
+      const bucketName = getBucketName();
+      await getClient()
+        .putObject({
+          Bucket: bucketName,
+          Key: `${directory}/${fileName}`,
+          Body: content,
+          ContentType: contentType,
+          ...(!signedUrlsEnabled() && { ACL: 'public-read' }),
+        })
+        .promise();
+
+      const url = await this.getUrl(fileName, directory);
+      console.log(
+        `File uploaded to S3: ${bucketName}/${directory}/${fileName}`
+      );
+      return url;
+    } catch (error) {
+      console.error('Error uploading file to S3:', error);
+      throw error;
+    }
+  },
+
+  async getUrl(fileName: string, directory: StorageDirectory): Promise<string> {
+    const bucketName = getBucketName();
+    const key = `${directory}/${fileName}`;
+
+    if (signedUrlsEnabled()) {
+      return getClient().getSignedUrlPromise('getObject', {
+        Bucket: bucketName,
+        Key: key,
+        Expires: signedUrlTtlSeconds(),
+      });
+    }
+
+    const { publicUrl, endpoint } = getConfig().s3;
+    const publicBaseUrl =
+      publicUrl ||
+      (endpoint
+        ? `${endpoint.replace(/\/$/, '')}/${bucketName}`
+        : `https://${bucketName}.s3.amazonaws.com`);
+    return `${publicBaseUrl}/${key}`;
+  },
+
+  async download(
+    fileName: string,
+    directory: StorageDirectory
+  ): Promise<Buffer> {
+    const object = await getClient()
+      .getObject({ Bucket: getBucketName(), Key: `${directory}/${fileName}` })
+      .promise();
+    return object.Body as Buffer;
+  },
+
+  async copy(
+    fileName: string,
+    directory: StorageDirectory,
+    targetFileName: string,
+    targetDirectory: StorageDirectory
+  ): Promise<string> {
+    const bucketName = getBucketName();
+    await getClient()
+      .copyObject({
+        Bucket: bucketName,
+        CopySource: encodeURI(`${bucketName}/${directory}/${fileName}`),
+        Key: `${targetDirectory}/${targetFileName}`,
+        ...(!signedUrlsEnabled() && { ACL: 'public-read' }),
+      })
+      .promise();
+    return this.getUrl(targetFileName, targetDirectory);
+  },
+
+  async list(directory: StorageDirectory): Promise<StoredFile[]> {
+    const client = getClient();
+    const files: StoredFile[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const page = await client
+        .listObjectsV2({
+          Bucket: getBucketName(),
+          Prefix: `${directory}/`,
+          ContinuationToken: continuationToken,
+        })
+        .promise();
+      for (const object of page.Contents || []) {
+        files.push({
+          fileName: (object.Key || '').slice(directory.length + 1),
+          size: object.Size || 0,
+          updatedAt: object.LastModified || new Date(0),
+        });
+      }
+      continuationToken = page.NextContinuationToken;
+    } while (continuationToken);
+    return files;
+  },
+
+  async delete(fileName: string, directory: StorageDirectory): Promise<void> {
+    // S3 does not report an error for keys that do not exist.
+    await getClient()
+      .deleteObject({
+        Bucket: getBucketName(),
+        Key: `${directory}/${fileName}`,
+      })
+      .promise();
+  },
+
+  async checkHealth(): Promise<void> {
+    await getClient().headBucket({ Bucket: getBucketName() }).promise();
+  },
+};
@@ -0,0 +1,55 @@
+import crypto from 'crypto';
+import { getConfig } from '../config';
+
+/**
+ * Options shared by every storage provider for handing out time-limited URLs
+ * instead of making stored assets public.
+ * - `STORAGE_SIGNED_URLS=true` switches every backend to signed URLs.
+ * - `STORAGE_SIGNED_URL_TTL_SECONDS` sets how long a signed URL stays valid (default 7 days).
+ */
+
+export function signedUrlsEnabled(): boolean {
+  return getConfig().storage.signedUrls;
+}
+
+export function signedUrlTtlSeconds(): number {
+  return getConfig().storage.signedUrlTtlSeconds;
+}
+
+/**
+ * Signs a local asset path so it can be served without being publicly listed.
+ * @param assetPath - The `<directory>/<fileName>` path of the asset.
+ * @param expiresAt - The expiry time in seconds since the epoch.
+ */
+export function signLocalAsset(assetPath: string, expiresAt: number): string {
+  const secret = getConfig().local.signingSecret;
+  if (!secret) {
+    throw new Error(
+      'LOCAL_STORAGE_SIGNING_SECRET environment variable is not set.'
+    );
+  }
+  return crypto
+    .createHmac('sha256', secret)
+    .update(`${assetPath}:${expiresAt}`)
+    .digest('hex');
+}
+
+/**
+ * Checks the `expires` and `signature` query parameters of a local asset URL.
+ */
+export function verifyLocalAsset(
+  assetPath: string,
+  expires: string | null,
+  signature: string | null
+): boolean {
+  const expiresAt = Number(expires);
+  if (!signature || !expiresAt || expiresAt < Date.now() / 1000) {
+    return false;
+  }
+  const expected = Buffer.from(signLocalAsset(assetPath, expiresAt));
+  const actual = Buffer.from(signature);
+  return (
+    expected.length === actual.length &&
+    crypto.timingSafeEqual(expected, actual)
+  );
+}
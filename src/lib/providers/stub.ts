@@ -0,0 +1,124 @@
+import ffmpeg from 'fluent-ffmpeg';
+import fs from 'fs/promises';
+import path from 'path';
+import { checkFfmpeg, runFfmpeg, withWorkDir } from '../ffmpeg';
+import { sceneImageFileName } from '../scenes';
+import { ReelScript } from '../script';
+import { VoiceSettings } from '../voices';
+import {
+  ScriptOptions,
+  ScriptProvider,
+  VideoProvider,
+  Voiceover,
+  VoiceProvider,
+} from './types';
+
+/**
+ * Deterministic offline providers. They need no API keys and return the same output
+ * for the same input, so the whole pipeline can be run and tested locally.
+ * The voice and video stubs synthesise their media with ffmpeg.
+ */
+
+// Roughly how long a narrator takes per word, used to size the stub voiceover.
+const SECONDS_PER_WORD = 0.4;
+
+const STUB_COLOURS = [
+  '0x1d4ed8',
+  '0x15803d',
+  '0xb91c1c',
+  '0x7e22ce',
+  '0xc2410c',
+];
+
+export const stubScriptProvider: ScriptProvider = {
+  name: 'stub',
+
+  async checkHealth(): Promise<void> {},
+
+  async generateScript(
+    sports: string,
+    { scenePrompts }: ScriptOptions
+  ): Promise<ReelScript> {
+    const lines = [
+      `From its earliest days ${sports} has thrilled fans around the world.`,
+      'Legends rose, records fell and every match wrote a new chapter.',
+      `Today ${sports} is bigger than ever.`,
+    ];
+    // At least one body line per scene; scenes beyond the canned lines reuse them.
+    const count = Math.max(scenePrompts.length, lines.length);
+    const tag = sports.replace(/[^\p{L}\p{N}_]/gu, '');
+    return {
+      hook: `This is ${sports} history in motion.`,
+      body: Array.from(
+        { length: count },
+        (_, index) => lines[index % lines.length]
+      ),
+      callToAction: 'Follow for more sports stories.',
+      title: `${sports.charAt(0).toUpperCase()}${sports.slice(1)} History`,
+      description: `A quick look back at the moments that made ${sports}.`,
+      hashtags: [`#${tag}`, '#SportsHistory'],
+    };
+  },
+};
+
+export const stubVoiceProvider: VoiceProvider = {
+  name: 'stub',
+
+  checkHealth: () => checkFfmpeg(),
+
+  async synthesize(text: string, settings: VoiceSettings): Promise<Voiceover> {
+    const wordCount = text.split(/\s+/).filter(Boolean).length;
+    const duration = Math.max(
+      1,
+      (wordCount * SECONDS_PER_WORD) / settings.speakingRate
+    ).toFixed(1);
+
+    return withWorkDir(async (workDir) => {
+      const outputPath = path.join(workDir, 'voiceover.mp3');
+      await runFfmpeg(
+        ffmpeg()
+          .input(`sine=frequency=440:sample_rate=44100:duration=${duration}`)
+          .inputFormat('lavfi')
+          .outputOptions(['-c:a libmp3lame', '-b:a 64k']),
+        outputPath
+      );
+      return { audio: await fs.readFile(outputPath) };
+    });
+  },
+};
+
+export const stubVideoProvider: VideoProvider = {
+  name: 'stub',
+
+  checkHealth: () => checkFfmpeg(),
+
+  async generateVideo(photo: string, prompt: string): Promise<Buffer> {
+    // The image is identified by its stored name (a hash of its content), since its URL can be signed
+    // differently every time.
+    const colour =
+      STUB_COLOURS[
+        hashString(`${sceneImageFileName(photo)}${prompt}`) %
+          STUB_COLOURS.length
+      ];
+
+    return withWorkDir(async (workDir) => {
+      const outputPath = path.join(workDir, 'video.mp4');
+      await runFfmpeg(
+        ffmpeg()
+          .input(`color=c=${colour}:s=768x1280:r=24:d=5`)
+          .inputFormat('lavfi')
+          .outputOptions(['-c:v libx264', '-pix_fmt yuv420p']),
+        outputPath
+      );
+      return fs.readFile(outputPath);
+    });
+  },
+};
+
+function hashString(value: string): number {
+  let hash = 0;
+  for (const char of value) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return hash;
+}
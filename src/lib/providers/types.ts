@@ -0,0 +1,147 @@
+import type { ReelScript } from '../script';
+import type { VoiceSettings } from '../voices';
+
+/**
+ * Interfaces implemented by every provider used by the reel pipeline.
+ * The concrete implementation of each one is chosen by configuration (see `./index.ts`),
+ * so the pipeline never depends on a vendor SDK directly.
+ *
+ * Provider methods take an optional `AbortSignal` that aborts when the call times out or the
+ * job is cancelled (see `src/lib/callPolicy.ts`); providers pass it on where their SDK allows.
+ */
+
+// `temp` holds working files (uploads, cached assets, intermediate files), `reel` the files of published reels.
+// See `src/lib/tempAssets.ts` for how files move from one to the other and how long they are kept.
+export type StorageDirectory = 'temp' | 'reel';
+
+export interface ScriptOptions {
+  // The language to write in (a BCP-47 code such as `hi-IN`).
+  languageCode: string;
+  // What each scene shows, in order. The script should have (at least) one body line per scene.
+  scenePrompts: string[];
+  // Why the previous attempt was rejected, when retrying after a validation failure.
+  feedback?: string[];
+}
+
+export interface ScriptProvider {
+  name: string;
+  /**
+   * Generates the structured script for a reel about the given sport.
+   * The pipeline validates the result (see `src/lib/script.ts`) and retries with feedback when it breaks the limits.
+   */
+  generateScript(
+    sports: string,
+    options: ScriptOptions,
+    signal?: AbortSignal
+  ): Promise<ReelScript>;
+  /**
+   * Checks that the provider is reachable and accepts its credentials, without doing any paid work.
+   * Used by `GET /api/health`.
+   */
+  checkHealth(signal?: AbortSignal): Promise<void>;
+}
+
+export interface WordTimepoint {
+  // Index of the word in the script (see `splitWords` in `src/lib/captions.ts`).
+  wordIndex: number;
+  // When the word starts in the audio, in seconds.
+  time: number;
+}
+
+export interface Voiceover {
+  // The MP3 audio.
+  audio: Buffer;
+  // When each word is spoken, if the provider can report it.
+  timepoints?: WordTimepoint[];
+}
+
+export interface VoiceProvider {
+  name: string;
+  /**
+   * Synthesises the given text as an MP3 voiceover with the given voice settings.
+   */
+  synthesize(
+    text: string,
+    settings: VoiceSettings,
+    signal?: AbortSignal
+  ): Promise<Voiceover>;
+  /**
+   * Checks that the provider is reachable and accepts its credentials, without doing any paid work.
+   * Used by `GET /api/health`.
+   */
+  checkHealth(signal?: AbortSignal): Promise<void>;
+}
+
+export interface VideoProvider {
+  name: string;
+  /**
+   * Generates a video clip from the image at the given (absolute) URL, guided by the prompt,
+   * and returns it as an MP4 buffer.
+   * @param onProgress - Called with the progress of the generation (0 to 1), if the provider can report it.
+   */
+  generateVideo(
+    photo: string,
+    prompt: string,
+    signal?: AbortSignal,
+    onProgress?: (progress: number) => void
+  ): Promise<Buffer>;
+  /**
+   * Checks that the provider is reachable and accepts its credentials, without doing any paid work.
+   * Used by `GET /api/health`.
+   */
+  checkHealth(signal?: AbortSignal): Promise<void>;
+}
+
+// A stored file, as listed by `StorageProvider.list`.
+export interface StoredFile {
+  fileName: string;
+  // Size in bytes.
+  size: number;
+  // When the file was last written.
+  updatedAt: Date;
+}
+
+export interface StorageProvider {
+  name: string;
+  /**
+   * Stores a file in the given directory and returns a URL it can be fetched from.
+   */
+  upload(
+    fileName: string,
+    contentType: string,
+    content: Buffer | string,
+    directory: StorageDirectory
+  ): Promise<string>;
+  /**
+   * Returns a URL for a stored file: its public URL, or a freshly signed one
+   * when signed URLs are enabled.
+   */
+  getUrl(fileName: string, directory: StorageDirectory): Promise<string>;
+  /**
+   * Reads a stored file back.
+   */
+  download(fileName: string, directory: StorageDirectory): Promise<Buffer>;
+  /**
+   * Copies a stored file to another name and/or directory and returns the URL of the copy.
+   * The copy is made public like an uploaded file, unless signed URLs are enabled.
+   */
+  copy(
+    fileName: string,
+    directory: StorageDirectory,
+    targetFileName: string,
+    targetDirectory: StorageDirectory
+  ): Promise<string>;
+  /**
+   * Lists every file stored in a directory.
+   */
+  list(directory: StorageDirectory): Promise<StoredFile[]>;
+  /**
+   * Removes a stored file. Removing a file that does not exist is not an error.
+   */
+  delete(fileName: string, directory: StorageDirectory): Promise<void>;
+  /**
+   * Checks that the provider is reachable and accepts its credentials, without doing any paid work.
+   * Used by `GET /api/health`.
+   */
+  checkHealth(signal?: AbortSignal): Promise<void>;
+}
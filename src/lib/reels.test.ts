@@ -0,0 +1,198 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Job, JobStage } from './jobs';
+import { readCollection } from './localStore';
+import {
+  InvalidCursorError,
+  listReels,
+  Reel,
+  ReviewStatus,
+  withoutUnpublishedAssets,
+} from './reels';
+
+vi.mock('./localStore', () => ({
+  readCollection: vi.fn(),
+  updateCollection: vi.fn(),
+}));
+
+let catalog: Reel[] = [];
+
+beforeEach(() => {
+  catalog = [];
+  vi.mocked(readCollection).mockImplementation(async () => catalog);
+});
+
+function createReel(
+  id: string,
+  status?: ReviewStatus,
+  createdAt = '2026-01-01T00:00:00.000Z'
+): Reel {
+  return {
+    id,
+    sport: 'surfing',
+    title: 'Surfing',
+    description: '',
+    hashtags: [],
+    script: '',
+    language: 'en-US',
+    voiceoverURL: `/api/assets/reel/voiceover-${id}.mp3`,
+    videoURL: `/api/assets/reel/video-${id}.mp4`,
+    reelURL: `/api/assets/reel/reel-${id}.mp4`,
+    posterURL: `/api/assets/reel/poster-${id}.jpg`,
+    captionsVTTURL: '',
+    captionsSRTURL: '',
+    captionsBurnedIn: false,
+    musicTrack: null,
+    duration: 10,
+    createdAt,
+    ...(status && {
+      moderation: { status, flags: [], imageHashes: [] },
+    }),
+  };
+}
+
+function createJob(id: string, merged: boolean): Job {
+  const stage = (fileName: string): JobStage => ({
+    status: 'succeeded',
+    url: `/api/assets/reel/${fileName}`,
+    assets: [{ fileName, directory: 'reel' }],
+  });
+  return {
+    id,
+    status: merged ? 'succeeded' : 'running',
+    input: {
+      sports: 'surfing',
+      burnCaptions: false,
+      voice: {
+        languageCode: 'en-US',
+        speakingRate: 1,
+        pitch: 0,
+        ssml: false,
+      },
+      scenes: [],
+      musicTrack: null,
+      forceRegenerate: false,
+    },
+    inputHash: 'hash',
+    stages: {
+      script: stage(`script-${id}.json`),
+      voiceover: stage(`voiceover-${id}.mp3`),
+      captions: stage(`captions-${id}.vtt`),
+      video: stage(`video-${id}.mp4`),
+      merge: merged ? stage(`reel-${id}.mp4`) : { status: 'running' },
+    },
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+}
+
+describe('withoutUnpublishedAssets', () => {
+  it('keeps the script and voiceover of a job whose reel is pending review', async () => {
+    catalog = [createReel('job-1', 'pending')];
+
+    const [job] = await withoutUnpublishedAssets([createJob('job-1', true)]);
+
+    expect(job.stages.script.url).toBe('/api/assets/reel/script-job-1.json');
+    expect(job.stages.voiceover.url).toBe(
+      '/api/assets/reel/voiceover-job-1.mp3'
+    );
+    expect(job.stages.captions.url).toBeDefined();
+    expect(job.stages.video.url).toBeDefined();
+    expect(job.stages.merge.url).toBeUndefined();
+    expect(job.stages.merge.assets).toBeUndefined();
+    expect(job.stages.merge.status).toBe('succeeded');
+  });
+
+  it('leaves out the reel of a job that is not in the catalog yet', async () => {
+    const [job] = await withoutUnpublishedAssets([createJob('job-1', true)]);
+
+    expect(job.stages.merge.url).toBeUndefined();
+  });
+
+  it('returns the reel of an approved job', async () => {
+    catalog = [createReel('job-1', 'approved')];
+    const original = createJob('job-1', true);
+
+    const [job] = await withoutUnpublishedAssets([original]);
+
+    expect(job).toEqual(original);
+  });
+
+  it('returns a job that has not produced a reel as it is', async () => {
+    const original = createJob('job-1', false);
+
+    const [job] = await withoutUnpublishedAssets([original]);
+
+    expect(job).toEqual(original);
+  });
+});
+
+describe('listReels', () => {
+  // Five reels, newest first: two of them created at the same time, ordered by id.
+  beforeEach(() => {
+    catalog = [
+      createReel('a', 'approved', '2026-01-01T00:00:00.000Z'),
+      createReel('e', undefined, '2026-01-05T00:00:00.000Z'),
+      createReel('c', 'approved', '2026-01-03T00:00:00.000Z'),
+      createReel('d', 'approved', '2026-01-03T00:00:00.000Z'),
+      createReel('b', 'approved', '2026-01-02T00:00:00.000Z'),
+    ];
+  });
+
+  async function listIds(cursor: string | null, limit: number) {
+    const page = await listReels(cursor, limit);
+    return { ids: page.reels.map((reel) => reel.id), next: page.nextCursor };
+  }
+
+  it('pages through the reels newest first, then by id', async () => {
+    const first = await listIds(null, 2);
+    const second = await listIds(first.next, 2);
+    const third = await listIds(second.next, 2);
+
+    expect([first.ids, second.ids, third.ids]).toEqual([
+      ['e', 'd'],
+      ['c', 'b'],
+      ['a'],
+    ]);
+    expect(third.next).toBeNull();
+  });
+
+  it('carries on after the last reel of a page when it is removed', async () => {
+    const first = await listIds(null, 2);
+    catalog = catalog.filter((reel) => reel.id !== 'd');
+
+    expect((await listIds(first.next, 2)).ids).toEqual(['c', 'b']);
+  });
+
+  it('carries on after the last reel of a page when it is rejected', async () => {
+    const first = await listIds(null, 3);
+    catalog = catalog.map((reel) =>
+      reel.id === 'c' ? createReel('c', 'rejected', reel.createdAt) : reel
+    );
+
+    expect((await listIds(first.next, 3)).ids).toEqual(['b', 'a']);
+  });
+
+  it('leaves out reels that are pending or rejected', async () => {
+    catalog.push(
+      createReel('pending', 'pending', '2026-01-09T00:00:00.000Z'),
+      createReel('rejected', 'rejected', '2026-01-09T00:00:00.000Z')
+    );
+
+    expect((await listIds(null, 10)).ids).toEqual(['e', 'd', 'c', 'b', 'a']);
+  });
+
+  it('starts at the given reel', async () => {
+    const page = await listReels(null, 2, 'c');
+
+    expect(page.reels.map((reel) => reel.id)).toEqual(['c', 'b']);
+  });
+
+  it.each(['not a cursor', Buffer.from('["only one"]').toString('base64url')])(
+    'rejects the cursor %j',
+    async (cursor) => {
+      await expect(listReels(cursor)).rejects.toBeInstanceOf(
+        InvalidCursorError
+      );
+    }
+  );
+});
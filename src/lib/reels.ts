@@ -0,0 +1,348 @@
+import { readCollection, updateCollection } from './localStore';
+import { hlsPlaylistRoute } from './hls';
+import { Job } from './jobs';
+import { getProviders } from './providers';
+import { signedUrlsEnabled } from './providers/signedUrls';
+
+/**
+ * The reel catalog served by `GET /api/get-reels`.
+ * An entry is added when a generation job finishes; the catalog is kept newest first.
+ * Until the first reel is generated the catalog contains the sample reels bundled in `public/videos`.
+ *
+ * Generated reels are moderated: they are added as `pending`, with the findings of the automated
+ * pre-checks (see `src/lib/moderation.ts`), and only reach viewers once a reviewer approves them on
+ * `/admin/review`. `getReel` and `listReels` only return approved reels; the review queue uses
+ * `getReelForReview` and `listReelsForReview`.
+ *
+ * Stored URLs can expire (with `STORAGE_SIGNED_URLS`, after `STORAGE_SIGNED_URL_TTL_SECONDS`), so a generated
+ * reel also records the names of its files in storage, and everything that serves a reel passes it through
+ * `withFreshUrls` first. Viewers get reels through `toPublicReel`, which also leaves out those names and the review.
+ *
+ * A job produces the files of its reel, so the job routes pass jobs through `withoutUnpublishedAssets`,
+ * which keeps a reel that has not been approved from being reached through its job.
+ */
+
+export type ReviewStatus = 'pending' | 'approved' | 'rejected';
+
+export const REVIEW_STATUSES: ReviewStatus[] = [
+  'pending',
+  'approved',
+  'rejected',
+];
+
+// Something an automated pre-check found, for the reviewer to look at.
+export interface ModerationFlag {
+  check: 'banned-terms' | 'duplicate-image' | 'check-failed';
+  message: string;
+}
+
+export interface ReelModeration {
+  status: ReviewStatus;
+  flags: ModerationFlag[];
+  // Perceptual hashes of the scene images, in order, compared with the images of later reels.
+  imageHashes: string[];
+  // The hash of the job input the reel was generated from (see `hashGenerationInput`).
+  inputHash?: string;
+  // Why a reviewer rejected the reel.
+  reason?: string;
+  // The job a reviewer started to generate the reel again.
+  regenerationJobId?: string;
+  reviewedAt?: string;
+}
+
+// The URL fields of a reel that point at files in storage.
+export type ReelFileField =
+  | 'voiceoverURL'
+  | 'videoURL'
+  | 'reelURL'
+  | 'posterURL'
+  | 'previewURL'
+  | 'hlsURL'
+  | 'captionsVTTURL'
+  | 'captionsSRTURL';
+
+export interface Reel {
+  id: string;
+  sport: string;
+  title: string;
+  description: string;
+  // Hashtags including the leading `#`.
+  hashtags: string[];
+  // The narrated text of the reel.
+  script: string;
+  // BCP-47 code of the narration language, e.g. `en-US`.
+  language: string;
+  voiceoverURL: string;
+  videoURL: string;
+  reelURL: string;
+  // JPEG poster frame of the reel, or an empty string when there is none.
+  posterURL: string;
+  // Short animated GIF preview of the reel.
+  previewURL?: string;
+  // Master playlist of the reel's HLS renditions, for adaptive playback.
+  // Reels without one (the samples, and reels generated before HLS packaging) only have `reelURL`.
+  hlsURL?: string;
+  // WebVTT and SRT caption sidecars for the reel.
+  captionsVTTURL: string;
+  captionsSRTURL: string;
+  // Whether the captions are also burned into the reel video.
+  captionsBurnedIn: boolean;
+  // The background music track mixed under the voiceover, or null for none.
+  musicTrack: string | null;
+  // Duration of the finished reel in seconds.
+  duration: number;
+  createdAt: string;
+  // The names of the files in `reel/` storage behind the URL fields, from which `withFreshUrls` makes new URLs.
+  // The samples, and reels generated before they were recorded, only have their stored URLs.
+  files?: Partial<Record<ReelFileField, string>>;
+  // The review of the reel. Reels without one (the samples, and reels generated before moderation) count as approved.
+  moderation?: ReelModeration;
+}
+
+// A reel as it is served to viewers, without the names of its files in storage or its review.
+export type PublicReel = Omit<Reel, 'files' | 'moderation'>;
+
+export interface ReelPage {
+  reels: Reel[];
+  nextCursor: string | null;
+}
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super('Invalid cursor.');
+    this.name = 'InvalidCursorError';
+  }
+}
+
+const COLLECTION = 'reels';
+
+export const DEFAULT_PAGE_SIZE = 5;
+export const MAX_PAGE_SIZE = 20;
+
+const SAMPLE_REELS: Reel[] = ['0', '2', '3', '1'].map((id, index) => ({
+  id: `sample-${id}`,
+  sport: 'sample',
+  title: 'Sample Reel',
+  description: '',
+  hashtags: [],
+  script: '',
+  language: 'en-US',
+  voiceoverURL: '',
+  videoURL: `/videos/${id}.mp4`,
+  reelURL: `/videos/${id}.mp4`,
+  posterURL: '',
+  captionsVTTURL: '',
+  captionsSRTURL: '',
+  captionsBurnedIn: false,
+  musicTrack: null,
+  duration: 0,
+  createdAt: new Date(Date.UTC(2025, 3, 1) - index * 1000).toISOString(),
+}));
+
+/**
+ * Adds a reel to the front of the catalog.
+ */
+export async function addReel(reel: Reel): Promise<void> {
+  await updateCollection<Reel[]>(COLLECTION, SAMPLE_REELS, (reels) => [
+    reel,
+    ...reels.filter((existing) => existing.id !== reel.id),
+  ]);
+}
+
+/**
+ * Removes a reel from the catalog, e.g. when its generation is deleted.
+ */
+export async function deleteReel(id: string): Promise<void> {
+  await updateCollection<Reel[]>(COLLECTION, SAMPLE_REELS, (reels) =>
+    reels.filter((reel) => reel.id !== id)
+  );
+}
+
+/**
+ * Returns the approved reel with the given id, or null when it does not exist or has not been approved.
+ */
+export async function getReel(id: string): Promise<Reel | null> {
+  const reel = await getReelForReview(id);
+  return reel && isApproved(reel) ? reel : null;
+}
+
+/**
+ * Returns the reel with the given id whatever its review status, or null when it does not exist.
+ */
+export async function getReelForReview(id: string): Promise<Reel | null> {
+  const reels = await readCollection<Reel[]>(COLLECTION, SAMPLE_REELS);
+  return reels.find((reel) => reel.id === id) || null;
+}
+
+/**
+ * Returns the reels with the given review status (every reel without one), newest first.
+ */
+export async function listReelsForReview(
+  status?: ReviewStatus
+): Promise<Reel[]> {
+  const reels = await readCollection<Reel[]>(COLLECTION, SAMPLE_REELS);
+  return status ? reels.filter((reel) => reviewStatus(reel) === status) : reels;
+}
+
+/**
+ * Records a review decision on a reel.
+ * @returns The updated reel, or null when it does not exist.
+ */
+export async function reviewReel(
+  id: string,
+  changes: Pick<ReelModeration, 'status'> &
+    Partial<Pick<ReelModeration, 'reason' | 'regenerationJobId'>>
+): Promise<Reel | null> {
+  const reels = await updateCollection<Reel[]>(
+    COLLECTION,
+    SAMPLE_REELS,
+    (reels) =>
+      reels.map((reel) =>
+        reel.id === id
+          ? {
+              ...reel,
+              moderation: {
+                flags: [],
+                imageHashes: [],
+                ...reel.moderation,
+                reason: undefined,
+                ...changes,
+                reviewedAt: new Date().toISOString(),
+              },
+            }
+          : reel
+      )
+  );
+  return reels.find((reel) => reel.id === id) || null;
+}
+
+/**
+ * Returns the reel with the URLs of its files made afresh by the storage provider, so signed URLs
+ * never reach a viewer expired. Reels without `files` are returned as they are.
+ * With signed URLs the HLS playlists are served by a route that signs their segments (see `src/lib/hls.ts`).
+ */
+export async function withFreshUrls(reel: Reel): Promise<Reel> {
+  if (!reel.files) {
+    return reel;
+  }
+  const { storage } = getProviders();
+  const urls = await Promise.all(
+    Object.entries(reel.files).map(async ([field, fileName]) => [
+      field,
+      field === 'hlsURL' && signedUrlsEnabled()
+        ? hlsPlaylistRoute(reel.id)
+        : await storage.getUrl(fileName, 'reel'),
+    ])
+  );
+  return { ...reel, ...Object.fromEntries(urls) };
+}
+
+/**
+ * Returns the reel as viewers get it: with fresh URLs (see `withFreshUrls`), and without `files` and
+ * `moderation`, which only the server and the review queue need.
+ */
+export async function toPublicReel(reel: Reel): Promise<PublicReel> {
+  const { files, moderation, ...publicReel } = await withFreshUrls(reel);
+  return publicReel;
+}
+
+/**
+ * Leaves the reel (its video, poster, animated preview and HLS renditions, the assets of the `merge` stage) out
+ * of the jobs whose reel has not been approved (pending, rejected, or not in the catalog yet), so anyone with
+ * the id of a job cannot watch a reel before it is published. The assets of the other stages are kept, so the
+ * Create and history pages can still show the script, voiceover and captions while the reel waits for review.
+ */
+export async function withoutUnpublishedAssets(jobs: Job[]): Promise<Job[]> {
+  const reels = await readCollection<Reel[]>(COLLECTION, SAMPLE_REELS);
+  const approved = new Set(reels.filter(isApproved).map((reel) => reel.id));
+  return jobs.map((job) => {
+    if (!job.stages.merge.url || approved.has(job.id)) {
+      return job;
+    }
+    const { url, assets, ...merge } = job.stages.merge;
+    return { ...job, stages: { ...job.stages, merge } };
+  });
+}
+
+export function reviewStatus(reel: Reel): ReviewStatus {
+  return reel.moderation?.status || 'approved';
+}
+
+function isApproved(reel: Reel): boolean {
+  return reviewStatus(reel) === 'approved';
+}
+
+/**
+ * Returns one page of the approved reels, newest first (by `createdAt`, then by id).
+ * @param cursor - The `nextCursor` of the previous page, or null for the first page. It records the position
+ * of the last reel of that page, so the next page follows it even when that reel has since been deleted or rejected.
+ * @param limit - The maximum number of reels to return.
+ * @param startId - When given (and there is no cursor), the first page starts at this reel
+ * instead of the newest one. Unknown ids are ignored.
+ */
+export async function listReels(
+  cursor: string | null,
+  limit: number = DEFAULT_PAGE_SIZE,
+  startId: string | null = null
+): Promise<ReelPage> {
+  const reels = (await readCollection<Reel[]>(COLLECTION, SAMPLE_REELS))
+    .filter(isApproved)
+    .sort(compareNewestFirst);
+
+  let start = 0;
+  if (!cursor && startId) {
+    start = Math.max(
+      0,
+      reels.findIndex((reel) => reel.id === startId)
+    );
+  } else if (cursor) {
+    const last = decodeCursor(cursor);
+    start = reels.findIndex((reel) => compareNewestFirst(reel, last) > 0);
+    if (start === -1) {
+      start = reels.length;
+    }
+  }
+
+  const page = reels.slice(start, start + limit);
+  const hasMore = start + limit < reels.length;
+
+  return {
+    reels: page,
+    nextCursor: hasMore ? encodeCursor(page[page.length - 1]) : null,
+  };
+}
+
+// The position of a reel in the catalog.
+type ReelPosition = Pick<Reel, 'createdAt' | 'id'>;
+
+function compareNewestFirst(a: ReelPosition, b: ReelPosition): number {
+  if (a.createdAt !== b.createdAt) {
+    return a.createdAt < b.createdAt ? 1 : -1;
+  }
+  return a.id === b.id ? 0 : a.id < b.id ? 1 : -1;
+}
+
+function encodeCursor({ createdAt, id }: ReelPosition): string {
+  return Buffer.from(JSON.stringify([createdAt, id])).toString('base64url');
+}
+
+/**
+ * @throws {InvalidCursorError} When the cursor was not made by `encodeCursor`.
+ */
+function decodeCursor(cursor: string): ReelPosition {
+  let position: unknown;
+  try {
+    position = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+  } catch {
+    throw new InvalidCursorError();
+  }
+  if (
+    !Array.isArray(position) ||
+    position.length !== 2 ||
+    !position.every((part) => typeof part === 'string')
+  ) {
+    throw new InvalidCursorError();
+  }
+  const [createdAt, id] = position;
+  return { createdAt, id };
+}
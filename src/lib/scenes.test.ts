@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CROSSFADE_SECONDS,
+  getSceneDurations,
+  splitScriptIntoScenes,
+} from './scenes';
+
+const SCRIPT = 'One two.\n\nThree four five.\n\nSix.';
+
+describe('splitScriptIntoScenes', () => {
+  it('uses the paragraphs when there is one per scene', () => {
+    expect(splitScriptIntoScenes(SCRIPT, 3)).toEqual([
+      'One two.',
+      'Three four five.',
+      'Six.',
+    ]);
+  });
+
+  it('shares the words out evenly otherwise', () => {
+    expect(splitScriptIntoScenes(SCRIPT, 2)).toEqual([
+      'One two. Three',
+      'four five. Six.',
+    ]);
+  });
+});
+
+describe('getSceneDurations', () => {
+  it('keeps each scene on screen while its paragraph is read', () => {
+    expect(getSceneDurations(SCRIPT, 3, [0.5, 1, 2, 3, 4, 5], 7)).toEqual([
+      2, 3, 2,
+    ]);
+  });
+
+  it('makes every scene outlast the crossfades on both of its sides', () => {
+    expect(getSceneDurations(SCRIPT, 3, [0, 1, 1.2, 1.4, 1.6, 1.8], 6)).toEqual(
+      [1.2, CROSSFADE_SECONDS * 2, 4.2]
+    );
+  });
+
+  it('gives one scene the whole voiceover', () => {
+    expect(getSceneDurations(SCRIPT, 1, [0, 1, 2, 3, 4, 5], 7)).toEqual([7]);
+  });
+});
@@ -0,0 +1,157 @@
+import { splitWords } from './captions';
+
+/**
+ * Multi-scene reels: each uploaded image becomes its own clip, and the script is split
+ * into one narration segment per scene so that each clip is on screen while its part is read.
+ */
+
+export interface Scene {
+  // URL of the image the clip is generated from, as returned by `POST /api/uploads`.
+  photo: string;
+  // What the clip should look like, sent to the video provider.
+  prompt: string;
+}
+
+export const MAX_SCENES = 6;
+
+export const DEFAULT_SCENE_PROMPT = 'Kinetic, energetic, fast-paced';
+
+// Length of the crossfade between two consecutive clips.
+export const CROSSFADE_SECONDS = 0.5;
+
+// Limits of the scene images accepted by `POST /api/uploads` (see `src/lib/images.ts`).
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+export const IMAGE_TYPES = ['image/png', 'image/jpeg'];
+
+// How an image of another aspect ratio than the 768x1280 frame is fitted to it.
+export type ImageFit = 'crop' | 'pad';
+
+// The point of an image to keep in frame when cropping, as fractions of its width and height.
+export interface FocalPoint {
+  x: number;
+  y: number;
+}
+
+export const FOCAL_CENTRE: FocalPoint = { x: 0.5, y: 0.5 };
+
+// The names `POST /api/uploads` stores normalised images under in `temp/`, by a hash of the upload.
+const UPLOADED_IMAGE_PATTERN = /^image-[0-9a-f]{32}\.jpg$/;
+
+/**
+ * Returns the name `POST /api/uploads` stores a normalised image under in `temp/`.
+ * @param key - The hash of the upload and its options.
+ */
+export function uploadedImageFileName(key: string): string {
+  return `image-${key}.jpg`;
+}
+
+/**
+ * Returns the name the image of a scene is stored under in `temp/`, from its URL
+ * (the last segment of the path, so it works for every storage backend and for signed URLs).
+ */
+export function sceneImageFileName(photo: string): string {
+  const { pathname } = new URL(photo, 'http://localhost');
+  return pathname.slice(pathname.lastIndexOf('/') + 1);
+}
+
+/**
+ * Reads the ordered scenes of a request. A request with a single `photo` (and no `scenes`)
+ * is treated as a one-scene reel. Photos must be URLs returned by `POST /api/uploads`;
+ * `parseGenerationRequest` (`src/lib/pipeline.ts`) then checks that they are in storage.
+ * @returns The scenes, or an error message describing the first invalid one.
+ */
+export function parseScenes(
+  body: unknown
+): { scenes: Scene[] } | { error: string } {
+  const request: Record<string, unknown> =
+    body && typeof body === 'object' ? { ...body } : {};
+  const input: unknown[] = Array.isArray(request.scenes)
+    ? request.scenes
+    : request.photo
+      ? [{ photo: request.photo }]
+      : [];
+
+  if (input.length === 0) {
+    return { error: 'At least one scene is required.' };
+  }
+  if (input.length > MAX_SCENES) {
+    return { error: `A reel can have at most ${MAX_SCENES} scenes.` };
+  }
+
+  const scenes: Scene[] = [];
+  for (const [index, item] of input.entries()) {
+    const scene: Record<string, unknown> =
+      item && typeof item === 'object' ? { ...item } : {};
+    const { photo, prompt } = scene;
+    if (!photo || typeof photo !== 'string') {
+      return { error: `Scene ${index + 1} has no photo.` };
+    }
+    if (
+      !/^(https?:\/\/|\/)/.test(photo) ||
+      !UPLOADED_IMAGE_PATTERN.test(sceneImageFileName(photo))
+    ) {
+      return {
+        error: `Scene ${index + 1} photo must be the URL of an image uploaded through POST /api/uploads.`,
+      };
+    }
+    scenes.push({
+      photo,
+      prompt: String(prompt || '').trim() || DEFAULT_SCENE_PROMPT,
+    });
+  }
+  return { scenes };
+}
+
+/**
+ * Splits a script into one narration segment per scene. The script provider is asked to write
+ * one paragraph per scene; when it did not, the words are shared out as evenly as possible.
+ */
+export function splitScriptIntoScenes(script: string, count: number): string[] {
+  const paragraphs = script
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean);
+  if (paragraphs.length === count) {
+    return paragraphs;
+  }
+
+  const words = splitWords(script);
+  return Array.from({ length: count }, (_, index) =>
+    words
+      .slice(
+        Math.round((index * words.length) / count),
+        Math.round(((index + 1) * words.length) / count)
+      )
+      .join(' ')
+  );
+}
+
+/**
+ * Returns how long each scene should be on screen so that it lines up with its narration segment.
+ * @param script - The narration script.
+ * @param count - The number of scenes.
+ * @param wordStarts - When each word of the script starts in the voiceover, in seconds.
+ * @param duration - The duration of the voiceover in seconds.
+ */
+export function getSceneDurations(
+  script: string,
+  count: number,
+  wordStarts: number[],
+  duration: number
+): number[] {
+  const segments = splitScriptIntoScenes(script, count);
+
+  let wordIndex = 0;
+  const sceneStarts = segments.map((segment) => {
+    const start = wordStarts[wordIndex] ?? duration;
+    wordIndex += splitWords(segment).length;
+    return start;
+  });
+  sceneStarts[0] = 0;
+
+  return sceneStarts.map((start, index) => {
+    const end = index + 1 < count ? sceneStarts[index + 1] : duration;
+    // Every clip must outlast the crossfades on both of its sides.
+    return Math.max(end - start, CROSSFADE_SECONDS * 2);
+  });
+}
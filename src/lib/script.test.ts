@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { ReelScript, SCRIPT_LIMITS, validateScript } from './script';
+
+const SCRIPT: ReelScript = {
+  hook: 'Ever seen a wave this big?',
+  body: ['The swell rolls in at dawn.', 'Only a few surfers paddle out.'],
+  callToAction: 'Follow for more big waves.',
+  title: 'Big wave morning',
+  description: 'A dawn session on the biggest swell of the year.',
+  hashtags: ['#surfing', '#bigwave'],
+};
+
+describe('validateScript', () => {
+  it('accepts a script within the limits', () => {
+    expect(validateScript(SCRIPT)).toEqual([]);
+  });
+
+  it.each([null, 'a script', 42, []])(
+    'reports every field of %j as missing',
+    (script) => {
+      expect(validateScript(script)).toEqual([
+        'hook is missing.',
+        `body must have ${SCRIPT_LIMITS.bodyLines.min} to ${SCRIPT_LIMITS.bodyLines.max} lines.`,
+        'callToAction is missing.',
+        'title is missing.',
+        'description is missing.',
+        `hashtags must have ${SCRIPT_LIMITS.hashtags.min} to ${SCRIPT_LIMITS.hashtags.max} entries.`,
+      ]);
+    }
+  );
+
+  it('reports text that is too long or cannot be spoken', () => {
+    expect(
+      validateScript({
+        ...SCRIPT,
+        hook: 'x'.repeat(SCRIPT_LIMITS.hook + 1),
+        body: ['Look at *this*', 7],
+      })
+    ).toEqual([
+      `hook is longer than ${SCRIPT_LIMITS.hook} characters.`,
+      'body line 1 contains special characters.',
+      'body line 2 is missing.',
+    ]);
+  });
+
+  it('allows special characters in the fields that are not spoken', () => {
+    expect(validateScript({ ...SCRIPT, title: 'Big <wave> #1' })).toEqual([]);
+  });
+
+  it('reports malformed hashtags', () => {
+    expect(
+      validateScript({ ...SCRIPT, hashtags: ['surfing', '#big wave'] })
+    ).toHaveLength(2);
+  });
+});
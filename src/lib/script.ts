@@ -0,0 +1,169 @@
+import type { ScriptOptions, ScriptProvider } from './providers/types';
+
+/**
+ * The structured script of a reel: what the narrator says (hook, body lines and call-to-action)
+ * and the metadata the reel is published with (title, description and hashtags).
+ *
+ * Scripts from a provider are validated against the limits below; an invalid script is
+ * requested again, with the validation errors passed back to the provider, up to
+ * `MAX_SCRIPT_ATTEMPTS` times.
+ */
+
+export interface ReelScript {
+  // Opening line that grabs attention in the first seconds.
+  hook: string;
+  // Narration lines, in order. They are shared out across the scenes of the reel.
+  body: string[];
+  callToAction: string;
+  title: string;
+  description: string;
+  // Hashtags including the leading `#`.
+  hashtags: string[];
+}
+
+export const SCRIPT_LIMITS = {
+  hook: 90,
+  bodyLines: { min: 1, max: 6 },
+  bodyLine: 140,
+  callToAction: 70,
+  title: 60,
+  description: 200,
+  hashtags: { min: 1, max: 5 },
+  hashtag: 30,
+};
+
+export const MAX_SCRIPT_ATTEMPTS = 3;
+
+// Characters that read badly aloud or break SSML.
+const UNSPEAKABLE_CHARACTERS = /[*#_~<>[\]{}|\\^`@]/;
+
+const HASHTAG_PATTERN = /^#[\p{L}\p{N}_]+$/u;
+
+/**
+ * Checks a script against the length and character limits.
+ * @param script - The (untrusted) script returned by a provider.
+ * @returns The list of problems, empty when the script is valid.
+ */
+export function validateScript(script: unknown): string[] {
+  const fields: Record<string, unknown> =
+    script && typeof script === 'object' ? { ...script } : {};
+  const errors: string[] = [];
+  const checkText = (
+    field: string,
+    value: unknown,
+    limit: number,
+    spoken: boolean
+  ) => {
+    if (typeof value !== 'string' || !value.trim()) {
+      errors.push(`${field} is missing.`);
+      return;
+    }
+    if (value.length > limit) {
+      errors.push(`${field} is longer than ${limit} characters.`);
+    }
+    if (spoken && UNSPEAKABLE_CHARACTERS.test(value)) {
+      errors.push(`${field} contains special characters.`);
+    }
+  };
+
+  checkText('hook', fields.hook, SCRIPT_LIMITS.hook, true);
+  const { body, hashtags } = fields;
+  if (
+    !Array.isArray(body) ||
+    body.length < SCRIPT_LIMITS.bodyLines.min ||
+    body.length > SCRIPT_LIMITS.bodyLines.max
+  ) {
+    errors.push(
+      `body must have ${SCRIPT_LIMITS.bodyLines.min} to ${SCRIPT_LIMITS.bodyLines.max} lines.`
+    );
+  } else {
+    body.forEach((line: unknown, index) =>
+      checkText(`body line ${index + 1}`, line, SCRIPT_LIMITS.bodyLine, true)
+    );
+  }
+  checkText(
+    'callToAction',
+    fields.callToAction,
+    SCRIPT_LIMITS.callToAction,
+    true
+  );
+  checkText('title', fields.title, SCRIPT_LIMITS.title, false);
+  checkText(
+    'description',
+    fields.description,
+    SCRIPT_LIMITS.description,
+    false
+  );
+
+  if (
+    !Array.isArray(hashtags) ||
+    hashtags.length < SCRIPT_LIMITS.hashtags.min ||
+    hashtags.length > SCRIPT_LIMITS.hashtags.max
+  ) {
+    errors.push(
+      `hashtags must have ${SCRIPT_LIMITS.hashtags.min} to ${SCRIPT_LIMITS.hashtags.max} entries.`
+    );
+  } else {
+    for (const hashtag of hashtags as unknown[]) {
+      if (
+        typeof hashtag !== 'string' ||
+        hashtag.length > SCRIPT_LIMITS.hashtag ||
+        !HASHTAG_PATTERN.test(hashtag)
+      ) {
+        errors.push(
+          `hashtag "${hashtag}" must be a # followed by up to ${SCRIPT_LIMITS.hashtag - 1} letters, digits or underscores.`
+        );
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Asks the provider for a script until one passes validation.
+ * @throws When no valid script was returned after `MAX_SCRIPT_ATTEMPTS` attempts.
+ */
+export async function generateValidScript(
+  provider: ScriptProvider,
+  sports: string,
+  options: Omit<ScriptOptions, 'feedback'>
+): Promise<ReelScript> {
+  let feedback: string[] = [];
+  for (let attempt = 1; attempt <= MAX_SCRIPT_ATTEMPTS; attempt++) {
+    const script = await provider.generateScript(sports, {
+      ...options,
+      feedback,
+    });
+    feedback = validateScript(script);
+    if (feedback.length === 0) {
+      return script;
+    }
+    console.warn(
+      `Script attempt ${attempt} failed validation:`,
+      feedback.join(' ')
+    );
+  }
+  throw new Error(
+    `Failed to generate a valid script after ${MAX_SCRIPT_ATTEMPTS} attempts: ${feedback.join(' ')}`
+  );
+}
+
+/**
+ * Returns the narration of a script as one paragraph per scene: the body lines are shared out
+ * across the scenes, with the hook opening the first scene and the call-to-action closing the last.
+ */
+export function toSpokenScript(script: ReelScript, sceneCount: number): string {
+  const count = Math.max(1, Math.min(sceneCount, script.body.length));
+  const paragraphs = Array.from({ length: count }, (_, scene) =>
+    script.body
+      .slice(
+        Math.round((scene * script.body.length) / count),
+        Math.round(((scene + 1) * script.body.length) / count)
+      )
+      .join(' ')
+  );
+  paragraphs[0] = `${script.hook} ${paragraphs[0]}`;
+  paragraphs[count - 1] = `${paragraphs[count - 1]} ${script.callToAction}`;
+  return paragraphs.join('\n\n');
+}
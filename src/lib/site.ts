@@ -0,0 +1,15 @@
+import { getConfig } from './config';
+
+/**
+ * The public address of the site, used to build the absolute URLs that link previews
+ * (OpenGraph and Twitter cards) require. Set `SITE_URL` in production.
+ */
+
+export const siteUrl = getConfig().siteUrl;
+
+/**
+ * Resolves a path or URL against the site address. Absolute URLs are returned unchanged.
+ */
+export function absoluteUrl(pathOrUrl: string): string {
+  return new URL(pathOrUrl, siteUrl).toString();
+}
@@ -0,0 +1,142 @@
+import { expireCachedAssets, getCachedFileNames } from './assetCache';
+import { getTempFilesInUse, JobAsset } from './jobs';
+import type { StorageProvider } from './providers/types';
+
+/**
+ * The lifecycle of stored files.
+ *
+ * Everything a job produces is first written to `temp/`: the uploaded images, the cached script,
+ * voiceover and clips, and the intermediate files (captions, the joined video). When the job succeeds,
+ * the files its reel refers to are promoted, i.e. copied into `reel/` under names of their own
+ * (`promoteAssets`), and the job and the catalog point at the copies. Files in `reel/` are kept
+ * until their job is deleted.
+ *
+ * Files in `temp/` are kept for a retention period (`TEMP_RETENTION_HOURS`, 24 hours by default).
+ * After that, a sweep (`sweepTempAssets`) deletes every file that is orphaned, i.e. not
+ * - in the asset cache (see `src/lib/assetCache.ts`); the sweep first expires the cache entries that
+ *   no job has used for `ASSET_CACHE_RETENTION_DAYS`, so their files become orphaned too,
+ * - used by a queued or running job, or
+ * - an uploaded scene image of a job, which re-running the job needs.
+ * So the working files of finished jobs, the partial files of failed ones and uploads that were never
+ * used are removed. The sweep only lists, compares and deletes, so it works against every storage backend.
+ */
+
+export interface PromotedAsset extends JobAsset {
+  url: string;
+}
+
+export interface SweepOptions {
+  // Only files last written longer ago than this are deleted.
+  olderThanHours: number;
+  // Cache entries no job has used for this long are expired first.
+  cacheRetentionDays: number;
+  // Report what would be deleted without deleting anything.
+  dryRun: boolean;
+}
+
+export interface SweptFile {
+  fileName: string;
+  size: number;
+  updatedAt: string;
+}
+
+export interface SweepReport {
+  dryRun: boolean;
+  olderThanHours: number;
+  // How many asset cache entries expired (or would, in a dry run).
+  expiredCacheEntries: number;
+  // How many files `temp/` holds.
+  scanned: number;
+  // Files kept because they are still in use, and because they are too recent.
+  keptInUse: number;
+  keptRecent: number;
+  // The orphaned files that were deleted (or would be, in a dry run).
+  deleted: SweptFile[];
+  deletedBytes: number;
+}
+
+/**
+ * Copies files from `temp/` into `reel/`, each under the given target name.
+ * The originals are left in place for the sweep.
+ * @returns The promoted copies with their URLs, in the order of `files`.
+ */
+export async function promoteAssets(
+  storage: StorageProvider,
+  files: { asset: JobAsset; fileName: string }[]
+): Promise<PromotedAsset[]> {
+  return Promise.all(
+    files.map(async ({ asset, fileName }) => ({
+      fileName,
+      directory: 'reel' as const,
+      url: await storage.copy(
+        asset.fileName,
+        asset.directory,
+        fileName,
+        'reel'
+      ),
+    }))
+  );
+}
+
+/**
+ * Deletes the orphaned files in `temp/` that are older than `olderThanHours`.
+ * A file that cannot be deleted is logged and left for the next sweep.
+ * @returns What was (or, in a dry run, would be) deleted and what was kept.
+ */
+export async function sweepTempAssets(
+  storage: StorageProvider,
+  { olderThanHours, cacheRetentionDays, dryRun }: SweepOptions
+): Promise<SweepReport> {
+  const cacheCutoff = new Date(
+    Date.now() - cacheRetentionDays * 24 * 60 * 60 * 1000
+  );
+  // A dry run leaves the index alone, so the expired entries are also left out of the cached files below.
+  const expiredCacheEntries = await expireCachedAssets(cacheCutoff, dryRun);
+  const [files, inUse, cached] = await Promise.all([
+    storage.list('temp'),
+    getTempFilesInUse(),
+    getCachedFileNames('temp', cacheCutoff),
+  ]);
+  const cutoff = Date.now() - olderThanHours * 60 * 60 * 1000;
+
+  const report: SweepReport = {
+    dryRun,
+    olderThanHours,
+    expiredCacheEntries,
+    scanned: files.length,
+    keptInUse: 0,
+    keptRecent: 0,
+    deleted: [],
+    deletedBytes: 0,
+  };
+
+  for (const file of files) {
+    if (inUse.has(file.fileName) || cached.has(file.fileName)) {
+      report.keptInUse++;
+      continue;
+    }
+    if (file.updatedAt.getTime() > cutoff) {
+      report.keptRecent++;
+      continue;
+    }
+    if (!dryRun) {
+      try {
+        await storage.delete(file.fileName, 'temp');
+      } catch (error) {
+        console.error(`Failed to delete temp/${file.fileName}:`, error);
+        continue;
+      }
+    }
+    report.deleted.push({
+      fileName: file.fileName,
+      size: file.size,
+      updatedAt: file.updatedAt.toISOString(),
+    });
+    report.deletedBytes += file.size;
+  }
+
+  console.log(
+    `${dryRun ? 'Dry run: would delete' : 'Deleted'} ${report.deleted.length} of ${report.scanned} temp files (${report.deletedBytes} bytes).`
+  );
+  return report;
+}
@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { api } from './api';
+import { createViewTracker, ViewEvent, ViewTracker } from './viewEvents';
+
+vi.mock('./api', () => ({
+  api: { sendViewEvents: vi.fn() },
+}));
+
+const REEL = 'reel-1';
+const DURATION = 10;
+
+let now = 0;
+let tracker: ViewTracker;
+
+beforeEach(() => {
+  now = 0;
+  vi.spyOn(performance, 'now').mockImplementation(() => now);
+  vi.mocked(api.sendViewEvents).mockResolvedValue({
+    success: true,
+    recorded: 0,
+  });
+  tracker = createViewTracker();
+});
+
+afterEach(() => {
+  tracker.stop();
+  vi.restoreAllMocks();
+});
+
+// Sends the queued events and returns them.
+function sentEvents(): ViewEvent[] {
+  tracker.flush();
+  return vi
+    .mocked(api.sendViewEvents)
+    .mock.calls.flatMap(([request]) => request.events);
+}
+
+function types(events: ViewEvent[]) {
+  return events.map((event) => event.type);
+}
+
+// Plays the reel from `from` to `to` seconds, reporting the position every quarter second.
+function playThrough(from: number, to: number) {
+  for (let time = from; time <= to; time += 0.25) {
+    now += 250;
+    tracker.progress(REEL, time, DURATION);
+  }
+}
+
+describe('createViewTracker', () => {
+  it('reports one play per impression however often the reel is resumed', () => {
+    tracker.impression(REEL);
+    tracker.play(REEL);
+    playThrough(0.25, 2);
+    tracker.pause(REEL);
+    tracker.play(REEL);
+    playThrough(2.25, 4);
+    tracker.pause(REEL);
+    tracker.play(REEL);
+
+    expect(types(sentEvents())).toEqual([
+      'impression',
+      'play',
+      'pause',
+      'progress',
+      'pause',
+    ]);
+  });
+
+  it('reports a play again in the next impression', () => {
+    tracker.impression(REEL);
+    tracker.play(REEL);
+    tracker.pause(REEL);
+    tracker.impression(REEL);
+    tracker.play(REEL);
+
+    expect(types(sentEvents())).toEqual([
+      'impression',
+      'play',
+      'pause',
+      'impression',
+      'play',
+    ]);
+  });
+
+  it('completes a looping reel near its end, once per impression', () => {
+    tracker.impression(REEL);
+    tracker.play(REEL);
+    playThrough(0.25, 9.75);
+    // The reel loops and plays to its end again.
+    playThrough(0.25, 9.75);
+
+    const events = sentEvents();
+    expect(types(events)).toEqual([
+      'impression',
+      'play',
+      'progress',
+      'progress',
+      'progress',
+      'complete',
+      'loop',
+    ]);
+    expect(events.filter((event) => event.type === 'progress')).toEqual([
+      expect.objectContaining({ percent: 25 }),
+      expect.objectContaining({ percent: 50 }),
+      expect.objectContaining({ percent: 75 }),
+    ]);
+  });
+
+  it('completes a reel that ends', () => {
+    tracker.impression(REEL);
+    tracker.play(REEL);
+    playThrough(0.25, 3);
+    tracker.ended(REEL);
+
+    expect(types(sentEvents())).toEqual([
+      'impression',
+      'play',
+      'progress',
+      'progress',
+      'progress',
+      'complete',
+    ]);
+  });
+
+  it('adds up the watch time across pauses', () => {
+    tracker.impression(REEL);
+    tracker.play(REEL);
+    now += 2_000;
+    tracker.pause(REEL);
+    now += 5_000;
+    tracker.play(REEL);
+    now += 1_500;
+    tracker.pause(REEL);
+
+    const watched = sentEvents().reduce(
+      (sum, event) => sum + (event.watchedSeconds || 0),
+      0
+    );
+    expect(watched).toBe(3.5);
+  });
+});
@@ -0,0 +1,223 @@
+import { api } from './api';
+
+/**
+ * What the feed reports about how reels are watched, and the tracker that reports it.
+ *
+ * The tracker derives the events from what the `video` elements do (playing, pausing, unmuting and
+ * the playback position) and sends them in batches to `POST /api/analytics/events`, where they are added
+ * to the per-reel daily counters of `src/lib/analytics.ts`. Every event carries the seconds the reel
+ * played since its previous event, so the watch time adds up without a heartbeat.
+ *
+ * This module only calls the typed API client, so it can be used in client components.
+ */
+
+export type ViewEventType =
+  // The reel became the current reel of the feed.
+  | 'impression'
+  // The reel started playing for the first time in this impression (resuming after a pause is not a play).
+  | 'play'
+  | 'pause'
+  | 'unmute'
+  // The reel played past one of `PROGRESS_MILESTONES`.
+  | 'progress'
+  // The reel played to its end for the first time in this impression.
+  | 'complete'
+  // The reel started over.
+  | 'loop';
+
+export const VIEW_EVENT_TYPES: ViewEventType[] = [
+  'impression',
+  'play',
+  'pause',
+  'unmute',
+  'progress',
+  'complete',
+  'loop',
+];
+
+// The shares of a reel, in percent, whose viewing is reported by `progress` events.
+export const PROGRESS_MILESTONES = [25, 50, 75];
+
+export interface ViewEvent {
+  type: ViewEventType;
+  reelId: string;
+  // With `progress`: the milestone reached.
+  percent?: number;
+  // Seconds the reel played since its previous event.
+  watchedSeconds?: number;
+}
+
+// How often queued events are sent, and how many are sent straight away.
+const FLUSH_INTERVAL_MS = 10000;
+const MAX_QUEUED_EVENTS = 20;
+
+// A jump back by more than this, from this close to the end, is the reel looping rather than a seek.
+const LOOP_JUMP_SECONDS = 1;
+const LOOP_END_SECONDS = 1.5;
+// A position this close to the end counts as the reel played to its end: the feed loops its reels,
+// so `ended` never fires there, and `timeupdate` only fires a few times a second.
+const COMPLETE_END_SECONDS = 0.5;
+
+interface ReelView {
+  // When the reel last started playing (`performance.now()`), or null while it is paused.
+  playingSince: number | null;
+  // Seconds played that no event has reported yet.
+  unreportedSeconds: number;
+  // What has been reported in the current impression.
+  played: boolean;
+  reached: Set<number>;
+  completed: boolean;
+  // The playback position at the previous update, to notice the reel looping.
+  lastTime: number;
+}
+
+export interface ViewTracker {
+  impression(reelId: string): void;
+  play(reelId: string): void;
+  pause(reelId: string): void;
+  unmute(reelId: string): void;
+  // Reports the playback position, from which milestones, completion and loops are derived.
+  progress(reelId: string, currentTime: number, duration: number): void;
+  // Reports that the reel played to its end (the `ended` event of a reel that does not loop).
+  ended(reelId: string): void;
+  // Sends the queued events. When the viewer is leaving, the playing reels are reported as paused first.
+  flush(leaving?: boolean): void;
+  // Flushes as when leaving and stops sending.
+  stop(): void;
+}
+
+/**
+ * Creates a tracker that batches view events and sends them every `FLUSH_INTERVAL_MS`,
+ * or as soon as `MAX_QUEUED_EVENTS` are queued.
+ */
+export function createViewTracker(): ViewTracker {
+  const views = new Map<string, ReelView>();
+  let queue: ViewEvent[] = [];
+
+  const getView = (reelId: string): ReelView => {
+    let view = views.get(reelId);
+    if (!view) {
+      view = {
+        playingSince: null,
+        unreportedSeconds: 0,
+        played: false,
+        reached: new Set(),
+        completed: false,
+        lastTime: 0,
+      };
+      views.set(reelId, view);
+    }
+    return view;
+  };
+
+  const send = (event: ViewEvent) => {
+    const view = getView(event.reelId);
+    if (view.playingSince !== null) {
+      const now = performance.now();
+      view.unreportedSeconds += (now - view.playingSince) / 1000;
+      view.playingSince = now;
+    }
+    const watchedSeconds = Math.round(view.unreportedSeconds * 10) / 10;
+    view.unreportedSeconds = 0;
+    queue.push(watchedSeconds > 0 ? { ...event, watchedSeconds } : event);
+    if (queue.length >= MAX_QUEUED_EVENTS) {
+      tracker.flush();
+    }
+  };
+
+  // Reports the milestones up to `percent` not reported yet in the current impression.
+  const reach = (reelId: string, percent: number) => {
+    const view = getView(reelId);
+    for (const milestone of PROGRESS_MILESTONES) {
+      if (percent >= milestone && !view.reached.has(milestone)) {
+        view.reached.add(milestone);
+        send({ type: 'progress', reelId, percent: milestone });
+      }
+    }
+  };
+
+  // Reports the reel played to its end, once per impression.
+  const reachEnd = (reelId: string) => {
+    reach(reelId, 100);
+    const view = getView(reelId);
+    if (!view.completed) {
+      view.completed = true;
+      send({ type: 'complete', reelId });
+    }
+  };
+
+  const tracker: ViewTracker = {
+    impression(reelId) {
+      const view = getView(reelId);
+      view.played = false;
+      view.reached = new Set();
+      view.completed = false;
+      send({ type: 'impression', reelId });
+    },
+
+    play(reelId) {
+      const view = getView(reelId);
+      if (view.playingSince !== null) return;
+      view.playingSince = performance.now();
+      if (!view.played) {
+        view.played = true;
+        send({ type: 'play', reelId });
+      }
+    },
+
+    pause(reelId) {
+      const view = getView(reelId);
+      if (view.playingSince === null) return;
+      send({ type: 'pause', reelId });
+      view.playingSince = null;
+    },
+
+    unmute(reelId) {
+      send({ type: 'unmute', reelId });
+    },
+
+    progress(reelId, currentTime, duration) {
+      if (!(duration > 0)) return;
+      const view = getView(reelId);
+      const looped =
+        currentTime + LOOP_JUMP_SECONDS < view.lastTime &&
+        view.lastTime > duration - LOOP_END_SECONDS;
+      view.lastTime = currentTime;
+
+      if (looped || currentTime >= duration - COMPLETE_END_SECONDS) {
+        reachEnd(reelId);
+      } else {
+        reach(reelId, (currentTime / duration) * 100);
+      }
+      if (looped) {
+        send({ type: 'loop', reelId });
+      }
+    },
+
+    ended(reelId) {
+      reachEnd(reelId);
+    },
+
+    flush(leaving = false) {
+      if (leaving) {
+        for (const [reelId, view] of views) {
+          if (view.playingSince !== null) tracker.pause(reelId);
+        }
+      }
+      if (queue.length === 0) return;
+      const events = queue;
+      queue = [];
+      api
+        .sendViewEvents({ events })
+        .catch((error) => console.error('Failed to send view events:', error));
+    },
+
+    stop() {
+      clearInterval(interval);
+      tracker.flush(true);
+    },
+  };
+
+  const interval = setInterval(() => tracker.flush(), FLUSH_INTERVAL_MS);
+  return tracker;
+}
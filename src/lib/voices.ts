@@ -0,0 +1,163 @@
+/**
+ * Voice and language settings for the voiceover stage, shared by the API routes and the `Create` page.
+ * The defaults match what the pipeline has always used: US English at 1.2x speed with a neutral pitch.
+ */
+
+export interface Language {
+  code: string;
+  // English name of the language, used when asking the script provider to write in it.
+  name: string;
+  // A short sentence used to preview the voices of this language.
+  previewText: string;
+}
+
+export interface Voice {
+  // Google Cloud Text-to-Speech voice name.
+  name: string;
+  languageCode: string;
+  label: string;
+}
+
+export interface VoiceSettings {
+  languageCode: string;
+  // Voice name; the provider's default voice for the language is used when omitted.
+  name?: string;
+  speakingRate: number;
+  pitch: number;
+  // Send the script as SSML (with word marks for caption timing and pauses between sentences)
+  // rather than plain text.
+  ssml: boolean;
+}
+
+export const LANGUAGES: Language[] = [
+  {
+    code: 'en-US',
+    name: 'English',
+    previewText: 'What a finish! The crowd is on its feet.',
+  },
+  {
+    code: 'hi-IN',
+    name: 'Hindi',
+    previewText: 'क्या शानदार मुकाबला! पूरा स्टेडियम झूम उठा।',
+  },
+  {
+    code: 'es-ES',
+    name: 'Spanish',
+    previewText: '¡Qué final! El estadio entero está de pie.',
+  },
+  {
+    code: 'es-US',
+    name: 'Spanish',
+    previewText: '¡Qué final! El estadio entero está de pie.',
+  },
+];
+
+export const VOICES: Voice[] = [
+  {
+    name: 'en-US-Neural2-D',
+    languageCode: 'en-US',
+    label: 'English (US) - Male',
+  },
+  {
+    name: 'en-US-Neural2-F',
+    languageCode: 'en-US',
+    label: 'English (US) - Female',
+  },
+  { name: 'hi-IN-Neural2-B', languageCode: 'hi-IN', label: 'Hindi - Male' },
+  { name: 'hi-IN-Neural2-A', languageCode: 'hi-IN', label: 'Hindi - Female' },
+  {
+    name: 'es-ES-Neural2-B',
+    languageCode: 'es-ES',
+    label: 'Spanish (Spain) - Male',
+  },
+  {
+    name: 'es-ES-Neural2-A',
+    languageCode: 'es-ES',
+    label: 'Spanish (Spain) - Female',
+  },
+  {
+    name: 'es-US-Neural2-B',
+    languageCode: 'es-US',
+    label: 'Spanish (US) - Male',
+  },
+  {
+    name: 'es-US-Neural2-A',
+    languageCode: 'es-US',
+    label: 'Spanish (US) - Female',
+  },
+];
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  languageCode: 'en-US',
+  speakingRate: 1.2,
+  pitch: 0,
+  ssml: true,
+};
+
+// Limits accepted by Google Cloud Text-to-Speech.
+export const SPEAKING_RATE_RANGE = { min: 0.25, max: 4 };
+export const PITCH_RANGE = { min: -20, max: 20 };
+
+export function getLanguage(code: string): Language | undefined {
+  return LANGUAGES.find((language) => language.code === code);
+}
+
+/**
+ * Fills in defaults for the voice settings of a request and validates them.
+ * @param input - The (untrusted) voice settings from the request body or query string.
+ * @returns The validated settings, or an error message describing the first invalid field.
+ */
+export function parseVoiceSettings(
+  input: unknown
+): { settings: VoiceSettings } | { error: string } {
+  const fields: Record<string, unknown> =
+    input && typeof input === 'object' ? { ...input } : {};
+  const settings: VoiceSettings = {
+    ...DEFAULT_VOICE_SETTINGS,
+    ...(fields.languageCode !== undefined && {
+      languageCode: String(fields.languageCode),
+    }),
+    ...(Boolean(fields.name) && { name: String(fields.name) }),
+    ...(fields.speakingRate !== undefined && {
+      speakingRate: Number(fields.speakingRate),
+    }),
+    ...(fields.pitch !== undefined && { pitch: Number(fields.pitch) }),
+    ...(fields.ssml !== undefined && {
+      ssml: fields.ssml === true || fields.ssml === 'true',
+    }),
+  };
+
+  if (!getLanguage(settings.languageCode)) {
+    return { error: `Unsupported language "${settings.languageCode}".` };
+  }
+  if (
+    settings.name &&
+    !VOICES.some(
+      (voice) =>
+        voice.name === settings.name &&
+        voice.languageCode === settings.languageCode
+    )
+  ) {
+    return {
+      error: `Unknown voice "${settings.name}" for ${settings.languageCode}.`,
+    };
+  }
+  if (
+    !(settings.speakingRate >= SPEAKING_RATE_RANGE.min) ||
+    !(settings.speakingRate <= SPEAKING_RATE_RANGE.max)
+  ) {
+    return {
+      error: `speakingRate must be between ${SPEAKING_RATE_RANGE.min} and ${SPEAKING_RATE_RANGE.max}.`,
+    };
+  }
+  if (
+    !(settings.pitch >= PITCH_RANGE.min) ||
+    !(settings.pitch <= PITCH_RANGE.max)
+  ) {
+    return {
+      error: `pitch must be between ${PITCH_RANGE.min} and ${PITCH_RANGE.max}.`,
+    };
+  }
+
+  return { settings };
+}